@@ -0,0 +1,243 @@
+import { Err, None, Option, Result } from "./types";
+import { AnyError } from "./error";
+
+/** A value that may or may not need to be awaited. */
+export type Awaitable<T> = T | PromiseLike<T>;
+
+// The error carried by the Errs a try block yields.
+type YieldedError<Y> = Y extends Err<infer E, any> ? E : never;
+
+/**
+ * An awaitable `Result<T, E>` for asynchronous pipelines.
+ * Every combinator accepts sync or async callbacks, and awaiting it yields a plain `Result`.
+ */
+export class ResultAsync<T, E> implements PromiseLike<Result<T, E>> {
+    private readonly promise: Promise<Result<T, E>>;
+
+    constructor(result: Awaitable<Result<T, E>>) {
+        this.promise = Promise.resolve(result);
+    }
+
+    static ok<T, E>(value: T): ResultAsync<T, E> {
+        return new ResultAsync(Result.ok<T, E>(value));
+    }
+
+    static err<T, E>(error: E): ResultAsync<T, E> {
+        return new ResultAsync(Result.err<T, E>(error));
+    }
+
+    /**
+     * Converts a promise into a ResultAsync, mapping a rejection into an Err.
+     * @param promise The promise to wrap.
+     * @param mapErr Converts the rejection reason into the error type.
+     */
+    static fromPromise<T, E>(promise: PromiseLike<T>, mapErr: (error: unknown) => E): ResultAsync<T, E> {
+        return new ResultAsync(
+            Promise.resolve(promise).then(
+                (value) => Result.ok<T, E>(value),
+                (error) => Result.err<T, E>(mapErr(error))
+            )
+        );
+    }
+
+    /**
+     * Async version of `Result.try`. Awaiting inside the block is allowed, and `yield* x.q()` works
+     * on Results and ResultAsyncs; a promise of a Result needs awaiting first (`yield* (await load()).q()`).
+     */
+    static try<Y extends Err<any, any>, T>(
+        block: () => AsyncGenerator<Y, T, unknown>
+    ): ResultAsync<T, YieldedError<Y>>;
+    static try<Y extends Err<any, any>, T, F>(
+        block: () => AsyncGenerator<Y, T, unknown>,
+        from: (error: YieldedError<Y>) => F
+    ): ResultAsync<T, F>;
+    static try<T>(
+        block: () => AsyncGenerator<Err<unknown>, T, unknown>,
+        from?: (error: unknown) => unknown
+    ): ResultAsync<T, unknown> {
+        return new ResultAsync(
+            (async () => {
+                const generator = block();
+                const step = await generator.next();
+                if (step.done) return Result.ok<T, unknown>(step.value);
+                await generator.return(undefined as T);
+                return Result.err<T, unknown>(from ? from(step.value.error) : step.value.error);
+            })()
+        );
+    }
+
+    /**
+     * Waits for every result and collects the Ok values, or resolves to the first Err in order.
+     */
+    static all<T, E>(results: readonly Awaitable<Result<T, E>>[]): ResultAsync<T[], E> {
+        return new ResultAsync(Promise.all(results).then((settled) => Result.all(settled)));
+    }
+
+    /**
+     * Waits for every result and resolves to the first Ok, or to every Err if none succeeded.
+     */
+    static any<T, E>(results: readonly Awaitable<Result<T, E>>[]): ResultAsync<T, E[]> {
+        return new ResultAsync(Promise.all(results).then((settled) => Result.any(settled)));
+    }
+
+    then<A = Result<T, E>, B = never>(
+        onfulfilled?: ((result: Result<T, E>) => A | PromiseLike<A>) | null,
+        onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null
+    ): Promise<A | B> {
+        return this.promise.then(onfulfilled, onrejected);
+    }
+
+    map<U>(fn: (value: T) => Awaitable<U>): ResultAsync<U, E> {
+        return new ResultAsync(
+            this.promise.then(async (result) =>
+                result.isOk()
+                    ? Result.ok<U, E>(await fn(result.value))
+                    : Result.err<U, E>(result.unwrapErr())
+            )
+        );
+    }
+
+    mapErr<F>(fn: (error: E) => Awaitable<F>): ResultAsync<T, F> {
+        return new ResultAsync(
+            this.promise.then(async (result) =>
+                result.isErr()
+                    ? Result.err<T, F>(await fn(result.error))
+                    : Result.ok<T, F>(result.unwrap())
+            )
+        );
+    }
+
+    andThen<U>(fn: (value: T) => Awaitable<Result<U, E>>): ResultAsync<U, E> {
+        return new ResultAsync(
+            this.promise.then((result) =>
+                result.isOk() ? fn(result.value) : Result.err<U, E>(result.unwrapErr())
+            )
+        );
+    }
+
+    orElse<F>(fn: (error: E) => Awaitable<Result<T, F>>): ResultAsync<T, F> {
+        return new ResultAsync(
+            this.promise.then((result) =>
+                result.isErr() ? fn(result.error) : Result.ok<T, F>(result.unwrap())
+            )
+        );
+    }
+
+    /** Wraps an Err in an `AnyError` with `message`, like `Result.context`. */
+    context(message: string): ResultAsync<T, AnyError> {
+        return new ResultAsync(this.promise.then((result) => result.context(message)));
+    }
+
+    /** Like `context`, but only builds the message (from the error) when this is an Err. */
+    withContext(fn: (error: E) => string): ResultAsync<T, AnyError> {
+        return new ResultAsync(this.promise.then((result) => result.withContext(fn)));
+    }
+
+    unwrapOr(defaultValue: T): Promise<T> {
+        return this.promise.then((result) => (result.isOk() ? result.value : defaultValue));
+    }
+
+    /** The `?` operator for `ResultAsync.try` blocks, like `Result.q`. */
+    async *q(): AsyncGenerator<Err<E, never>, T, unknown> {
+        return yield* (await this.promise).q();
+    }
+
+    /** Yields the Ok payload once it resolves, and nothing for Err. */
+    async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+        yield* await this.promise;
+    }
+}
+
+/**
+ * An awaitable `Option<T>` for asynchronous pipelines.
+ * Every combinator accepts sync or async callbacks, and awaiting it yields a plain `Option`.
+ */
+export class OptionAsync<T> implements PromiseLike<Option<T>> {
+    private readonly promise: Promise<Option<T>>;
+
+    constructor(option: Awaitable<Option<T>>) {
+        this.promise = Promise.resolve(option);
+    }
+
+    static some<T>(value: T): OptionAsync<T> {
+        return new OptionAsync(Option.some(value));
+    }
+
+    static none<T>(): OptionAsync<T> {
+        return new OptionAsync(Option.none<T>());
+    }
+
+    /**
+     * Wraps a possibly-missing value or a promise of one, treating `null` and `undefined` as None.
+     */
+    static fromNullable<T>(value: Awaitable<T | null | undefined>): OptionAsync<NonNullable<T>> {
+        return new OptionAsync(Promise.resolve(value).then((resolved) => Option.fromNullable(resolved)));
+    }
+
+    /**
+     * Async version of `Option.try`. Awaiting inside the block is allowed, and `yield* x.q()` works
+     * on Options and OptionAsyncs; a promise of an Option needs awaiting first (`yield* (await lookup()).q()`).
+     */
+    static try<T>(block: () => AsyncGenerator<None<any>, T, unknown>): OptionAsync<T> {
+        return new OptionAsync(
+            (async () => {
+                const generator = block();
+                const step = await generator.next();
+                if (step.done) return Option.some(step.value);
+                await generator.return(undefined as T);
+                return Option.none<T>();
+            })()
+        );
+    }
+
+    then<A = Option<T>, B = never>(
+        onfulfilled?: ((option: Option<T>) => A | PromiseLike<A>) | null,
+        onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null
+    ): Promise<A | B> {
+        return this.promise.then(onfulfilled, onrejected);
+    }
+
+    map<U>(fn: (value: T) => Awaitable<U>): OptionAsync<U> {
+        return new OptionAsync(
+            this.promise.then(async (option) =>
+                option.isSome() ? Option.some(await fn(option.value)) : Option.none<U>()
+            )
+        );
+    }
+
+    andThen<U>(fn: (value: T) => Awaitable<Option<U>>): OptionAsync<U> {
+        return new OptionAsync(
+            this.promise.then((option) => (option.isSome() ? fn(option.value) : Option.none<U>()))
+        );
+    }
+
+    orElse(fn: () => Awaitable<Option<T>>): OptionAsync<T> {
+        return new OptionAsync(this.promise.then((option) => (option.isSome() ? option : fn())));
+    }
+
+    filter(fn: (value: T) => Awaitable<boolean>): OptionAsync<T> {
+        return new OptionAsync(
+            this.promise.then(async (option) =>
+                option.isSome() && (await fn(option.value)) ? option : Option.none<T>()
+            )
+        );
+    }
+
+    unwrapOr(defaultValue: T): Promise<T> {
+        return this.promise.then((option) => option.unwrapOr(defaultValue));
+    }
+
+    toNullable(): Promise<T | null> {
+        return this.promise.then((option) => option.toNullable());
+    }
+
+    /** The `?` operator for `OptionAsync.try` blocks, like `Option.q`. */
+    async *q(): AsyncGenerator<None<never>, T, unknown> {
+        return yield* (await this.promise).q();
+    }
+
+    /** Yields the Some payload once it resolves, and nothing for None. */
+    async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+        yield* await this.promise;
+    }
+}
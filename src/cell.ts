@@ -0,0 +1,207 @@
+import { panic } from "./panic";
+import { Result } from "./types";
+import "./utils";
+
+/**
+ * A mutable box for a value, similar to Rust's `Cell<T>`: the value is only ever copied
+ * in or out, so no borrow can be outstanding.
+ */
+export class Cell<T> {
+    constructor(private value: T) { }
+
+    get(): T {
+        return this.value;
+    }
+
+    set(value: T): void {
+        this.value = value;
+    }
+
+    /** Stores `value` and returns the previous value. */
+    replace(value: T): T {
+        const previous = this.value;
+        this.value = value;
+        return previous;
+    }
+
+    /** Replaces the value with `fn(value)` and returns the new value. */
+    update(fn: (value: T) => T): T {
+        this.value = fn(this.value);
+        return this.value;
+    }
+
+    /** Exchanges the values of two cells. */
+    swap(other: Cell<T>): void {
+        [this.value, other.value] = [other.value, this.value];
+    }
+}
+
+/**
+ * Error for a borrow that conflicts with an active one, returned by `tryBorrow`/`tryBorrowMut`
+ * and carried as the payload of the panic from `borrow`/`borrowMut`.
+ */
+export class BorrowError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "BorrowError";
+    }
+}
+
+/**
+ * A shared borrow of a `RefCell`'s value, or a read guard of an `RwLock`. Release it with `release()`,
+ * or declare it with `using` so it is released at the end of the scope.
+ */
+export interface Ref<T> {
+    get(): T;
+    release(): void;
+    [Symbol.dispose](): void;
+}
+
+/**
+ * An exclusive borrow of a `RefCell`'s value (or a `Mutex`/`RwLock` write guard), allowing it to be replaced.
+ */
+export interface RefMut<T> extends Ref<T> {
+    set(value: T): void;
+    /** Replaces the value with `fn(value)` and returns the new value. */
+    update(fn: (value: T) => T): T;
+}
+
+/**
+ * The guard behind `Ref`/`RefMut` for `RefCell` borrows and lock guards. `released` makes release
+ * idempotent, and using the guard afterwards panics; `names` words those panics for its owner.
+ */
+export class Guard<T> implements RefMut<T> {
+    private released = false;
+
+    constructor(
+        private readonly slot: { value: T },
+        private readonly mutable: boolean,
+        private readonly onRelease: () => void,
+        private readonly names = { guard: "borrow", shared: "shared borrow" }
+    ) { }
+
+    private check(): void {
+        if (this.released) panic(`${this.names.guard} used after it was released`);
+    }
+
+    get(): T {
+        this.check();
+        return this.slot.value;
+    }
+
+    set(value: T): void {
+        this.check();
+        if (!this.mutable) panic(`cannot assign through a ${this.names.shared}`);
+        this.slot.value = value;
+    }
+
+    update(fn: (value: T) => T): T {
+        this.set(fn(this.get()));
+        return this.slot.value;
+    }
+
+    release(): void {
+        if (this.released) return;
+        this.released = true;
+        this.onRelease();
+    }
+
+    [Symbol.dispose](): void {
+        this.release();
+    }
+}
+
+// Releases a guard when a scope callback returns, or when the promise it returns settles.
+function scoped<G extends Ref<any>, R>(guard: G, fn: (guard: G) => R): R {
+    let result: R;
+    try {
+        result = fn(guard);
+    } catch (error) {
+        guard.release();
+        throw error;
+    }
+    if (result instanceof Promise) return result.finally(() => guard.release()) as R;
+    guard.release();
+    return result;
+}
+
+/**
+ * A mutable box with borrow checking at runtime, similar to Rust's `RefCell<T>`: any number of
+ * shared borrows or a single exclusive one may be active at a time. Conflicting borrows panic
+ * (or return a `BorrowError` from the `try` variants) instead of silently aliasing.
+ */
+export class RefCell<T> {
+    // Active borrows: the number of shared ones, or -1 while mutably borrowed.
+    private state = 0;
+    private readonly slot: { value: T };
+
+    constructor(value: T) {
+        this.slot = { value };
+    }
+
+    /** Borrows the value; fails if it is mutably borrowed. */
+    tryBorrow(): Result<Ref<T>, BorrowError> {
+        if (this.state < 0) return Result.err(new BorrowError("already mutably borrowed"));
+        this.state++;
+        return Result.ok(new Guard(this.slot, false, () => this.state--));
+    }
+
+    /** Borrows the value exclusively; fails if it is borrowed at all. */
+    tryBorrowMut(): Result<RefMut<T>, BorrowError> {
+        if (this.state !== 0) return Result.err(new BorrowError("already borrowed"));
+        this.state = -1;
+        return Result.ok(new Guard(this.slot, true, () => (this.state = 0)));
+    }
+
+    /**
+     * Borrows the value.
+     * @throws Panic with the `BorrowError` as payload if it is mutably borrowed.
+     */
+    borrow(): Ref<T> {
+        const borrowed = this.tryBorrow();
+        if (borrowed.isErr()) return panic(borrowed.error.message, borrowed.error, RefCell.prototype.borrow);
+        return borrowed.unwrap();
+    }
+
+    /**
+     * Borrows the value exclusively.
+     * @throws Panic with the `BorrowError` as payload if it is borrowed.
+     */
+    borrowMut(): RefMut<T> {
+        const borrowed = this.tryBorrowMut();
+        if (borrowed.isErr()) return panic(borrowed.error.message, borrowed.error, RefCell.prototype.borrowMut);
+        return borrowed.unwrap();
+    }
+
+    /**
+     * Runs `fn` with the value under a shared borrow, released when `fn` returns
+     * (or when the promise it returns settles).
+     */
+    withBorrow<R>(fn: (value: T) => R): R {
+        return scoped(this.borrow(), (guard) => fn(guard.get()));
+    }
+
+    /**
+     * Runs `fn` with an exclusive borrow, released when `fn` returns (or when the promise it returns settles).
+     */
+    withBorrowMut<R>(fn: (guard: RefMut<T>) => R): R {
+        return scoped(this.borrowMut(), fn);
+    }
+
+    /**
+     * Stores `value` and returns the previous value.
+     * @throws Panic if the cell is borrowed.
+     */
+    replace(value: T): T {
+        return this.withBorrowMut((guard) => {
+            const previous = guard.get();
+            guard.set(value);
+            return previous;
+        });
+    }
+
+    /** Whether any borrow is active. */
+    isBorrowed(): boolean {
+        return this.state !== 0;
+    }
+}
@@ -0,0 +1,308 @@
+import { VecDeque } from "./collections";
+import { Option, Result } from "./types";
+
+/** Error returned when sending on a channel whose receiver is gone; the unsent value is kept as `value`. */
+export class SendError<T> extends Error {
+    constructor(readonly value: T) {
+        super("sending on a closed channel");
+        this.name = "SendError";
+    }
+}
+
+/** Error returned by `trySend`: the channel is `"Full"`, or `"Closed"` because its receiver is gone. */
+export class TrySendError<T> extends Error {
+    constructor(readonly kind: "Full" | "Closed", readonly value: T) {
+        super(kind === "Full" ? "no available capacity" : "sending on a closed channel");
+        this.name = "TrySendError";
+    }
+}
+
+/**
+ * Error returned by `tryRecv`: the channel is `"Empty"`, or `"Disconnected"` because it is empty and
+ * every sender is gone.
+ */
+export class TryRecvError extends Error {
+    constructor(readonly kind: "Empty" | "Disconnected") {
+        super(kind === "Empty" ? "receiving on an empty channel" : "receiving on a closed channel");
+        this.name = "TryRecvError";
+    }
+}
+
+/** Error returned when a oneshot sender is dropped without sending a value. */
+export class RecvError extends Error {
+    constructor() {
+        super("channel closed");
+        this.name = "RecvError";
+    }
+}
+
+// The buffer and bookkeeping shared by the Senders and the Receiver of one channel.
+class ChannelState<T> {
+    readonly queue = new VecDeque<T>();
+    // Sends waiting for capacity in a bounded channel, oldest first.
+    readonly blocked = new VecDeque<{ value: T; resolve: (result: Result<void, SendError<T>>) => void }>();
+    // Woken whenever a value arrives or the channel closes.
+    readonly listeners = new Set<() => void>();
+    senders = 1;
+    receiverClosed = false;
+
+    constructor(readonly capacity: number) { }
+
+    notify(): void {
+        for (const listener of [...this.listeners]) listener();
+    }
+
+    // Calls `onReady` once, at the next arrival or close; returns a function cancelling the wait.
+    wait(onReady: () => void): () => void {
+        const listener = () => {
+            this.listeners.delete(listener);
+            onReady();
+        };
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+}
+
+/**
+ * The sending half of a channel, like tokio's `mpsc::Sender`. Clone it for each producer; the
+ * receiver sees the end of the channel once every sender has been dropped.
+ */
+export class Sender<T> {
+    private dropped = false;
+
+    constructor(private readonly state: ChannelState<T>) { }
+
+    /**
+     * Sends a value, waiting for capacity if the channel is bounded and full.
+     * @returns Err with the value if the receiver has been closed or this sender dropped.
+     */
+    send(value: T): Promise<Result<void, SendError<T>>> {
+        const sent = this.trySend(value);
+        if (sent.isOk() || sent.unwrapErr().kind === "Closed") {
+            return Promise.resolve(sent.mapErr((error) => new SendError(error.value)));
+        }
+        return new Promise((resolve) => this.state.blocked.pushBack({ value, resolve }));
+    }
+
+    /** Sends a value if there is capacity right now. */
+    trySend(value: T): Result<void, TrySendError<T>> {
+        const state = this.state;
+        if (this.dropped || state.receiverClosed) return Result.err(new TrySendError("Closed", value));
+        if (state.queue.len() >= state.capacity || !state.blocked.isEmpty()) {
+            return Result.err(new TrySendError("Full", value));
+        }
+        state.queue.pushBack(value);
+        state.notify();
+        return Result.ok(undefined);
+    }
+
+    /** A new sender for the same channel. */
+    clone(): Sender<T> {
+        if (!this.dropped) this.state.senders++;
+        const sender = new Sender(this.state);
+        sender.dropped = this.dropped;
+        return sender;
+    }
+
+    /** Whether the receiver has been closed, so that sends fail. */
+    isClosed(): boolean {
+        return this.state.receiverClosed;
+    }
+
+    /** Releases this sender; dropping the last one ends the channel. Dropping twice does nothing. */
+    drop(): void {
+        if (this.dropped) return;
+        this.dropped = true;
+        if (--this.state.senders === 0) this.state.notify();
+    }
+
+    [Symbol.dispose](): void {
+        this.drop();
+    }
+}
+
+/**
+ * The receiving half of a channel, like tokio's `mpsc::Receiver`. It is also an async iterable,
+ * ending once every sender is dropped and the buffered values have been received.
+ */
+export class Receiver<T> {
+    constructor(private readonly state: ChannelState<T>) { }
+
+    /** Receives the next value, or None once the channel is empty and every sender has been dropped. */
+    async recv(): Promise<Option<T>> {
+        for (;;) {
+            const received = this.tryRecv();
+            if (received.isOk()) return Option.some(received.value);
+            if (received.unwrapErr().kind === "Disconnected") return Option.none();
+            await new Promise<void>((resolve) => this.state.wait(resolve));
+        }
+    }
+
+    /** Receives a value if one is buffered right now. */
+    tryRecv(): Result<T, TryRecvError> {
+        const state = this.state;
+        const value = state.queue.popFront();
+        if (value.isSome()) {
+            // A slot was freed: admit the oldest send waiting for capacity.
+            state.blocked.popFront().ifSome(({ value, resolve }) => {
+                state.queue.pushBack(value);
+                resolve(Result.ok(undefined));
+            });
+            return Result.ok(value.value);
+        }
+        return Result.err(new TryRecvError(state.senders === 0 || state.receiverClosed ? "Disconnected" : "Empty"));
+    }
+
+    /**
+     * Stops accepting values: later sends fail, and sends waiting for capacity are rejected with their
+     * values. Values already buffered can still be received.
+     */
+    close(): void {
+        const state = this.state;
+        if (state.receiverClosed) return;
+        state.receiverClosed = true;
+        for (let blocked = state.blocked.popFront(); blocked.isSome(); blocked = state.blocked.popFront()) {
+            blocked.value.resolve(Result.err(new SendError(blocked.value.value)));
+        }
+        state.notify();
+    }
+
+    [Symbol.dispose](): void {
+        this.close();
+    }
+
+    async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+        for (let value = await this.recv(); value.isSome(); value = await this.recv()) {
+            yield value.value;
+        }
+    }
+}
+
+/**
+ * Creates a multi-producer, single-consumer channel, like tokio's `mpsc::channel`. With a capacity,
+ * `send` waits while that many values are buffered; without one the channel is unbounded.
+ * @throws RangeError if the capacity is not a positive integer.
+ */
+export function channel<T>(capacity: number = Infinity): [Sender<T>, Receiver<T>] {
+    if (capacity !== Infinity && !(Number.isInteger(capacity) && capacity > 0)) {
+        throw new RangeError(`channel capacity must be a positive integer, got ${capacity}`);
+    }
+    const state = new ChannelState<T>(capacity);
+    return [new Sender(state), new Receiver(state)];
+}
+
+// The state behind a receiver, which select waits on without receiving.
+function stateOf<T>(receiver: Receiver<T>): ChannelState<T> {
+    return (receiver as unknown as { state: ChannelState<T> }).state;
+}
+
+/** The value `select` received, tagged with the key of the receiver it came from. */
+export type Selected<R extends Record<string, Receiver<any>>> = {
+    [K in keyof R]: { key: K; value: R[K] extends Receiver<infer T> ? T : never };
+}[keyof R];
+
+/**
+ * Receives from whichever receiver has a value first, like tokio's `select!` over `recv()` branches.
+ * Receivers are checked in key order, and only one value is taken.
+ * @returns The value and the key of its receiver, or None once every channel has ended.
+ */
+export async function select<R extends Record<string, Receiver<any>>>(receivers: R): Promise<Option<Selected<R>>> {
+    const entries = Object.entries(receivers);
+    for (;;) {
+        let open = false;
+        for (const [key, receiver] of entries) {
+            const received = receiver.tryRecv();
+            if (received.isOk()) return Option.some({ key, value: received.value } as Selected<R>);
+            open ||= received.unwrapErr().kind === "Empty";
+        }
+        if (!open) return Option.none();
+        await new Promise<void>((resolve) => {
+            const cancels = entries.map(([, receiver]) => stateOf(receiver).wait(() => {
+                cancels.forEach((cancel) => cancel());
+                resolve();
+            }));
+        });
+    }
+}
+
+// The slot shared by the two halves of a oneshot channel.
+interface OneshotState<T> {
+    value: Option<T>;
+    senderDone: boolean;
+    receiverClosed: boolean;
+    waiters: (() => void)[];
+}
+
+/** The sending half of a oneshot channel, which can send a single value. */
+export class OneshotSender<T> {
+    constructor(private readonly state: OneshotState<T>) { }
+
+    /**
+     * Sends the value, consuming the sender.
+     * @returns Err with the value if the receiver has been closed or a value was already sent.
+     */
+    send(value: T): Result<void, SendError<T>> {
+        const state = this.state;
+        if (state.senderDone || state.receiverClosed) return Result.err(new SendError(value));
+        state.value = Option.some(value);
+        this.finish();
+        return Result.ok(undefined);
+    }
+
+    /** Whether the receiver has been closed. */
+    isClosed(): boolean {
+        return this.state.receiverClosed;
+    }
+
+    /** Drops the sender without sending, so that the receiver gets a `RecvError`. */
+    drop(): void {
+        if (!this.state.senderDone) this.finish();
+    }
+
+    [Symbol.dispose](): void {
+        this.drop();
+    }
+
+    private finish(): void {
+        this.state.senderDone = true;
+        this.state.waiters.splice(0).forEach((wake) => wake());
+    }
+}
+
+/** The receiving half of a oneshot channel. Awaiting it gives the value, like awaiting `recv()`. */
+export class OneshotReceiver<T> implements PromiseLike<Result<T, RecvError>> {
+    constructor(private readonly state: OneshotState<T>) { }
+
+    /** Waits for the value, or an Err once the sender is dropped or the receiver closed without a value. */
+    async recv(): Promise<Result<T, RecvError>> {
+        const state = this.state;
+        if (!state.senderDone && !state.receiverClosed) await new Promise<void>((resolve) => state.waiters.push(resolve));
+        return this.state.value.ifSome((value) => Result.ok(value), () => Result.err(new RecvError()));
+    }
+
+    /** The value if it has been sent; Err("Empty") while waiting and Err("Disconnected") if it never will be. */
+    tryRecv(): Result<T, TryRecvError> {
+        const state = this.state;
+        if (state.value.isSome()) return Result.ok(state.value.value);
+        return Result.err(new TryRecvError(state.senderDone || state.receiverClosed ? "Disconnected" : "Empty"));
+    }
+
+    /** Prevents the sender from sending; a value sent before is still received. */
+    close(): void {
+        this.state.receiverClosed = true;
+        this.state.waiters.splice(0).forEach((wake) => wake());
+    }
+
+    then<A = Result<T, RecvError>, B = never>(
+        onfulfilled?: ((result: Result<T, RecvError>) => A | PromiseLike<A>) | null,
+        onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null
+    ): Promise<A | B> {
+        return this.recv().then(onfulfilled, onrejected);
+    }
+}
+
+/** Creates a channel for sending a single value, like tokio's `oneshot::channel`. */
+export function oneshot<T>(): [OneshotSender<T>, OneshotReceiver<T>] {
+    const state: OneshotState<T> = { value: Option.none(), senderDone: false, receiverClosed: false, waiters: [] };
+    return [new OneshotSender(state), new OneshotReceiver(state)];
+}
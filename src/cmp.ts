@@ -0,0 +1,138 @@
+import { Option } from "./types";
+
+/**
+ * The result of comparing two values, similar to Rust's `std::cmp::Ordering`.
+ * There are exactly three instances, so they can be compared with `===`.
+ */
+export class Ordering {
+    static readonly Less = new Ordering("Less", -1);
+    static readonly Equal = new Ordering("Equal", 0);
+    static readonly Greater = new Ordering("Greater", 1);
+
+    private constructor(readonly name: "Less" | "Equal" | "Greater", private readonly sign: -1 | 0 | 1) { }
+
+    /** The Ordering of a comparator-style number: negative is Less, zero is Equal, positive is Greater. */
+    static from(value: number): Ordering {
+        if (Number.isNaN(value)) throw new RangeError("Cannot convert NaN to an Ordering");
+        return value < 0 ? Ordering.Less : value > 0 ? Ordering.Greater : Ordering.Equal;
+    }
+
+    isLt(): boolean {
+        return this.sign < 0;
+    }
+
+    isLe(): boolean {
+        return this.sign <= 0;
+    }
+
+    isEq(): boolean {
+        return this.sign === 0;
+    }
+
+    isNe(): boolean {
+        return this.sign !== 0;
+    }
+
+    isGt(): boolean {
+        return this.sign > 0;
+    }
+
+    isGe(): boolean {
+        return this.sign >= 0;
+    }
+
+    /** Swaps Less and Greater. */
+    reverse(): Ordering {
+        return Ordering.from(-this.sign);
+    }
+
+    /** Chains comparisons: this Ordering unless it is Equal, then `other`. */
+    then(other: Ordering): Ordering {
+        return this.sign === 0 ? other : this;
+    }
+
+    /** Like `then`, but only computes the next comparison when needed. */
+    thenWith(fn: () => Ordering): Ordering {
+        return this.sign === 0 ? fn() : this;
+    }
+
+    /** The Ordering as -1, 0 or 1, for `Array.prototype.sort`. */
+    toNumber(): -1 | 0 | 1 {
+        return this.sign;
+    }
+
+    debug(): string {
+        return this.name;
+    }
+
+    toString(): string {
+        return this.name;
+    }
+
+    toJSON(): string {
+        return this.name;
+    }
+}
+
+/**
+ * Compares two values if they can be ordered, like Rust's `PartialOrd::partial_cmp`.
+ * Numbers, bigints, strings, booleans and Dates compare naturally (NaN is unordered), arrays
+ * lexicographically, and values with a `partialCmp` or `cmp` method (Option, Result, classes
+ * deriving PartialOrd) delegate to it. Anything else is unordered (None) unless equal by identity.
+ */
+export function partialCompare(a: unknown, b: unknown): Option<Ordering> {
+    if (a === b) return Option.some(Ordering.Equal);
+    const numeric = (value: unknown) => typeof value === "number" || typeof value === "bigint";
+    if ((numeric(a) && numeric(b)) || (typeof a === "string" && typeof b === "string") ||
+        (typeof a === "boolean" && typeof b === "boolean")) {
+        if ((a as any) < (b as any)) return Option.some(Ordering.Less);
+        if ((a as any) > (b as any)) return Option.some(Ordering.Greater);
+        return (a as any) == (b as any) ? Option.some(Ordering.Equal) : Option.none();
+    }
+    if (a instanceof Date && b instanceof Date) return partialCompare(a.getTime(), b.getTime());
+    if (Array.isArray(a) && Array.isArray(b)) {
+        for (let i = 0; i < Math.min(a.length, b.length); i++) {
+            const ordering = partialCompare(a[i], b[i]);
+            if (!ordering.isSome() || ordering.value !== Ordering.Equal) return ordering;
+        }
+        return Option.some(Ordering.from(a.length - b.length));
+    }
+    if (a !== null && typeof a === "object") {
+        if (typeof (a as any).partialCmp === "function") return (a as any).partialCmp(b);
+        if (typeof (a as any).cmp === "function") return Option.some((a as any).cmp(b));
+    }
+    return Option.none();
+}
+
+/**
+ * Compares two values that must be ordered, like Rust's `Ord::cmp`; see `partialCompare`.
+ * @throws TypeError if the values cannot be ordered (e.g. NaN, or unrelated objects).
+ */
+export function compare(a: unknown, b: unknown): Ordering {
+    const ordering = partialCompare(a, b);
+    if (!ordering.isSome()) throw new TypeError(`Cannot order ${describe(a)} and ${describe(b)}`);
+    return ordering.value;
+}
+
+function describe(value: unknown): string {
+    if (value === null || typeof value !== "object") return typeof value === "number" ? `${value}` : typeof value;
+    return value.constructor?.name ?? "object";
+}
+
+/**
+ * Sorts an array in place with a comparator returning an Ordering, like Rust's `slice::sort_by`.
+ * The sort is stable.
+ * @returns The same array, sorted.
+ */
+export function sortBy<T>(array: T[], compareFn: (a: T, b: T) => Ordering): T[] {
+    return array.sort((a, b) => compareFn(a, b).toNumber());
+}
+
+/**
+ * Sorts an array in place by a key extracted from each element, compared with `compare`,
+ * like Rust's `slice::sort_by_key`. The sort is stable.
+ * @returns The same array, sorted.
+ */
+export function sortByKey<T, K>(array: T[], key: (item: T) => K): T[] {
+    return array.sort((a, b) => compare(key(a), key(b)).toNumber());
+}
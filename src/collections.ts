@@ -0,0 +1,697 @@
+import { Option, Result } from "./types";
+import { compare, Ordering, sortBy } from "./cmp";
+import { Iter } from "./iter";
+import { structuralEquals } from "./utils";
+
+// Keys compared by value rather than by reference, such as classes deriving PartialEq and Hash.
+interface HashKey {
+    hashCode(): number;
+    eq(other: unknown): boolean;
+}
+
+function isHashKey(key: unknown): key is HashKey {
+    return key !== null && typeof key === "object" &&
+        typeof (key as any).hashCode === "function" && typeof (key as any).eq === "function";
+}
+
+/**
+ * A map similar to Rust's `HashMap<K, V>`. Keys with `hashCode()` and `eq()` (e.g. classes deriving
+ * PartialEq and Hash) are compared by value; other keys use `Map` semantics, i.e. primitives by
+ * value and objects by reference. Iteration follows insertion order.
+ */
+export class HashMap<K, V> implements Iterable<[K, V]> {
+    // Entries by slot: the first stored key equal to a hashable key, or the key itself.
+    private readonly entries = new Map<unknown, [K, V]>();
+    // Stored hashable keys by hash code, to find the slot of an equal key.
+    private readonly buckets = new Map<number, K[]>();
+
+    constructor(entries: Iterable<readonly [K, V]> = []) {
+        for (const [key, value] of entries) this.insert(key, value);
+    }
+
+    static from<K, V>(entries: Iterable<readonly [K, V]>): HashMap<K, V> {
+        return new HashMap(entries);
+    }
+
+    private slot(key: K): unknown {
+        if (!isHashKey(key)) return key;
+        return this.buckets.get(key.hashCode())?.find((stored) => key.eq(stored)) ?? key;
+    }
+
+    len(): number {
+        return this.entries.size;
+    }
+
+    isEmpty(): boolean {
+        return this.entries.size === 0;
+    }
+
+    /**
+     * Inserts a value, returning the value it replaced, if any. An existing equal key is kept.
+     */
+    insert(key: K, value: V): Option<V> {
+        const slot = this.slot(key);
+        const entry = this.entries.get(slot);
+        if (entry) {
+            const previous = entry[1];
+            entry[1] = value;
+            return Option.some(previous);
+        }
+        this.entries.set(slot, [key, value]);
+        if (isHashKey(key)) {
+            const hash = key.hashCode();
+            this.buckets.set(hash, [...(this.buckets.get(hash) ?? []), key]);
+        }
+        return Option.none();
+    }
+
+    get(key: K): Option<V> {
+        const entry = this.entries.get(this.slot(key));
+        return entry ? Option.some(entry[1]) : Option.none();
+    }
+
+    /** The stored key equal to `key` together with its value. */
+    getKeyValue(key: K): Option<[K, V]> {
+        const entry = this.entries.get(this.slot(key));
+        return entry ? Option.some([entry[0], entry[1]]) : Option.none();
+    }
+
+    containsKey(key: K): boolean {
+        return this.entries.has(this.slot(key));
+    }
+
+    /** Removes a key, returning its value if it was present. */
+    remove(key: K): Option<V> {
+        const slot = this.slot(key);
+        const entry = this.entries.get(slot);
+        if (!entry) return Option.none();
+        this.entries.delete(slot);
+        const stored = entry[0];
+        if (isHashKey(stored)) {
+            const hash = stored.hashCode();
+            const bucket = this.buckets.get(hash)!.filter((other) => other !== stored);
+            if (bucket.length > 0) this.buckets.set(hash, bucket);
+            else this.buckets.delete(hash);
+        }
+        return Option.some(entry[1]);
+    }
+
+    clear(): void {
+        this.entries.clear();
+        this.buckets.clear();
+    }
+
+    /** The entry for a key, to insert or update its value in place. */
+    entry(key: K): Entry<K, V> {
+        return new Entry(this, key);
+    }
+
+    /** Keeps only the entries accepted by `fn`. */
+    retain(fn: (key: K, value: V) => boolean): void {
+        for (const [key, value] of Array.from(this.entries.values())) {
+            if (!fn(key, value)) this.remove(key);
+        }
+    }
+
+    keys(): Iter<K> {
+        return new Iter(this.entries.values()).map(([key]) => key);
+    }
+
+    values(): Iter<V> {
+        return new Iter(this.entries.values()).map(([, value]) => value);
+    }
+
+    iter(): Iter<[K, V]> {
+        return new Iter(this.entries.values()).map(([key, value]): [K, V] => [key, value]);
+    }
+
+    [Symbol.iterator](): Iterator<[K, V]> {
+        return this.iter()[Symbol.iterator]();
+    }
+
+    /**
+     * Compares two HashMaps: same keys, with structurally equal values.
+     */
+    equals(other: unknown): boolean {
+        if (!(other instanceof HashMap) || other.len() !== this.len()) return false;
+        return this.iter().find(([key, value]) =>
+            other.get(key).ifSome((otherValue) => !structuralEquals(value, otherValue), () => true)
+        ).isNone();
+    }
+
+    /** Encodes the map as its `[key, value]` entries. */
+    toJSON(): [K, V][] {
+        return this.iter().collect();
+    }
+}
+
+/**
+ * A key's place in a `HashMap`, returned by `entry(key)`, like Rust's `Entry`.
+ */
+export class Entry<K, V> {
+    constructor(private readonly map: HashMap<K, V>, private readonly entryKey: K) { }
+
+    key(): K {
+        return this.entryKey;
+    }
+
+    /** The key's value, after inserting `value` if the key was vacant. */
+    orInsert(value: V): V {
+        return this.orInsertWith(() => value);
+    }
+
+    /** The key's value, after inserting the result of `fn` if the key was vacant. */
+    orInsertWith(fn: () => V): V {
+        const existing = this.map.get(this.entryKey);
+        if (existing.isSome()) return existing.value;
+        const value = fn();
+        this.map.insert(this.entryKey, value);
+        return value;
+    }
+
+    /** Replaces the key's value with `fn(value)` if the key is occupied. */
+    andModify(fn: (value: V) => V): Entry<K, V> {
+        this.map.get(this.entryKey).ifSome((value) => this.map.insert(this.entryKey, fn(value)));
+        return this;
+    }
+}
+
+/**
+ * A set similar to Rust's `HashSet<T>`, comparing values like `HashMap` compares keys.
+ * Iteration follows insertion order.
+ */
+export class HashSet<T> implements Iterable<T> {
+    private readonly map = new HashMap<T, undefined>();
+
+    constructor(values: Iterable<T> = []) {
+        for (const value of values) this.insert(value);
+    }
+
+    static from<T>(values: Iterable<T>): HashSet<T> {
+        return new HashSet(values);
+    }
+
+    len(): number {
+        return this.map.len();
+    }
+
+    isEmpty(): boolean {
+        return this.map.isEmpty();
+    }
+
+    /** Adds a value, returning whether it was newly inserted. An existing equal value is kept. */
+    insert(value: T): boolean {
+        return this.map.insert(value, undefined).isNone();
+    }
+
+    contains(value: T): boolean {
+        return this.map.containsKey(value);
+    }
+
+    /** The stored value equal to `value`. */
+    get(value: T): Option<T> {
+        return this.map.getKeyValue(value).map(([stored]) => stored);
+    }
+
+    /** Removes a value, returning whether it was present. */
+    remove(value: T): boolean {
+        return this.map.remove(value).isSome();
+    }
+
+    /** Removes and returns the stored value equal to `value`. */
+    take(value: T): Option<T> {
+        const stored = this.get(value);
+        stored.ifSome((item) => this.map.remove(item));
+        return stored;
+    }
+
+    clear(): void {
+        this.map.clear();
+    }
+
+    /** Keeps only the values accepted by `fn`. */
+    retain(fn: (value: T) => boolean): void {
+        this.map.retain((value) => fn(value));
+    }
+
+    iter(): Iter<T> {
+        return this.map.keys();
+    }
+
+    [Symbol.iterator](): Iterator<T> {
+        return this.iter()[Symbol.iterator]();
+    }
+
+    /** The values in this set or `other`, this set's first. */
+    union(other: HashSet<T>): Iter<T> {
+        return this.iter().chain(other.difference(this));
+    }
+
+    /** The values in both sets. */
+    intersection(other: HashSet<T>): Iter<T> {
+        return this.iter().filter((value) => other.contains(value));
+    }
+
+    /** The values in this set but not in `other`. */
+    difference(other: HashSet<T>): Iter<T> {
+        return this.iter().filter((value) => !other.contains(value));
+    }
+
+    /** The values in exactly one of the sets. */
+    symmetricDifference(other: HashSet<T>): Iter<T> {
+        return this.difference(other).chain(other.difference(this));
+    }
+
+    isSubset(other: HashSet<T>): boolean {
+        return this.difference(other).next().isNone();
+    }
+
+    isSuperset(other: HashSet<T>): boolean {
+        return other.isSubset(this);
+    }
+
+    isDisjoint(other: HashSet<T>): boolean {
+        return this.intersection(other).next().isNone();
+    }
+
+    /**
+     * Compares two HashSets: same size, and every value of one contained in the other.
+     */
+    equals(other: unknown): boolean {
+        return other instanceof HashSet && other.len() === this.len() && this.isSubset(other);
+    }
+
+    /** Encodes the set as an array. */
+    toJSON(): T[] {
+        return this.iter().collect();
+    }
+}
+
+// Throws like Rust's index panics; `allowEnd` accepts `length` itself, as insertion positions do.
+function checkIndex(what: string, index: number, length: number, allowEnd: boolean): void {
+    if (!Number.isInteger(index) || index < 0 || index > length || (!allowEnd && index === length)) {
+        throw new RangeError(`${what} index (is ${index}) should be ${allowEnd ? "<=" : "<"} len (is ${length})`);
+    }
+}
+
+function checkRange(start: number, end: number, length: number): void {
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || start > end || end > length) {
+        throw new RangeError(`range ${start}..${end} out of bounds for length ${length}`);
+    }
+}
+
+/**
+ * A growable array similar to Rust's `Vec<T>`: accessors return Option instead of `undefined`,
+ * and out-of-bounds positional updates throw a RangeError like Rust's panics.
+ */
+export class Vec<T> implements Iterable<T> {
+    private items: T[];
+
+    constructor(items: Iterable<T> = []) {
+        this.items = Array.from(items);
+    }
+
+    static from<T>(items: Iterable<T>): Vec<T> {
+        return new Vec(items);
+    }
+
+    len(): number {
+        return this.items.length;
+    }
+
+    isEmpty(): boolean {
+        return this.items.length === 0;
+    }
+
+    get(index: number): Option<T> {
+        return Number.isInteger(index) && index >= 0 && index < this.items.length
+            ? Option.some(this.items[index])
+            : Option.none();
+    }
+
+    first(): Option<T> {
+        return this.get(0);
+    }
+
+    last(): Option<T> {
+        return this.get(this.items.length - 1);
+    }
+
+    /** Replaces the element at `index`, returning the previous one, or None (and no change) if out of bounds. */
+    set(index: number, value: T): Option<T> {
+        const previous = this.get(index);
+        if (previous.isSome()) this.items[index] = value;
+        return previous;
+    }
+
+    push(value: T): void {
+        this.items.push(value);
+    }
+
+    pop(): Option<T> {
+        return this.items.length > 0 ? Option.some(this.items.pop()!) : Option.none();
+    }
+
+    /** Inserts at `index`, shifting later elements; throws a RangeError if `index > len()`. */
+    insert(index: number, value: T): void {
+        checkIndex("insertion", index, this.items.length, true);
+        this.items.splice(index, 0, value);
+    }
+
+    /** Removes and returns the element at `index`, shifting later elements; throws a RangeError if out of bounds. */
+    remove(index: number): T {
+        checkIndex("removal", index, this.items.length, false);
+        return this.items.splice(index, 1)[0];
+    }
+
+    /** Removes the element at `index` in O(1) by moving the last element into its place; throws a RangeError if out of bounds. */
+    swapRemove(index: number): T {
+        checkIndex("swapRemove", index, this.items.length, false);
+        const removed = this.items[index];
+        this.items[index] = this.items[this.items.length - 1];
+        this.items.pop();
+        return removed;
+    }
+
+    extend(values: Iterable<T>): void {
+        for (const value of values) this.items.push(value);
+    }
+
+    /** Shortens the vector to `length` elements; does nothing if it is already shorter. */
+    truncate(length: number): void {
+        if (length < this.items.length) this.items.length = length;
+    }
+
+    clear(): void {
+        this.items = [];
+    }
+
+    contains(value: T): boolean {
+        return this.items.some((item) => structuralEquals(item, value));
+    }
+
+    /** Keeps only the elements accepted by `fn`, in order. */
+    retain(fn: (value: T) => boolean): void {
+        this.items = this.items.filter(fn);
+    }
+
+    /** Removes consecutive structurally equal elements, keeping the first of each run. */
+    dedup(): void {
+        this.dedupBy(structuralEquals);
+    }
+
+    /** Removes consecutive elements that `same(element, previous kept element)` considers duplicates. */
+    dedupBy(same: (a: T, b: T) => boolean): void {
+        this.items = this.items.filter((item, i, items) => i === 0 || !same(item, items[i - 1]));
+    }
+
+    /**
+     * Removes the elements from `start` up to (not including) `end` and returns them as an iterator.
+     * Throws a RangeError if `start > end` or `end > len()`.
+     */
+    drain(start: number = 0, end: number = this.items.length): Iter<T> {
+        checkRange(start, end, this.items.length);
+        return new Iter(this.items.splice(start, end - start));
+    }
+
+    /** Copies the elements before and from `mid` into two new vectors; throws a RangeError if `mid > len()`. */
+    splitAt(mid: number): [Vec<T>, Vec<T>] {
+        checkRange(0, mid, this.items.length);
+        return [new Vec(this.items.slice(0, mid)), new Vec(this.items.slice(mid))];
+    }
+
+    /** Sorts in place with `compare`; the sort is stable. */
+    sort(): void {
+        this.sortBy(compare);
+    }
+
+    /** Sorts in place with a comparator returning an Ordering; the sort is stable. */
+    sortBy(compareFn: (a: T, b: T) => Ordering): void {
+        sortBy(this.items, compareFn);
+    }
+
+    /** Sorts in place with a comparator returning an Ordering, without guaranteeing the order of equal elements. */
+    sortUnstableBy(compareFn: (a: T, b: T) => Ordering): void {
+        this.items.sort((a, b) => compareFn(a, b).toNumber());
+    }
+
+    /**
+     * Searches a sorted vector for `value` (compared with `compare`): Ok with its index if found,
+     * otherwise Err with the index where it could be inserted to keep the order.
+     */
+    binarySearch(value: T): Result<number, number> {
+        return this.binarySearchBy((item) => compare(item, value));
+    }
+
+    /** Like `binarySearch`, with `fn` comparing each probed element to the target. */
+    binarySearchBy(fn: (item: T) => Ordering): Result<number, number> {
+        let low = 0;
+        let high = this.items.length;
+        while (low < high) {
+            const mid = (low + high) >>> 1;
+            const ordering = fn(this.items[mid]);
+            if (ordering === Ordering.Equal) return Result.ok(mid);
+            if (ordering === Ordering.Less) low = mid + 1;
+            else high = mid;
+        }
+        return Result.err(low);
+    }
+
+    iter(): Iter<T> {
+        return new Iter(this.items);
+    }
+
+    [Symbol.iterator](): Iterator<T> {
+        return this.items[Symbol.iterator]();
+    }
+
+    /** A copy of the elements as an array. */
+    toArray(): T[] {
+        return [...this.items];
+    }
+
+    /**
+     * Compares two Vecs element by element, structurally.
+     */
+    equals(other: unknown): boolean {
+        return other instanceof Vec && structuralEquals(this.items, other.items);
+    }
+
+    toJSON(): T[] {
+        return this.toArray();
+    }
+}
+
+/**
+ * A double-ended queue similar to Rust's `VecDeque<T>`, backed by a growable ring buffer
+ * so pushing and popping at either end is O(1).
+ */
+export class VecDeque<T> implements Iterable<T> {
+    private buffer: (T | undefined)[] = new Array(8);
+    private head = 0;
+    private length = 0;
+
+    constructor(items: Iterable<T> = []) {
+        for (const item of items) this.pushBack(item);
+    }
+
+    static from<T>(items: Iterable<T>): VecDeque<T> {
+        return new VecDeque(items);
+    }
+
+    private physical(index: number): number {
+        return (this.head + index) % this.buffer.length;
+    }
+
+    private grow(): void {
+        if (this.length < this.buffer.length) return;
+        const items = this.toArray();
+        this.buffer = new Array(this.buffer.length * 2);
+        items.forEach((item, i) => (this.buffer[i] = item));
+        this.head = 0;
+    }
+
+    len(): number {
+        return this.length;
+    }
+
+    isEmpty(): boolean {
+        return this.length === 0;
+    }
+
+    pushBack(value: T): void {
+        this.grow();
+        this.buffer[this.physical(this.length)] = value;
+        this.length++;
+    }
+
+    pushFront(value: T): void {
+        this.grow();
+        this.head = (this.head - 1 + this.buffer.length) % this.buffer.length;
+        this.buffer[this.head] = value;
+        this.length++;
+    }
+
+    popBack(): Option<T> {
+        if (this.length === 0) return Option.none();
+        const index = this.physical(this.length - 1);
+        const value = this.buffer[index] as T;
+        this.buffer[index] = undefined;
+        this.length--;
+        return Option.some(value);
+    }
+
+    popFront(): Option<T> {
+        if (this.length === 0) return Option.none();
+        const value = this.buffer[this.head] as T;
+        this.buffer[this.head] = undefined;
+        this.head = this.physical(1);
+        this.length--;
+        return Option.some(value);
+    }
+
+    get(index: number): Option<T> {
+        return Number.isInteger(index) && index >= 0 && index < this.length
+            ? Option.some(this.buffer[this.physical(index)] as T)
+            : Option.none();
+    }
+
+    front(): Option<T> {
+        return this.get(0);
+    }
+
+    back(): Option<T> {
+        return this.get(this.length - 1);
+    }
+
+    clear(): void {
+        this.buffer = new Array(8);
+        this.head = 0;
+        this.length = 0;
+    }
+
+    iter(): Iter<T> {
+        const deque = this;
+        return new Iter((function* () {
+            for (let i = 0; i < deque.length; i++) yield deque.buffer[deque.physical(i)] as T;
+        })());
+    }
+
+    [Symbol.iterator](): Iterator<T> {
+        return this.iter()[Symbol.iterator]();
+    }
+
+    /** A copy of the elements, front to back, as an array. */
+    toArray(): T[] {
+        return this.iter().collect();
+    }
+
+    /**
+     * Compares two VecDeques element by element, structurally.
+     */
+    equals(other: unknown): boolean {
+        return other instanceof VecDeque && structuralEquals(this.toArray(), other.toArray());
+    }
+
+    toJSON(): T[] {
+        return this.toArray();
+    }
+}
+
+/**
+ * A priority queue similar to Rust's `BinaryHeap<T>`: `pop` returns the greatest element according
+ * to the comparator (`compare` by default); pass a reversed comparator for a min-heap.
+ */
+export class BinaryHeap<T> implements Iterable<T> {
+    private readonly items: T[] = [];
+
+    constructor(
+        private readonly compareFn: (a: T, b: T) => Ordering = compare,
+        items: Iterable<T> = []
+    ) {
+        for (const item of items) this.push(item);
+    }
+
+    static from<T>(items: Iterable<T>, compareFn: (a: T, b: T) => Ordering = compare): BinaryHeap<T> {
+        return new BinaryHeap(compareFn, items);
+    }
+
+    private greater(i: number, j: number): boolean {
+        return this.compareFn(this.items[i], this.items[j]) === Ordering.Greater;
+    }
+
+    private swap(i: number, j: number): void {
+        [this.items[i], this.items[j]] = [this.items[j], this.items[i]];
+    }
+
+    len(): number {
+        return this.items.length;
+    }
+
+    isEmpty(): boolean {
+        return this.items.length === 0;
+    }
+
+    push(value: T): void {
+        this.items.push(value);
+        let i = this.items.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >>> 1;
+            if (!this.greater(i, parent)) break;
+            this.swap(i, parent);
+            i = parent;
+        }
+    }
+
+    /** Removes and returns the greatest element. */
+    pop(): Option<T> {
+        if (this.items.length === 0) return Option.none();
+        const top = this.items[0];
+        const last = this.items.pop()!;
+        if (this.items.length > 0) {
+            this.items[0] = last;
+            let i = 0;
+            for (;;) {
+                const left = 2 * i + 1;
+                const right = left + 1;
+                let largest = i;
+                if (left < this.items.length && this.greater(left, largest)) largest = left;
+                if (right < this.items.length && this.greater(right, largest)) largest = right;
+                if (largest === i) break;
+                this.swap(i, largest);
+                i = largest;
+            }
+        }
+        return Option.some(top);
+    }
+
+    /** The greatest element, without removing it. */
+    peek(): Option<T> {
+        return this.items.length > 0 ? Option.some(this.items[0]) : Option.none();
+    }
+
+    clear(): void {
+        this.items.length = 0;
+    }
+
+    /** The elements in ascending order. */
+    intoSortedVec(): Vec<T> {
+        const sorted = new Vec(this.items);
+        sorted.sortBy(this.compareFn);
+        return sorted;
+    }
+
+    /** Iterates over the elements in no particular order. */
+    iter(): Iter<T> {
+        return new Iter(this.items);
+    }
+
+    [Symbol.iterator](): Iterator<T> {
+        return this.items[Symbol.iterator]();
+    }
+
+    /** Encodes the heap as an array, in no particular order. */
+    toJSON(): T[] {
+        return [...this.items];
+    }
+}
@@ -1,86 +1,250 @@
 import "reflect-metadata";
 
 /**
- * Interface for plugins to define features and their behavior, including type definitions.
+ * Interface for plugins to define features and their behavior.
+ * The methods a feature adds are typed through `DeriveFeatures` (see below).
  */
 export interface DerivePlugin {
     feature: string;
+    /** Features that must be derived alongside this one, e.g. Eq requires PartialEq. */
+    requires?: readonly string[];
+    /** Features that cannot be derived together with this one. */
+    conflicts?: readonly string[];
     extendPrototype?: (prototype: any) => void;
     extendConstructor?: (constructor: any) => void;
     initializeInstance?: (instance: any) => void;
-    instanceType?: object; // Type for instance methods/properties
-    constructorType?: object; // Type for static methods/properties
+    /** @deprecated Declare the feature's types in `DeriveFeatures` instead. */
+    instanceType?: object;
+    /** @deprecated Declare the feature's types in `DeriveFeatures` instead. */
+    constructorType?: object;
 }
 
+/**
+ * The instance and static members each feature adds, keyed by feature name.
+ * Plugins declare theirs with module augmentation:
+ *
+ *     declare module "tsrustacean" {
+ *         interface DeriveFeatures {
+ *             Loggable: { instance: { log(): string }; static: {} };
+ *         }
+ *     }
+ *
+ * Static methods that return an instance should be typed with a `this` parameter,
+ * e.g. `create<T>(this: new (...args: any[]) => T): T`.
+ */
+export interface DeriveFeatures { }
+
 /**
  * Base interface for classes that use @derive.
  */
 export interface Derivable { }
 
-// Registry to store available plugins
-const pluginRegistry: Record<string, DerivePlugin> = {};
+type FeatureMember<F, Part extends "instance" | "static"> =
+    F extends keyof DeriveFeatures
+    ? DeriveFeatures[F] extends { [P in Part]: infer M } ? M : {}
+    : {};
+
+type Members<F extends readonly string[], Part extends "instance" | "static"> =
+    F extends readonly [infer Head, ...infer Rest extends readonly string[]]
+    ? FeatureMember<Head, Part> & Members<Rest, Part>
+    : {};
+
+/**
+ * The instance members added by a list of features, e.g. `Derived<["Serialize", "Clone"]>`.
+ * Merge it into a decorated class with `interface User extends Derived<typeof features> { }`.
+ */
+export type Derived<F extends readonly string[]> = Members<F, "instance">;
+
+/** The static members added by a list of features. */
+export type DerivedStatic<F extends readonly string[]> = Members<F, "static">;
+
+/** The class returned by `derive(features)(constructor)`. */
+export type DerivedClass<F extends readonly string[], C extends new (...args: any[]) => any> =
+    C & DerivedStatic<F> & (new (...args: ConstructorParameters<C>) => InstanceType<C> & Derived<F>);
+
+/**
+ * Error thrown when a class derives an unknown feature (in strict mode), misses a required feature
+ * or combines conflicting ones.
+ */
+export class DeriveError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "DeriveError";
+    }
+}
+
+/** Options for `createDeriveRegistry`. */
+export interface DeriveRegistryOptions {
+    /** Throw a `DeriveError` for unknown features instead of warning. */
+    strict?: boolean;
+    /** Start with a copy of another registry's plugins; later changes to either stay separate. */
+    extend?: DeriveRegistry;
+}
+
+/**
+ * A set of derive plugins with its own `derive` decorator.
+ */
+export interface DeriveRegistry {
+    readonly strict: boolean;
+    /** Registers a plugin, replacing any plugin for the same feature. */
+    register(plugin: DerivePlugin): void;
+    /** Removes the plugin for a feature; returns whether one was registered. */
+    unregister(feature: string): boolean;
+    has(feature: string): boolean;
+    get(feature: string): DerivePlugin | undefined;
+    /** The registered feature names, in registration order. */
+    features(): string[];
+    /** Decorator (or function) deriving features for a class with this registry's plugins. */
+    derive<const F extends readonly string[]>(
+        features: F
+    ): <C extends new (...args: any[]) => any>(constructor: C) => DerivedClass<F, C>;
+}
+
+// Static key holding the features a derived class was created with
+const DERIVED_FEATURES = Symbol("derived_features");
+
+/**
+ * Resolves features to plugins in a deterministic order: each plugin after the ones it requires,
+ * otherwise in the order the features were listed.
+ */
+function resolvePlugins(registry: DeriveRegistry, features: readonly string[], className: string): DerivePlugin[] {
+    const listed = new Set(features);
+    const ordered: DerivePlugin[] = [];
+    const visiting = new Set<string>();
+    const done = new Set<string>();
+
+    const visit = (feature: string) => {
+        if (done.has(feature)) return;
+        if (visiting.has(feature)) throw new DeriveError(`Circular requirement between derive features at ${feature}`);
+        const plugin = registry.get(feature);
+        if (!plugin) {
+            if (registry.strict) throw new DeriveError(`No plugin registered for feature: ${feature}`);
+            console.warn(`No plugin registered for feature: ${feature}`);
+            done.add(feature);
+            return;
+        }
+        visiting.add(feature);
+        for (const required of plugin.requires ?? []) {
+            if (!listed.has(required)) {
+                throw new DeriveError(`${className} derives ${feature}, which requires ${required}`);
+            }
+            visit(required);
+        }
+        for (const conflict of plugin.conflicts ?? []) {
+            if (listed.has(conflict)) {
+                throw new DeriveError(`${className} derives ${feature}, which conflicts with ${conflict}`);
+            }
+        }
+        visiting.delete(feature);
+        done.add(feature);
+        ordered.push(plugin);
+    };
+
+    features.forEach(visit);
+    return ordered;
+}
+
+/**
+ * Creates an isolated plugin registry with its own `derive` decorator.
+ * @param options `strict` to throw on unknown features, `extend` to start from another registry's plugins.
+ * @returns The registry.
+ */
+export function createDeriveRegistry(options: DeriveRegistryOptions = {}): DeriveRegistry {
+    const plugins = new Map<string, DerivePlugin>();
+    for (const feature of options.extend?.features() ?? []) plugins.set(feature, options.extend!.get(feature)!);
+
+    const registry: DeriveRegistry = {
+        strict: options.strict ?? false,
+        register(plugin) {
+            plugins.set(plugin.feature, plugin);
+        },
+        unregister(feature) {
+            return plugins.delete(feature);
+        },
+        has(feature) {
+            return plugins.has(feature);
+        },
+        get(feature) {
+            return plugins.get(feature);
+        },
+        features() {
+            return Array.from(plugins.keys());
+        },
+        derive<const F extends readonly string[]>(features: F) {
+            return function <C extends new (...args: any[]) => any>(constructor: C): DerivedClass<F, C> {
+                // Resolved once, so later registry changes don't affect classes already derived.
+                const resolved = resolvePlugins(registry, features, constructor.name);
+                const DerivedClass = class extends constructor {
+                    constructor(...args: any[]) {
+                        super(...args);
+                        for (const plugin of resolved) {
+                            plugin.initializeInstance?.(this);
+                        }
+                    }
+                };
+                // Keep the original class name for logging and error messages
+                Object.defineProperty(DerivedClass, "name", { value: constructor.name });
+                Object.defineProperty(DerivedClass, DERIVED_FEATURES, { value: features });
+
+                for (const plugin of resolved) {
+                    plugin.extendPrototype?.(DerivedClass.prototype);
+                    plugin.extendConstructor?.(DerivedClass);
+                }
+                return DerivedClass as unknown as DerivedClass<F, C>;
+            };
+        },
+    };
+    return registry;
+}
+
+/** The registry used by `derive` and `registerPlugin`, holding the built-in plugins. */
+export const defaultRegistry = createDeriveRegistry();
 
 /**
- * Registers a plugin with the derive system.
+ * Registers a plugin with the default registry.
  * @param plugin The plugin to register.
  */
 export function registerPlugin(plugin: DerivePlugin) {
-    pluginRegistry[plugin.feature] = plugin;
+    defaultRegistry.register(plugin);
 }
 
 /**
- * Type utility to extract instance and constructor types from plugins dynamically.
+ * Removes a plugin from the default registry.
+ * @param feature The feature the plugin provides.
+ * @returns Whether a plugin was registered for the feature.
  */
-type DerivedTypes<TFeatures extends readonly string[]> = {
-    [F in TFeatures[number]]: F extends keyof typeof pluginRegistry
-    ? Pick<
-        typeof pluginRegistry[F],
-        "instanceType" | "constructorType"
-    > extends infer P
-    ? {
-        [K in keyof P]: P[K] extends object ? P[K] : {};
-    }[keyof P]
-    : {}
-    : {};
-}[TFeatures[number]];
+export function unregisterPlugin(feature: string): boolean {
+    return defaultRegistry.unregister(feature);
+}
 
 /**
  * Decorator to derive features for a class by applying registered plugins.
+ * Called as a function, `derive(features)(constructor)` returns the class with the features' types.
  * @param features List of features to derive (e.g., ["Serialize", "Deserialize"]).
  */
-export function derive<const TFeatures extends readonly string[]>(
-    features: TFeatures // Change from ...features to features
-) {
-    return function <T extends { new(...args: any[]): any }>(constructor: T) {
-        const DerivedClass = class extends constructor {
-            constructor(...args: any[]) {
-                super(...args);
-                for (const feature of features) { // Loop through features array
-                    const plugin = pluginRegistry[feature];
-                    if (plugin?.initializeInstance) {
-                        plugin.initializeInstance(this);
-                    }
-                }
-            }
-        };
+export function derive<const F extends readonly string[]>(features: F) {
+    return defaultRegistry.derive(features);
+}
 
-        for (const feature of features) { // Loop through features array
-            const plugin = pluginRegistry[feature];
-            if (!plugin) {
-                console.warn(`No plugin registered for feature: ${feature}`);
-                continue;
-            }
-            if (plugin.extendPrototype) {
-                plugin.extendPrototype(DerivedClass.prototype);
-            }
-            if (plugin.extendConstructor) {
-                plugin.extendConstructor(DerivedClass);
+/**
+ * A typed base class for decorated classes, so they see the derived members without casts:
+ *
+ *     const features = [Serialize, Deserialize] as const;
+ *     @derive(features)
+ *     class User extends Derives(features) { ... }
+ *
+ * It adds no behavior itself and throws if the subclass is not decorated with `@derive`.
+ * @param features The features the subclass derives.
+ */
+export function Derives<const F extends readonly string[]>(features: F) {
+    const Base = class {
+        constructor() {
+            const derived: readonly string[] | undefined = (new.target as any)[DERIVED_FEATURES];
+            const missing = features.filter((feature) => !derived?.includes(feature));
+            if (missing.length > 0) {
+                throw new DeriveError(`${new.target.name} extends Derives(...) but does not derive ${missing.join(", ")}`);
             }
         }
-
-        // Dynamically apply types from all registered plugins
-        return DerivedClass as unknown as typeof DerivedClass &
-            T &
-            DerivedTypes<TFeatures>;
     };
-}
\ No newline at end of file
+    return Base as unknown as DerivedStatic<F> & (new () => Derived<F>);
+}
@@ -0,0 +1,114 @@
+import { formatPayload, structuralEquals } from "./utils";
+
+/**
+ * Variant definitions for `Enum`: a payload builder for data-carrying variants, or `null` for unit variants.
+ */
+export type VariantDefinitions = Record<string, ((...args: any[]) => any) | null>;
+
+type PayloadOf<D, K extends keyof D> = D[K] extends (...args: any[]) => infer P ? P : undefined;
+
+/**
+ * A value of an enum created with `Enum`, tagged with its variant name.
+ * Similar to a value of a Rust `enum`, e.g. `Shape::Circle { r }`.
+ */
+export class EnumVariant<K extends string = string, P = unknown> {
+    constructor(
+        readonly variant: K,
+        readonly payload: P,
+        private readonly owner: object
+    ) { }
+
+    /** Whether this value was created by the enum identified by `owner`. */
+    belongsTo(owner: object): boolean {
+        return this.owner === owner;
+    }
+
+    /**
+     * Compares two values structurally: same enum, same variant and structurally equal payloads.
+     */
+    equals(other: unknown): boolean {
+        return other instanceof EnumVariant &&
+            this.owner === other.owner &&
+            this.variant === other.variant &&
+            structuralEquals(this.payload, other.payload);
+    }
+
+    /** Formats the value as `Variant(<payload>)`, or just `Variant` for unit variants. */
+    toString(): string {
+        return this.payload === undefined ? this.variant : `${this.variant}(${formatPayload(this.payload)})`;
+    }
+
+    /** Encodes the value externally tagged, as `{ "Variant": payload }` or `"Variant"` for unit variants. */
+    toJSON(): { [key: string]: P } | K {
+        return this.payload === undefined ? this.variant : { [this.variant]: this.payload };
+    }
+}
+
+/** The union of every variant value of an enum definition. */
+export type EnumValue<D extends VariantDefinitions, K extends keyof D & string = keyof D & string> =
+    K extends unknown ? EnumVariant<K, PayloadOf<D, K>> : never;
+
+/**
+ * The object returned by `Enum`: one constructor per variant (a constant for unit variants),
+ * an `is<Variant>` guard per variant, and serde helpers.
+ */
+export type EnumType<D extends VariantDefinitions> = {
+    readonly [K in keyof D & string]: D[K] extends (...args: infer A) => any
+        ? (...args: A) => EnumValue<D>
+        : EnumValue<D>;
+} & {
+    readonly [K in keyof D & string as `is${K}`]: (value: unknown) => value is EnumValue<D, K>;
+} & {
+    readonly variants: readonly (keyof D & string)[];
+    /**
+     * Rebuilds a value from its externally tagged form, as produced by `toJSON`.
+     * Throws if the data does not name a variant of this enum.
+     */
+    deserialize(data: unknown): EnumValue<D>;
+};
+
+/** Extracts the value type of an enum, e.g. `type Shape = EnumValueOf<typeof Shape>`. */
+export type EnumValueOf<E> = E extends { deserialize(data: unknown): infer V } ? V : never;
+
+const RESERVED_NAMES = ["variants", "deserialize"];
+
+/**
+ * Creates an algebraic enum from its variant definitions.
+ * @param definitions A payload builder per data-carrying variant, or `null` for unit variants.
+ * @returns Typed variant constructors, `is<Variant>` guards and a `deserialize` helper.
+ */
+export function Enum<const D extends VariantDefinitions>(definitions: D): EnumType<D> {
+    const owner = {};
+    const result: Record<string, any> = {
+        variants: Object.keys(definitions),
+        deserialize: (data: unknown) => {
+            if (typeof data === "string" && hasVariant(data) && definitions[data] === null) {
+                return result[data];
+            }
+            if (data !== null && typeof data === "object" && !Array.isArray(data)) {
+                const keys = Object.keys(data);
+                if (keys.length === 1 && hasVariant(keys[0]) && definitions[keys[0]] !== null) {
+                    return new EnumVariant(keys[0], (data as any)[keys[0]], owner);
+                }
+            }
+            throw new Error(`No variant of enum matches ${JSON.stringify(data)}`);
+        },
+    };
+
+    function hasVariant(name: string): boolean {
+        return Object.prototype.hasOwnProperty.call(definitions, name);
+    }
+
+    for (const [name, build] of Object.entries(definitions)) {
+        if (RESERVED_NAMES.includes(name)) {
+            throw new Error(`Enum variant name is reserved: ${name}`);
+        }
+        result[name] = build === null
+            ? new EnumVariant(name, undefined, owner)
+            : (...args: any[]) => new EnumVariant(name, build(...args), owner);
+        result[`is${name}`] = (value: unknown) =>
+            value instanceof EnumVariant && value.variant === name && value.belongsTo(owner);
+    }
+
+    return result as EnumType<D>;
+}
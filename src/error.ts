@@ -0,0 +1,116 @@
+import { Iter } from "./iter";
+import { Option } from "./types";
+import { debugValue } from "./lib/fmt";
+
+/**
+ * The message of an error value: `message()` for classes deriving Error, `message` for JS errors,
+ * the string itself for strings and the Debug output for anything else.
+ */
+export function errorMessage(error: unknown): string {
+    if (typeof error === "string") return error;
+    const message = (error as any)?.message;
+    if (typeof message === "function") return String(message.call(error));
+    if (typeof message === "string") return message;
+    return debugValue(error);
+}
+
+/**
+ * The error that caused `error`: `source()` for AnyError and classes deriving Error, and the
+ * standard `cause` of other JS errors.
+ */
+export function errorSource(error: unknown): Option<unknown> {
+    if (error === null || typeof error !== "object") return Option.none();
+    const source = (error as any).source;
+    if (typeof source === "function") {
+        const result = source.call(error);
+        return result instanceof Option ? result : Option.fromNullable(result);
+    }
+    return error instanceof Error && error.cause !== undefined ? Option.some(error.cause) : Option.none();
+}
+
+/** Iterates over `error` and then each of its sources in turn, outermost first. */
+export function errorChain(error: unknown): Iter<unknown> {
+    return new Iter({
+        *[Symbol.iterator]() {
+            for (let current = error; ;) {
+                yield current;
+                const source = errorSource(current);
+                if (!source.isSome()) return;
+                current = source.value;
+            }
+        },
+    });
+}
+
+/**
+ * A type-erased error with a chain of sources, similar to Rust's `anyhow::Error`. Every context layer
+ * added with `context` (or `Result.context`) becomes the new head of the chain, and the stack trace is
+ * captured where the AnyError was created.
+ */
+export class AnyError extends Error {
+    // The error value this AnyError was created from by `AnyError.from`, kept for `downcast`.
+    private readonly wrapped?: unknown;
+
+    /**
+     * @param message The message of this layer.
+     * @param source The error that caused it, which continues the chain.
+     */
+    constructor(message: string, source?: unknown) {
+        super(message, source === undefined ? undefined : { cause: source });
+        this.name = "AnyError";
+    }
+
+    /** Converts any error value, keeping its source chain. AnyErrors are returned as they are. */
+    static from(error: unknown): AnyError {
+        if (error instanceof AnyError) return error;
+        const converted = new AnyError(errorMessage(error), errorSource(error).toNullable() ?? undefined);
+        Object.defineProperty(converted, "wrapped", { value: error });
+        if (error instanceof Error && error.stack) converted.stack = error.stack;
+        return converted;
+    }
+
+    /** Wraps this error in a new layer with `message`, like `anyhow::Context`. */
+    context(message: string): AnyError {
+        return new AnyError(message, this);
+    }
+
+    /** The error directly underneath this one. */
+    source(): Option<unknown> {
+        return this.cause === undefined ? Option.none() : Option.some(this.cause);
+    }
+
+    /** Iterates over this error and then each source in turn, outermost first. */
+    chain(): Iter<unknown> {
+        return errorChain(this);
+    }
+
+    /** The innermost error of the chain. */
+    rootCause(): unknown {
+        return this.chain().fold<unknown>(this, (_, error) => error);
+    }
+
+    /** The first error in the chain that is a `type`, looking through AnyErrors made by `from` to the value they wrap. */
+    downcast<E>(type: abstract new (...args: any[]) => E): Option<E> {
+        return this.chain()
+            .map((error) => (error instanceof AnyError && error.wrapped !== undefined ? error.wrapped : error))
+            .find((error) => error instanceof type) as Option<E>;
+    }
+
+    /** The stack trace captured when this error (or the error it was created from) was created. */
+    backtrace(): string {
+        return this.stack ?? "";
+    }
+
+    /** Every message of the chain joined with `": "`, like anyhow's `{:#}`. */
+    toString(): string {
+        return this.chain().map(errorMessage).collect().join(": ");
+    }
+
+    /** The message followed by a numbered `Caused by:` list, like anyhow's `{:?}`. */
+    debug(): string {
+        const causes = this.chain().skip(1).map(errorMessage).collect();
+        if (causes.length === 0) return this.message;
+        const lines = causes.map((message, i) => (causes.length === 1 ? `    ${message}` : `    ${i}: ${message}`));
+        return `${this.message}\n\nCaused by:\n${lines.join("\n")}`;
+    }
+}
@@ -1,5 +1,18 @@
 import "reflect-metadata";
 
 export * from "./types";
+export * from "./cmp";
+export * from "./async";
+export * from "./iter";
+export * from "./collections";
+export * from "./cell";
+export * from "./rc";
+export * from "./channel";
+export * from "./sync";
+export * from "./error";
+export * from "./panic";
+export * from "./enum";
 export * from "./derive";
-export * from "./match";
\ No newline at end of file
+export * from "./match";
+export * from "./pattern";
+export * from "./trait";
\ No newline at end of file
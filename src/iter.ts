@@ -0,0 +1,313 @@
+import { Option, Result } from "./types";
+import { HashMap, HashSet, Vec, VecDeque } from "./collections";
+
+/**
+ * A lazy, single-pass iterator over any JavaScript iterable, inspired by Rust's `Iterator` trait.
+ * Adapters such as `map` and `filter` build new iterators without consuming anything;
+ * consumers such as `fold`, `find` and `collect` drive the iteration.
+ */
+export class Iter<T> implements Iterable<T> {
+    private readonly iterator: Iterator<T>;
+
+    constructor(iterable: Iterable<T>) {
+        this.iterator = iterable[Symbol.iterator]();
+    }
+
+    static from<T>(iterable: Iterable<T>): Iter<T> {
+        return new Iter(iterable);
+    }
+
+    static empty<T>(): Iter<T> {
+        return new Iter<T>([]);
+    }
+
+    // Breaking out of a for...of must not close the source, so partially consumed iterators stay usable.
+    [Symbol.iterator](): Iterator<T> {
+        return { next: () => this.step() };
+    }
+
+    protected step(): IteratorResult<T> {
+        return this.iterator.next();
+    }
+
+    /**
+     * Advances the iterator and returns the next value, or None when it is exhausted.
+     */
+    next(): Option<T> {
+        const result = this.step();
+        return result.done ? Option.none() : Option.some(result.value);
+    }
+
+    map<U>(fn: (value: T) => U): Iter<U> {
+        const source = this;
+        return new Iter((function* () {
+            for (const value of source) yield fn(value);
+        })());
+    }
+
+    filter(fn: (value: T) => boolean): Iter<T> {
+        const source = this;
+        return new Iter((function* () {
+            for (const value of source) if (fn(value)) yield value;
+        })());
+    }
+
+    /**
+     * Maps each value to an Option and keeps only the Some payloads.
+     */
+    filterMap<U>(fn: (value: T) => Option<U>): Iter<U> {
+        const source = this;
+        return new Iter((function* () {
+            for (const value of source) {
+                const mapped = fn(value);
+                if (mapped.isSome()) yield mapped.value;
+            }
+        })());
+    }
+
+    flatMap<U>(fn: (value: T) => Iterable<U>): Iter<U> {
+        const source = this;
+        return new Iter((function* () {
+            for (const value of source) yield* fn(value);
+        })());
+    }
+
+    take(n: number): Iter<T> {
+        const source = this;
+        return new Iter((function* () {
+            if (n <= 0) return;
+            let taken = 0;
+            for (const value of source) {
+                yield value;
+                if (++taken >= n) return;
+            }
+        })());
+    }
+
+    skip(n: number): Iter<T> {
+        const source = this;
+        return new Iter((function* () {
+            let skipped = 0;
+            for (const value of source) {
+                if (skipped++ < n) continue;
+                yield value;
+            }
+        })());
+    }
+
+    takeWhile(fn: (value: T) => boolean): Iter<T> {
+        const source = this;
+        return new Iter((function* () {
+            for (const value of source) {
+                if (!fn(value)) return;
+                yield value;
+            }
+        })());
+    }
+
+    /**
+     * Pairs up values from both iterators, stopping as soon as either is exhausted.
+     */
+    zip<U>(other: Iterable<U>): Iter<[T, U]> {
+        const source = this;
+        return new Iter((function* (): Generator<[T, U]> {
+            const right = other[Symbol.iterator]();
+            for (const value of source) {
+                const next = right.next();
+                if (next.done) return;
+                yield [value, next.value];
+            }
+        })());
+    }
+
+    chain(other: Iterable<T>): Iter<T> {
+        const source = this;
+        return new Iter((function* () {
+            yield* source;
+            yield* other;
+        })());
+    }
+
+    enumerate(): Iter<[number, T]> {
+        const source = this;
+        return new Iter((function* (): Generator<[number, T]> {
+            let index = 0;
+            for (const value of source) yield [index++, value];
+        })());
+    }
+
+    /**
+     * Yields the first value and then every `step`-th value after it.
+     */
+    stepBy(step: number): Iter<T> {
+        if (!Number.isInteger(step) || step <= 0) {
+            throw new Error("stepBy requires a positive integer step");
+        }
+        const source = this;
+        return new Iter((function* () {
+            let index = 0;
+            for (const value of source) {
+                if (index++ % step === 0) yield value;
+            }
+        })());
+    }
+
+    peekable(): Peekable<T> {
+        return new Peekable(this);
+    }
+
+    /**
+     * Yields every overlapping run of `size` consecutive values.
+     */
+    windows(size: number): Iter<T[]> {
+        if (!Number.isInteger(size) || size <= 0) {
+            throw new Error("windows requires a positive integer size");
+        }
+        const source = this;
+        return new Iter((function* () {
+            const window: T[] = [];
+            for (const value of source) {
+                window.push(value);
+                if (window.length > size) window.shift();
+                if (window.length === size) yield window.slice();
+            }
+        })());
+    }
+
+    /**
+     * Yields consecutive non-overlapping runs of `size` values; the last chunk may be shorter.
+     */
+    chunks(size: number): Iter<T[]> {
+        if (!Number.isInteger(size) || size <= 0) {
+            throw new Error("chunks requires a positive integer size");
+        }
+        const source = this;
+        return new Iter((function* () {
+            let chunk: T[] = [];
+            for (const value of source) {
+                chunk.push(value);
+                if (chunk.length === size) {
+                    yield chunk;
+                    chunk = [];
+                }
+            }
+            if (chunk.length > 0) yield chunk;
+        })());
+    }
+
+    fold<A>(init: A, fn: (acc: A, value: T) => A): A {
+        let acc = init;
+        for (const value of this) acc = fn(acc, value);
+        return acc;
+    }
+
+    find(fn: (value: T) => boolean): Option<T> {
+        for (const value of this) {
+            if (fn(value)) return Option.some(value);
+        }
+        return Option.none();
+    }
+
+    position(fn: (value: T) => boolean): Option<number> {
+        let index = 0;
+        for (const value of this) {
+            if (fn(value)) return Option.some(index);
+            index++;
+        }
+        return Option.none();
+    }
+
+    /**
+     * Returns the smallest value, or None if the iterator is empty. Ties keep the first value.
+     */
+    min(): Option<T> {
+        return this.fold(Option.none<T>(), (acc, value) =>
+            acc.isSome() && !(value < acc.value) ? acc : Option.some(value)
+        );
+    }
+
+    /**
+     * Returns the largest value, or None if the iterator is empty. Ties keep the last value.
+     */
+    max(): Option<T> {
+        return this.fold(Option.none<T>(), (acc, value) =>
+            acc.isSome() && value < acc.value ? acc : Option.some(value)
+        );
+    }
+
+    sum(this: Iter<number>): number {
+        return this.fold(0, (acc, value) => acc + value);
+    }
+
+    count(): number {
+        return this.fold(0, (acc) => acc + 1);
+    }
+
+    /**
+     * Consumes the iterator into a collection. Without an argument (or with `Array`) it builds an array;
+     * `Map`, `Set`, `HashMap`, `HashSet`, `Vec` and `VecDeque` build those collections; `Result` and `Option`
+     * stop at the first Err or None.
+     */
+    collect(into?: ArrayConstructor): T[];
+    collect<K, V>(this: Iter<readonly [K, V]>, into: MapConstructor): Map<K, V>;
+    collect(into: SetConstructor): Set<T>;
+    collect<K, V>(this: Iter<readonly [K, V]>, into: typeof HashMap): HashMap<K, V>;
+    collect(into: typeof HashSet): HashSet<T>;
+    collect(into: typeof Vec): Vec<T>;
+    collect(into: typeof VecDeque): VecDeque<T>;
+    collect<U, E>(this: Iter<Result<U, E>>, into: typeof Result): Result<U[], E>;
+    collect<U>(this: Iter<Option<U>>, into: typeof Option): Option<U[]>;
+    collect(into: unknown = Array): unknown {
+        if (into === Map) return new Map(this as Iterable<any>);
+        if (into === Set) return new Set(this);
+        if (into === HashMap) return new HashMap(this as Iterable<any>);
+        if (into === HashSet) return new HashSet(this);
+        if (into === Vec) return new Vec(this);
+        if (into === VecDeque) return new VecDeque(this);
+        if (into === Result) {
+            const values: unknown[] = [];
+            for (const result of this as Iter<Result<unknown, unknown>>) {
+                if (result.isErr()) return Result.err(result.error);
+                values.push(result.unwrap());
+            }
+            return Result.ok(values);
+        }
+        if (into === Option) {
+            const values: unknown[] = [];
+            for (const option of this as Iter<Option<unknown>>) {
+                if (option.isNone()) return Option.none();
+                values.push(option.unwrap());
+            }
+            return Option.some(values);
+        }
+        return Array.from(this);
+    }
+}
+
+/**
+ * An iterator that can look at its next value without consuming it.
+ */
+export class Peekable<T> extends Iter<T> {
+    private peeked: IteratorResult<T> | null = null;
+
+    constructor(source: Iterable<T>) {
+        super(source);
+    }
+
+    protected step(): IteratorResult<T> {
+        if (this.peeked) {
+            const peeked = this.peeked;
+            this.peeked = null;
+            return peeked;
+        }
+        return super.step();
+    }
+
+    /**
+     * Returns the next value without advancing the iterator.
+     */
+    peek(): Option<T> {
+        if (!this.peeked) this.peeked = super.step();
+        return this.peeked.done ? Option.none() : Option.some(this.peeked.value);
+    }
+}
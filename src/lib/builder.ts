@@ -0,0 +1,105 @@
+import "reflect-metadata";
+import { Result } from "../types";
+import { registerPlugin, DerivePlugin } from "../derive";
+import { applyDefaults, fieldDefaults } from "./default";
+
+/**
+ * Error returned by `build()` when required fields were not set.
+ */
+export class BuildError extends Error {
+    constructor(readonly missing: string[]) {
+        super(`missing required field${missing.length === 1 ? "" : "s"}: ${missing.join(", ")}`);
+        this.name = "BuildError";
+    }
+}
+
+// Metadata key for fields the builder may leave unset
+export const OPTIONAL_METADATA_KEY = Symbol("optional_metadata");
+
+/**
+ * Decorator marking a field the builder may leave unset, such as `nick?: string`. Under ES2022+ class
+ * fields every declared field is an own property, so optional fields need this to not count as missing.
+ */
+export function optional(target: any, propertyKey: string): void {
+    const fields: string[] = Reflect.getMetadata(OPTIONAL_METADATA_KEY, target) || [];
+    Reflect.defineMetadata(OPTIONAL_METADATA_KEY, [...fields, propertyKey], target);
+}
+
+/** The data fields of a class, i.e. its non-method properties. */
+type Fields<T> = { [K in keyof T]: T[K] extends (...args: any[]) => any ? never : K }[keyof T];
+
+/**
+ * A fluent builder for `T`, with one setter per field and a `build()` that checks required fields.
+ */
+export type Builder<T> = {
+    [K in Exclude<Fields<T>, "build">]-?: (value: T[K]) => Builder<T>;
+} & {
+    build(): Result<T, BuildError>;
+};
+
+/**
+ * Creates a builder for a class: fields without an initializer or a default
+ * (`@defaultValue`, `@serde({ default })`) must be set before `build()` succeeds, unless marked `@optional`.
+ * @param constructor The class to build, constructible without arguments.
+ * @returns A builder with one setter per field.
+ */
+export function builderFor<T>(constructor: new () => T): Builder<T> {
+    const template: any = new constructor();
+    const defaults = fieldDefaults(template);
+    const optionalKeys: string[] = Reflect.getMetadata(OPTIONAL_METADATA_KEY, template) || [];
+    const keys = new Set([...Object.keys(template), ...defaults.keys(), ...optionalKeys]);
+    const values = new Map<string, unknown>();
+
+    const builder: Record<string, unknown> = {
+        build: (): Result<T, BuildError> => {
+            const instance: any = new constructor();
+            applyDefaults(instance);
+            for (const [key, value] of values) instance[key] = value;
+            const missing = Array.from(keys).filter((key) =>
+                instance[key] === undefined && !defaults.has(key) && !optionalKeys.includes(key)
+            );
+            return missing.length > 0 ? Result.err(new BuildError(missing)) : Result.ok(instance);
+        },
+    };
+    for (const key of keys) {
+        if (key === "build") continue;
+        builder[key] = (value: unknown) => {
+            values.set(key, value);
+            return builder;
+        };
+    }
+    return builder as Builder<T>;
+}
+
+/** Feature flag for enabling `X.builder()`. */
+export const Builder = "Builder" as const;
+
+/**
+ * Interface for classes with Builder feature.
+ */
+export interface Buildable {
+    builder<T>(this: new () => T): Builder<T>;
+}
+
+declare module "../derive" {
+    interface DeriveFeatures {
+        Builder: { instance: {}; static: Buildable };
+    }
+}
+
+// Builder plugin with type definition
+const builderPlugin: DerivePlugin = {
+    feature: Builder,
+    extendConstructor: (constructor) => {
+        Object.defineProperty(constructor, "builder", {
+            value: function (): Builder<any> {
+                return builderFor(this);
+            },
+            writable: true,
+            configurable: true,
+        });
+    },
+};
+
+// Register plugin with derive
+registerPlugin(builderPlugin);
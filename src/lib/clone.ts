@@ -0,0 +1,128 @@
+import "reflect-metadata";
+import { Option, Result } from "../types";
+import { EnumVariant } from "../enum";
+import { registerPlugin, DerivePlugin } from "../derive";
+
+// Metadata key for clone options
+export const CLONE_METADATA_KEY = Symbol("clone_metadata");
+
+// Clone options interface
+interface CloneOptions {
+    /** Copy the reference instead of deep-copying the value. */
+    shallow?: boolean;
+    /** Clones the field's value with a custom function. */
+    clone_with?: (value: any) => any;
+}
+
+// Marks prototypes whose `clone` is provided by the Clone plugin, so nested copies share one memo.
+const DERIVED_CLONE = Symbol("derived_clone");
+
+function cloneFields(source: any, target: any, memo: WeakMap<object, any>): void {
+    const metadata: Record<string, CloneOptions> = Reflect.getMetadata(CLONE_METADATA_KEY, source) || {};
+    for (const key of Object.keys(source)) {
+        const options = metadata[key] || {};
+        const value = source[key];
+        target[key] = options.clone_with
+            ? options.clone_with(value)
+            : options.shallow ? value : cloneValue(value, memo);
+    }
+}
+
+/**
+ * Deep-copies a value: classes deriving Clone, Options, Results, enum variants, arrays, Maps, Sets,
+ * Dates and plain objects are copied recursively (preserving shared and circular references);
+ * objects with their own `clone` method use it, and anything else is kept by reference.
+ */
+export function cloneValue<T>(value: T, memo: WeakMap<object, any> = new WeakMap()): T {
+    if (value === null || typeof value !== "object") return value;
+    if (memo.has(value)) return memo.get(value);
+    const source: any = value;
+
+    if (source instanceof Option) {
+        return (source.isSome() ? Option.some(cloneValue(source.value, memo)) : source) as T;
+    }
+    if (source instanceof Result) {
+        return (source.isOk()
+            ? Result.ok(cloneValue(source.value, memo))
+            : Result.err(cloneValue(source.unwrapErr(), memo))) as T;
+    }
+    if (source instanceof Date) return new Date(source.getTime()) as T;
+    if (Array.isArray(source)) {
+        const copy: any[] = [];
+        memo.set(source, copy);
+        for (const item of source) copy.push(cloneValue(item, memo));
+        return copy as T;
+    }
+    if (source instanceof Map) {
+        const copy = new Map();
+        memo.set(source, copy);
+        for (const [key, item] of source) copy.set(key, cloneValue(item, memo));
+        return copy as T;
+    }
+    if (source instanceof Set) {
+        const copy = new Set();
+        memo.set(source, copy);
+        for (const item of source) copy.add(cloneValue(item, memo));
+        return copy as T;
+    }
+    if (source instanceof EnumVariant) {
+        // The owner identifies the enum, so only the payload is copied.
+        const copy = Object.assign(Object.create(EnumVariant.prototype), source);
+        memo.set(source, copy);
+        copy.payload = cloneValue(source.payload, memo);
+        return copy;
+    }
+    if (source[DERIVED_CLONE] || Object.getPrototypeOf(source) === Object.prototype) {
+        const copy = Object.create(Object.getPrototypeOf(source));
+        memo.set(source, copy);
+        cloneFields(source, copy, memo);
+        return copy;
+    }
+    if (typeof source.clone === "function") return source.clone();
+    return value;
+}
+
+/**
+ * Decorator to configure how the Clone plugin copies a property.
+ */
+export function clone(options: CloneOptions = {}) {
+    return function (target: any, propertyKey: string) {
+        const metadata = { ...Reflect.getMetadata(CLONE_METADATA_KEY, target) };
+        metadata[propertyKey] = options;
+        Reflect.defineMetadata(CLONE_METADATA_KEY, metadata, target);
+    };
+}
+
+/** Feature flag for enabling deep copies with `clone()`. */
+export const Clone = "Clone" as const;
+
+/**
+ * Interface for classes with Clone feature.
+ */
+export interface Cloneable {
+    clone(): this;
+}
+
+declare module "../derive" {
+    interface DeriveFeatures {
+        Clone: { instance: Cloneable; static: {} };
+    }
+}
+
+// Clone plugin with type definition
+const clonePlugin: DerivePlugin = {
+    feature: Clone,
+    extendPrototype: (prototype) => {
+        Object.defineProperty(prototype, DERIVED_CLONE, { value: true });
+        Object.defineProperty(prototype, "clone", {
+            value: function (): any {
+                return cloneValue(this);
+            },
+            writable: true,
+            configurable: true,
+        });
+    },
+};
+
+// Register plugin with derive
+registerPlugin(clonePlugin);
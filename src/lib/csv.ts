@@ -0,0 +1,99 @@
+import { DataFormat, deserializeFrom, registerFormat, serializeTo } from "./format";
+
+/** Options for the CSV format. */
+export interface CsvOptions {
+    /** Field separator, `,` by default. */
+    delimiter?: string;
+}
+
+function formatCell(value: unknown, delimiter: string): string {
+    if (value === null || value === undefined) return "";
+    const text = typeof value === "object" ? JSON.stringify(value) : `${value}`;
+    return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function parseRows(input: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = "";
+    let quoted = false;
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (quoted) {
+            if (char === '"' && input[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (input.startsWith(delimiter, i)) {
+            row.push(cell);
+            cell = "";
+            i += delimiter.length - 1;
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && input[i + 1] === "\n") i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = "";
+        } else {
+            cell += char;
+        }
+    }
+    if (cell !== "" || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows;
+}
+
+/**
+ * CSV format for arrays of records. The header row lists every serialized (renamed) field;
+ * nested values are written as JSON and empty cells are read back as missing fields.
+ */
+export const Csv: DataFormat<string, CsvOptions> = {
+    name: "csv",
+    stringValues: true,
+    serialize(data, options = {}) {
+        const delimiter = options.delimiter ?? ",";
+        const records = (Array.isArray(data) ? data : [data]) as Record<string, unknown>[];
+        const header: string[] = [];
+        for (const record of records) {
+            for (const key of Object.keys(record)) if (!header.includes(key)) header.push(key);
+        }
+        const lines = [header, ...records.map((record) => header.map((key) => record[key]))]
+            .map((cells) => cells.map((cell) => formatCell(cell, delimiter)).join(delimiter));
+        return lines.join("\r\n") + "\r\n";
+    },
+    deserialize(input, options = {}) {
+        const [header = [], ...rows] = parseRows(input, options.delimiter ?? ",");
+        return rows.map((cells) => {
+            const record: Record<string, string> = {};
+            header.forEach((key, i) => {
+                if (cells[i] !== undefined && cells[i] !== "") record[key] = cells[i];
+            });
+            return record;
+        });
+    },
+};
+
+registerFormat(Csv);
+
+/**
+ * Serializes derived values to CSV text with a header row.
+ */
+export function toCsv(values: readonly unknown[], options?: CsvOptions): string {
+    return serializeTo(Csv, values, options);
+}
+
+/**
+ * Deserializes CSV text into instances of a class deriving Deserialize, one per row,
+ * converting string cells to the fields' types.
+ */
+export function fromCsv<T>(constructor: new (...args: any[]) => T, text: string, options?: CsvOptions): T[] {
+    return deserializeFrom(constructor, Csv, text, options) as T[];
+}
@@ -0,0 +1,90 @@
+import "reflect-metadata";
+import { defaultFor } from "../utils";
+import { registerPlugin, DerivePlugin } from "../derive";
+import { METADATA_KEY } from "./serde";
+
+// Metadata key for field default values
+export const DEFAULT_METADATA_KEY = Symbol("default_metadata");
+
+// A default value, or a factory called for every new instance (use one for arrays and objects).
+type DefaultSpec = { value: any | (() => any) };
+
+function resolve(spec: DefaultSpec): any {
+    return typeof spec.value === "function" ? spec.value() : spec.value;
+}
+
+/**
+ * The explicit default of every field that has one: `@defaultValue` first, then `@serde({ default })`.
+ */
+export function fieldDefaults(target: object): Map<string, () => any> {
+    const defaults = new Map<string, () => any>();
+    const serde: Record<string, { default?: any }> = Reflect.getMetadata(METADATA_KEY, target) || {};
+    for (const [key, options] of Object.entries(serde)) {
+        if (options.default !== undefined) defaults.set(key, () => resolve({ value: options.default }));
+    }
+    const explicit: Record<string, DefaultSpec> = Reflect.getMetadata(DEFAULT_METADATA_KEY, target) || {};
+    for (const [key, spec] of Object.entries(explicit)) defaults.set(key, () => resolve(spec));
+    return defaults;
+}
+
+// Fills undefined fields that have an explicit default.
+export function applyDefaults(instance: any): void {
+    for (const [key, value] of fieldDefaults(instance)) {
+        if (instance[key] === undefined) instance[key] = value();
+    }
+}
+
+/**
+ * Decorator giving a property a default value, used by `X.default()`, `X.builder()` and new instances
+ * of classes deriving Default. Pass a function to build a fresh value for each instance.
+ */
+export function defaultValue(value: any | (() => any)) {
+    return function (target: any, propertyKey: string) {
+        const metadata = { ...Reflect.getMetadata(DEFAULT_METADATA_KEY, target) };
+        metadata[propertyKey] = { value };
+        Reflect.defineMetadata(DEFAULT_METADATA_KEY, metadata, target);
+    };
+}
+
+/** Feature flag for enabling `X.default()`. */
+export const Default = "Default" as const;
+
+/**
+ * Interface for classes with Default feature.
+ */
+export interface Defaultable {
+    default<T>(this: new () => T): T;
+}
+
+declare module "../derive" {
+    interface DeriveFeatures {
+        Default: { instance: {}; static: Defaultable };
+    }
+}
+
+// Default plugin with type definition
+const defaultPlugin: DerivePlugin = {
+    feature: Default,
+    extendConstructor: (constructor) => {
+        Object.defineProperty(constructor, "default", {
+            value: function (): any {
+                const instance = new this();
+                applyDefaults(instance);
+                for (const key of Object.keys(instance)) {
+                    if (instance[key] !== undefined) continue;
+                    const type = Reflect.getMetadata("design:type", instance, key);
+                    defaultFor(type).ifSome((value) => {
+                        instance[key] = value;
+                    });
+                }
+                return instance;
+            },
+            writable: true,
+            configurable: true,
+        });
+    },
+    initializeInstance: applyDefaults,
+};
+
+// Register plugin with derive
+registerPlugin(defaultPlugin);
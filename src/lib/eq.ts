@@ -0,0 +1,90 @@
+import "reflect-metadata";
+import { registerPlugin, DerivePlugin } from "../derive";
+import { structuralEquals } from "../utils";
+
+// Metadata key for equality options
+export const EQ_METADATA_KEY = Symbol("eq_metadata");
+
+// Equality options interface
+interface EqOptions {
+    /** Leave the field out of `eq` and `hashCode` (e.g. caches or timestamps). */
+    skip?: boolean;
+}
+
+/**
+ * The fields of a value that take part in equality and hashing: its own keys minus those skipped with `@eq`.
+ */
+export function comparedFields(value: object): string[] {
+    const metadata: Record<string, EqOptions> = Reflect.getMetadata(EQ_METADATA_KEY, value) || {};
+    return Object.keys(value).filter((key) => !metadata[key]?.skip);
+}
+
+/**
+ * Decorator to configure how the PartialEq, Eq and Hash plugins treat a property.
+ */
+export function eq(options: EqOptions = {}) {
+    return function (target: any, propertyKey: string) {
+        const metadata = { ...Reflect.getMetadata(EQ_METADATA_KEY, target) };
+        metadata[propertyKey] = options;
+        Reflect.defineMetadata(EQ_METADATA_KEY, metadata, target);
+    };
+}
+
+/** Feature flag for enabling structural equality with `eq()`/`ne()`. */
+export const PartialEq = "PartialEq" as const;
+/** Feature flag marking `eq()` as a full equivalence relation; requires PartialEq. */
+export const Eq = "Eq" as const;
+
+/**
+ * Interface for classes with PartialEq or Eq feature.
+ */
+export interface Equatable {
+    eq(other: unknown): boolean;
+    ne(other: unknown): boolean;
+}
+
+declare module "../derive" {
+    interface DeriveFeatures {
+        PartialEq: { instance: Equatable; static: {} };
+        Eq: { instance: {}; static: {} };
+    }
+}
+
+function extendEquality(prototype: any): void {
+    Object.defineProperty(prototype, "eq", {
+        value: function (other: unknown): boolean {
+            if (other === this) return true;
+            if (other === null || typeof other !== "object") return false;
+            if (Object.getPrototypeOf(other) !== Object.getPrototypeOf(this)) return false;
+            const keys = comparedFields(this);
+            const otherKeys = comparedFields(other);
+            return keys.length === otherKeys.length &&
+                keys.every((key) => structuralEquals((this as any)[key], (other as any)[key]));
+        },
+        writable: true,
+        configurable: true,
+    });
+    Object.defineProperty(prototype, "ne", {
+        value: function (other: unknown): boolean {
+            return !this.eq(other);
+        },
+        writable: true,
+        configurable: true,
+    });
+}
+
+// PartialEq plugin with type definition
+const partialEqPlugin: DerivePlugin = {
+    feature: PartialEq,
+    extendPrototype: extendEquality,
+};
+
+// Eq plugin with type definition
+const eqPlugin: DerivePlugin = {
+    feature: Eq,
+    requires: [PartialEq],
+};
+
+// Register plugins with derive
+registerPlugin(partialEqPlugin);
+registerPlugin(eqPlugin);
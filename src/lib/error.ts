@@ -0,0 +1,87 @@
+import "reflect-metadata";
+import { Option } from "../types";
+import { Iter } from "../iter";
+import { errorChain } from "../error";
+import { registerPlugin, DerivePlugin } from "../derive";
+import { defineMethod } from "../utils";
+import { Display, DisplayTemplate, renderTemplate } from "./fmt";
+
+// Metadata key for error message templates
+export const ERROR_METADATA_KEY = Symbol("error_metadata");
+
+// Metadata key for the name of the source field
+export const SOURCE_METADATA_KEY = Symbol("source_metadata");
+
+/**
+ * Decorator setting the template the Error plugin renders as `message()`, like thiserror's
+ * `#[error("...")]`: `{field}` is replaced with the field's Display output and `{field:?}` with its
+ * Debug output; a function receives the instance instead.
+ */
+export function error<T>(template: DisplayTemplate<T>) {
+    return function (target: any) {
+        Reflect.defineMetadata(ERROR_METADATA_KEY, template, target);
+    };
+}
+
+/**
+ * Decorator marking the field that holds the underlying error, returned by `source()`. The field may
+ * hold an Option. It cannot itself be named `source`, since that would hide the method.
+ */
+export function source() {
+    return function (target: any, propertyKey: string) {
+        Reflect.defineMetadata(SOURCE_METADATA_KEY, propertyKey, target);
+    };
+}
+
+/** Feature flag for enabling `message()`, `source()` and `chain()`; its feature name is `"Error"`. */
+export const ErrorFeature = "Error" as const;
+
+/**
+ * Interface for classes with Error feature, mirroring Rust's `std::error::Error`.
+ */
+export interface StdError {
+    /** The `@error` template rendered over the instance's fields. */
+    message(): string;
+    /** The value of the `@source` field, if any. */
+    source(): Option<unknown>;
+    /** This error and then each source in turn, outermost first. */
+    chain(): Iter<unknown>;
+    /** The same as `message()`. */
+    toString(): string;
+}
+
+declare module "../derive" {
+    interface DeriveFeatures {
+        Error: { instance: StdError; static: {} };
+    }
+}
+
+// Error plugin with type definition
+const errorPlugin: DerivePlugin = {
+    feature: ErrorFeature,
+    // Both define toString; the @error template already is the Display output.
+    conflicts: [Display],
+    extendPrototype: (prototype) => {
+        defineMethod(prototype, "message", function (this: any): string {
+            const template: DisplayTemplate | undefined = Reflect.getMetadata(ERROR_METADATA_KEY, this.constructor);
+            if (template === undefined) {
+                throw new Error(`${this.constructor.name} derives Error but has no @error template`);
+            }
+            return renderTemplate(this, template, "@error");
+        });
+        defineMethod(prototype, "source", function (this: any): Option<unknown> {
+            const key: string | undefined = Reflect.getMetadata(SOURCE_METADATA_KEY, this);
+            const value = key === undefined ? undefined : this[key];
+            return value instanceof Option ? value : Option.fromNullable(value);
+        });
+        defineMethod(prototype, "chain", function (this: any): Iter<unknown> {
+            return errorChain(this);
+        });
+        defineMethod(prototype, "toString", function (this: any): string {
+            return this.message();
+        });
+    },
+};
+
+// Register plugins with derive
+registerPlugin(errorPlugin);
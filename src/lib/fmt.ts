@@ -0,0 +1,257 @@
+import "reflect-metadata";
+import { Option, Result } from "../types";
+import { EnumVariant } from "../enum";
+import { BinaryHeap, HashMap, HashSet, Vec, VecDeque } from "../collections";
+import { registerPlugin, DerivePlugin } from "../derive";
+
+// Metadata key for debug options
+export const DEBUG_METADATA_KEY = Symbol("debug_metadata");
+
+// Metadata key for display templates
+export const DISPLAY_METADATA_KEY = Symbol("display_metadata");
+
+// Debug options interface
+interface DebugOptions {
+    /** Leave the field out of the output. */
+    skip?: boolean;
+    /** Print `[REDACTED]` instead of the value, e.g. for passwords and tokens. */
+    redact?: boolean;
+}
+
+/** A `@display` template such as `"{name} ({age})"`, or a function rendering the value. */
+export type DisplayTemplate<T = any> = string | ((value: T) => string);
+
+const INDENT = "    ";
+const REDACTED = "[REDACTED]";
+
+// Marks prototypes whose `debug` is provided by the Debug plugin, so nested values share cycle tracking.
+const DERIVED_DEBUG = Symbol("derived_debug");
+
+function indent(text: string): string {
+    return text.replace(/\n/g, `\n${INDENT}`);
+}
+
+// Renders `items` between `open` and `close`, one per line with trailing commas when pretty.
+function debugList(open: string, close: string, items: string[], pretty: boolean, pad: string = ""): string {
+    if (items.length === 0) return `${open}${close}`;
+    if (pretty) return `${open}\n${items.map((item) => `${INDENT}${indent(item)},\n`).join("")}${close}`;
+    return `${open}${pad}${items.join(", ")}${pad}${close}`;
+}
+
+function debugTuple(name: string, value: unknown, pretty: boolean, seen: Set<object>): string {
+    return debugList(`${name}(`, ")", [debugValue(value, pretty, seen)], pretty);
+}
+
+function debugFields(name: string, value: any, keys: string[], pretty: boolean, seen: Set<object>): string {
+    if (keys.length === 0) return name || "{}";
+    const metadata: Record<string, DebugOptions> = Reflect.getMetadata(DEBUG_METADATA_KEY, value) || {};
+    const fields = keys
+        .filter((key) => !metadata[key]?.skip)
+        .map((key) => `${key}: ${metadata[key]?.redact ? REDACTED : debugValue(value[key], pretty, seen)}`);
+    return debugList(name ? `${name} {` : "{", "}", fields, pretty, " ");
+}
+
+/**
+ * Formats a value like Rust's `{:?}` (or `{:#?}` when `pretty`): strings are quoted, Options,
+ * Results and enum variants show their variant, objects show their class name and fields, and
+ * circular references are printed as `[Circular]`. Objects with their own `debug` method use it.
+ */
+export function debugValue(value: unknown, pretty: boolean = false, seen: Set<object> = new Set()): string {
+    switch (typeof value) {
+        case "string": return JSON.stringify(value);
+        case "bigint": return `${value}`;
+        case "symbol": return value.toString();
+        case "function": return value.name ? `[Function ${value.name}]` : "[Function]";
+        case "object": break;
+        default: return `${value}`;
+    }
+    if (value === null) return "null";
+    const object: any = value;
+    if (seen.has(object)) return "[Circular]";
+    if (!object[DERIVED_DEBUG] && typeof object.debug === "function") return object.debug(pretty);
+
+    seen.add(object);
+    try {
+        if (object instanceof Option) return object.isSome() ? debugTuple("Some", object.value, pretty, seen) : "None";
+        if (object instanceof Result) {
+            return object.isOk()
+                ? debugTuple("Ok", object.value, pretty, seen)
+                : debugTuple("Err", object.unwrapErr(), pretty, seen);
+        }
+        if (object instanceof EnumVariant) {
+            const payload: any = object.payload;
+            if (payload === undefined) return object.variant;
+            return payload !== null && typeof payload === "object" && Object.getPrototypeOf(payload) === Object.prototype
+                ? debugFields(object.variant, payload, Object.keys(payload), pretty, seen)
+                : debugTuple(object.variant, payload, pretty, seen);
+        }
+        if (object instanceof Date) return `Date(${isNaN(object.getTime()) ? "Invalid" : object.toISOString()})`;
+        if (object instanceof Error) return `${object.name}(${JSON.stringify(object.message)})`;
+        if (Array.isArray(object) || object instanceof Vec || object instanceof VecDeque || object instanceof BinaryHeap) {
+            return debugList("[", "]", Array.from(object as Iterable<unknown>, (item) => debugValue(item, pretty, seen)), pretty);
+        }
+        if (object instanceof Set || object instanceof HashSet) {
+            return debugList("{", "}", Array.from(object, (item) => debugValue(item, pretty, seen)), pretty);
+        }
+        if (object instanceof Map || object instanceof HashMap) {
+            const entries = Array.from(object as Iterable<[unknown, unknown]>, ([key, item]) =>
+                `${debugValue(key, pretty, seen)}: ${debugValue(item, pretty, seen)}`
+            );
+            return debugList("{", "}", entries, pretty);
+        }
+        const prototype = Object.getPrototypeOf(object);
+        const name = prototype === null || prototype === Object.prototype ? "" : object.constructor?.name ?? "";
+        return debugFields(name, object, Object.keys(object), pretty, seen);
+    } finally {
+        seen.delete(object);
+    }
+}
+
+/**
+ * Formats a value like Rust's `{}`: strings as they are, classes deriving Display with their template,
+ * and other values with their own `toString`. Objects without one fall back to `debugValue`.
+ */
+export function displayValue(value: unknown): string {
+    if (typeof value === "string") return value;
+    if (value !== null && typeof value === "object" && value.toString === Object.prototype.toString) {
+        return debugValue(value);
+    }
+    return `${value}`;
+}
+
+// Replaces `{}`, `{0}`, `{name}` placeholders with optional `:?`/`:#?` specs; `{{` and `}}` are literal braces.
+function interpolate(template: string, resolve: (key: string | undefined) => unknown): string {
+    return template.replace(/\{\{|\}\}|\{([^{}:]*)(?::(#?\?)?)?\}/g, (match, key: string | undefined, spec) => {
+        if (match === "{{") return "{";
+        if (match === "}}") return "}";
+        const value = resolve(key === "" ? undefined : key);
+        if (spec === "?") return debugValue(value);
+        if (spec === "#?") return debugValue(value, true);
+        return displayValue(value);
+    });
+}
+
+/**
+ * Renders a `@display`-style template over the fields of `instance`; a function template receives the
+ * instance instead. `decorator` names the template's decorator in the error for an unknown field.
+ */
+export function renderTemplate(instance: any, template: DisplayTemplate, decorator: string): string {
+    if (typeof template === "function") return template(instance);
+    return interpolate(template, (key) => {
+        if (key === undefined || !(key in instance)) {
+            throw new Error(`${decorator} template of ${instance.constructor.name} refers to unknown field {${key ?? ""}}`);
+        }
+        return instance[key];
+    });
+}
+
+/**
+ * Formats arguments into a template like Rust's `format!`: `{}` uses Display, `{:?}` Debug and `{:#?}`
+ * pretty Debug. Placeholders take the arguments in order, or by position with `{0}`/`{1:?}`.
+ * @param template The template, e.g. `"{} is {:?}"`.
+ * @param args The values to format.
+ * @returns The formatted string.
+ */
+export function format(template: string, ...args: unknown[]): string {
+    let next = 0;
+    return interpolate(template, (key) => {
+        const index = key === undefined ? next++ : Number(key);
+        if (!Number.isInteger(index) || index < 0 || index >= args.length) {
+            throw new Error(`format: no argument for placeholder {${key ?? ""}} (got ${args.length} arguments)`);
+        }
+        return args[index];
+    });
+}
+
+/**
+ * Decorator to configure how the Debug plugin prints a property.
+ */
+export function debug(options: DebugOptions = {}) {
+    return function (target: any, propertyKey: string) {
+        const metadata = { ...Reflect.getMetadata(DEBUG_METADATA_KEY, target) };
+        metadata[propertyKey] = options;
+        Reflect.defineMetadata(DEBUG_METADATA_KEY, metadata, target);
+    };
+}
+
+/**
+ * Decorator setting the template used by the Display plugin. `{field}` is replaced with the field's
+ * Display output and `{field:?}` with its Debug output; a function receives the instance instead.
+ */
+export function display<T>(template: DisplayTemplate<T>) {
+    return function (target: any) {
+        Reflect.defineMetadata(DISPLAY_METADATA_KEY, template, target);
+    };
+}
+
+/** Feature flag for enabling `debug()`/`debugPretty()`. */
+export const Debug = "Debug" as const;
+/** Feature flag for enabling `toString()` from a `@display` template. */
+export const Display = "Display" as const;
+
+/**
+ * Interface for classes with Debug feature.
+ */
+export interface Debuggable {
+    debug(): string;
+    debugPretty(): string;
+}
+
+declare module "../derive" {
+    interface DeriveFeatures {
+        Debug: { instance: Debuggable; static: {} };
+        Display: { instance: { toString(): string }; static: {} };
+    }
+}
+
+// Debug plugin with type definition
+const debugPlugin: DerivePlugin = {
+    feature: Debug,
+    extendPrototype: (prototype) => {
+        Object.defineProperty(prototype, DERIVED_DEBUG, { value: true });
+        Object.defineProperty(prototype, "debug", {
+            value: function (pretty: boolean = false): string {
+                return debugValue(this, pretty);
+            },
+            writable: true,
+            configurable: true,
+        });
+        Object.defineProperty(prototype, "debugPretty", {
+            value: function (): string {
+                return debugValue(this, true);
+            },
+            writable: true,
+            configurable: true,
+        });
+        // Makes console.log and util.inspect print the Debug output in Node.js.
+        Object.defineProperty(prototype, Symbol.for("nodejs.util.inspect.custom"), {
+            value: function (): string {
+                return debugValue(this, true);
+            },
+            writable: true,
+            configurable: true,
+        });
+    },
+};
+
+// Display plugin with type definition
+const displayPlugin: DerivePlugin = {
+    feature: Display,
+    extendPrototype: (prototype) => {
+        Object.defineProperty(prototype, "toString", {
+            value: function (): string {
+                const template: DisplayTemplate | undefined = Reflect.getMetadata(DISPLAY_METADATA_KEY, this.constructor);
+                if (template === undefined) {
+                    throw new Error(`${this.constructor.name} derives Display but has no @display template`);
+                }
+                return renderTemplate(this, template, "@display");
+            },
+            writable: true,
+            configurable: true,
+        });
+    },
+};
+
+// Register plugins with derive
+registerPlugin(debugPlugin);
+registerPlugin(displayPlugin);
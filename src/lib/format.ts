@@ -0,0 +1,87 @@
+import { Option } from "../types";
+import { DeserializeOptions, serializeValue } from "./serde";
+
+/**
+ * Turns the plain data produced by `serialize()` into a wire representation.
+ */
+export interface Serializer<W, O = {}> {
+    serialize(data: unknown, options?: O): W;
+}
+
+/**
+ * Turns a wire representation back into plain data for `deserialize()`.
+ */
+export interface Deserializer<W, O = {}> {
+    deserialize(input: W, options?: O): unknown;
+}
+
+/**
+ * A data format backend, e.g. JSON text or MessagePack bytes.
+ */
+export interface DataFormat<W = any, O = {}> extends Serializer<W, O>, Deserializer<W, O> {
+    name: string;
+    /** Set for formats that carry every scalar as a string (CSV, query strings). */
+    stringValues?: boolean;
+}
+
+// Registry to store available formats
+const formatRegistry: Record<string, DataFormat<any, any>> = {};
+
+/**
+ * Registers a data format so it can be referred to by name.
+ * @param format The format to register.
+ */
+export function registerFormat(format: DataFormat<any, any>) {
+    formatRegistry[format.name] = format;
+}
+
+/**
+ * Looks up a registered data format by name.
+ */
+export function getFormat(name: string): Option<DataFormat<any, any>> {
+    return Option.fromNullable(formatRegistry[name]);
+}
+
+function resolveFormat<W, O>(format: DataFormat<W, O> | string): DataFormat<W, O> {
+    if (typeof format !== "string") return format;
+    const registered = formatRegistry[format];
+    if (!registered) throw new Error(`No format registered with name: ${format}`);
+    return registered;
+}
+
+/**
+ * Serializes a derived value (or an array of them) into a data format,
+ * applying the value's `@serde` options first.
+ * @param format A format or the name of a registered one.
+ * @param value The value to serialize.
+ * @param options Format-specific options, e.g. `{ pretty: true }` for JSON.
+ */
+export function serializeTo<W, O>(format: DataFormat<W, O> | string, value: unknown, options?: O): W {
+    return resolveFormat(format).serialize(serializeValue(value), options);
+}
+
+/**
+ * Deserializes input in a data format into instances of a class deriving Deserialize.
+ * Returns an array of instances if the input holds an array.
+ * @param constructor The class to build.
+ * @param format A format or the name of a registered one.
+ * @param input The wire representation.
+ * @param formatOptions Format-specific options, e.g. `{ delimiter: ";" }` for CSV.
+ */
+export function deserializeFrom<T, W, O>(
+    constructor: new (...args: any[]) => T,
+    format: DataFormat<W, O> | string,
+    input: W,
+    formatOptions?: O
+): T | T[] {
+    const resolved = resolveFormat(format);
+    const target = constructor as any;
+    if (typeof target.deserialize !== "function") {
+        throw new Error(`${constructor.name} does not derive Deserialize`);
+    }
+    const options: DeserializeOptions = { coerce_strings: resolved.stringValues };
+    const data = resolved.deserialize(input, formatOptions);
+    return Array.isArray(data)
+        ? data.map((item) => target.deserialize(item, options))
+        : target.deserialize(data, options);
+}
@@ -0,0 +1,106 @@
+import { Option, Result } from "../types";
+import { EnumVariant } from "../enum";
+import { registerPlugin, DerivePlugin } from "../derive";
+import { comparedFields } from "./eq";
+
+const FNV_OFFSET = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+function hashString(text: string): number {
+    let hash = FNV_OFFSET;
+    for (let i = 0; i < text.length; i++) {
+        hash = Math.imul(hash ^ text.charCodeAt(i), FNV_PRIME);
+    }
+    return hash | 0;
+}
+
+function combine(hash: number, value: number): number {
+    return (Math.imul(hash, 31) + value) | 0;
+}
+
+// Mixes an entry's hash so that unordered collections can sum their entries without collisions on swaps.
+function mix(value: number): number {
+    value = Math.imul(value ^ (value >>> 16), 0x45d9f3b);
+    return (value ^ (value >>> 16)) | 0;
+}
+
+/**
+ * Computes a stable 32-bit hash consistent with structural equality: values that are equal by `eq`
+ * (or `equals`) hash the same. Objects with a `hashCode` method use it; Maps, Sets and object keys
+ * are hashed independently of their order.
+ */
+export function hashValue(value: unknown): number {
+    switch (typeof value) {
+        case "undefined": return 0x2a5a1e57;
+        case "boolean": return value ? 1231 : 1237;
+        case "number": return value === 0 ? 0 : hashString(`n${value}`);
+        case "bigint": return hashString(`b${value}`);
+        case "string": return hashString(value);
+        case "symbol": return hashString(value.toString());
+        case "function": return hashString(value.name);
+    }
+    if (value === null) return 0x6e756c6c;
+    const object: any = value;
+    if (typeof object.hashCode === "function") return object.hashCode();
+    if (object instanceof Option) {
+        return object.isSome() ? combine(hashString("Some"), hashValue(object.value)) : hashString("None");
+    }
+    if (object instanceof Result) {
+        return object.isOk()
+            ? combine(hashString("Ok"), hashValue(object.value))
+            : combine(hashString("Err"), hashValue(object.unwrapErr()));
+    }
+    if (object instanceof EnumVariant) return combine(hashString(object.variant), hashValue(object.payload));
+    if (object instanceof Date) return combine(hashString("Date"), hashValue(object.getTime()));
+    if (Array.isArray(object)) return object.reduce((hash: number, item) => combine(hash, hashValue(item)), 1);
+    if (object instanceof Map) {
+        let sum = hashString("Map");
+        for (const [key, item] of object) sum = (sum + mix(combine(hashValue(key), hashValue(item)))) | 0;
+        return sum;
+    }
+    if (object instanceof Set) {
+        let sum = hashString("Set");
+        for (const item of object) sum = (sum + mix(hashValue(item))) | 0;
+        return sum;
+    }
+    return hashFields(object, comparedFields(object));
+}
+
+function hashFields(object: any, keys: string[]): number {
+    let sum = hashString(object.constructor?.name ?? "Object");
+    for (const key of keys) sum = (sum + mix(combine(hashString(key), hashValue(object[key])))) | 0;
+    return sum;
+}
+
+/** Feature flag for enabling `hashCode()`. */
+export const Hash = "Hash" as const;
+
+/**
+ * Interface for classes with Hash feature.
+ */
+export interface Hashable {
+    hashCode(): number;
+}
+
+declare module "../derive" {
+    interface DeriveFeatures {
+        Hash: { instance: Hashable; static: {} };
+    }
+}
+
+// Hash plugin with type definition
+const hashPlugin: DerivePlugin = {
+    feature: Hash,
+    extendPrototype: (prototype) => {
+        Object.defineProperty(prototype, "hashCode", {
+            value: function (): number {
+                return hashFields(this, comparedFields(this));
+            },
+            writable: true,
+            configurable: true,
+        });
+    },
+};
+
+// Register plugin with derive
+registerPlugin(hashPlugin);
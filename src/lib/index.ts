@@ -1,3 +1,16 @@
 import "reflect-metadata";
 
-export * from "./serde";
\ No newline at end of file
+export * from "./serde";export * from "./format";
+export * from "./json";
+export * from "./query";
+export * from "./csv";
+export * from "./msgpack";
+export * from "./clone";
+export * from "./eq";
+export * from "./ord";
+export * from "./hash";
+export * from "./fmt";
+export * from "./default";
+export * from "./builder";
+export * from "./validate";
+export * from "./error";
@@ -0,0 +1,50 @@
+import { DataFormat, deserializeFrom, registerFormat, serializeTo } from "./format";
+
+/** Options for the JSON format. */
+export interface JsonOptions {
+    /** Pretty-print with two spaces (`true`) or the given number of spaces. */
+    pretty?: boolean | number;
+}
+
+/**
+ * JSON text format.
+ */
+export const Json: DataFormat<string, JsonOptions> = {
+    name: "json",
+    serialize(data, options = {}) {
+        const indent = options.pretty === true ? 2 : options.pretty || undefined;
+        return JSON.stringify(data, null, indent);
+    },
+    deserialize(input) {
+        return JSON.parse(input);
+    },
+};
+
+registerFormat(Json);
+
+/**
+ * Serializes a derived value (or an array of them) to JSON text.
+ */
+export function toJson(value: unknown, options?: JsonOptions): string {
+    return serializeTo(Json, value, options);
+}
+
+/**
+ * Deserializes JSON text into an instance of a class deriving Deserialize.
+ * @throws TypeError if the text holds an array; use `fromJsonArray` for those.
+ */
+export function fromJson<T>(constructor: new (...args: any[]) => T, text: string): T {
+    const value = deserializeFrom(constructor, Json, text);
+    if (Array.isArray(value)) throw new TypeError(`Expected JSON for one ${constructor.name}, received an array`);
+    return value;
+}
+
+/**
+ * Deserializes a JSON array into instances of a class deriving Deserialize.
+ * @throws TypeError if the text does not hold an array.
+ */
+export function fromJsonArray<T>(constructor: new (...args: any[]) => T, text: string): T[] {
+    const value = deserializeFrom(constructor, Json, text);
+    if (!Array.isArray(value)) throw new TypeError(`Expected a JSON array of ${constructor.name}`);
+    return value;
+}
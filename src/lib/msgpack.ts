@@ -0,0 +1,242 @@
+import { DataFormat, deserializeFrom, registerFormat, serializeTo } from "./format";
+
+const UINT32_MAX = 0xffffffff;
+
+class Writer {
+    private bytes: number[] = [];
+    private scratch = new DataView(new ArrayBuffer(8));
+
+    byte(value: number): void {
+        this.bytes.push(value & 0xff);
+    }
+
+    uint(value: number, size: 1 | 2 | 4): void {
+        for (let shift = (size - 1) * 8; shift >= 0; shift -= 8) this.byte(Math.floor(value / 2 ** shift));
+    }
+
+    bigint64(value: bigint, signed: boolean): void {
+        if (signed) this.scratch.setBigInt64(0, value);
+        else this.scratch.setBigUint64(0, value);
+        for (let i = 0; i < 8; i++) this.byte(this.scratch.getUint8(i));
+    }
+
+    float64(value: number): void {
+        this.scratch.setFloat64(0, value);
+        for (let i = 0; i < 8; i++) this.byte(this.scratch.getUint8(i));
+    }
+
+    raw(bytes: Uint8Array): void {
+        for (const b of bytes) this.bytes.push(b);
+    }
+
+    // Writes a length-prefixed header: the fix form if it fits, else the 8/16/32-bit forms.
+    header(length: number, fix: [number, number] | null, codes: [number | null, number, number]): void {
+        if (fix && length < fix[1]) this.byte(fix[0] | length);
+        else if (codes[0] !== null && length <= 0xff) { this.byte(codes[0]); this.uint(length, 1); }
+        else if (length <= 0xffff) { this.byte(codes[1]); this.uint(length, 2); }
+        else { this.byte(codes[2]); this.uint(length, 4); }
+    }
+
+    toBytes(): Uint8Array {
+        return Uint8Array.from(this.bytes);
+    }
+}
+
+function encodeInteger(writer: Writer, value: number | bigint): void {
+    const n = Number(value);
+    if (n >= 0) {
+        if (n < 0x80) writer.byte(n);
+        else if (n <= 0xff) { writer.byte(0xcc); writer.uint(n, 1); }
+        else if (n <= 0xffff) { writer.byte(0xcd); writer.uint(n, 2); }
+        else if (n <= UINT32_MAX) { writer.byte(0xce); writer.uint(n, 4); }
+        else { writer.byte(0xcf); writer.bigint64(BigInt(value), false); }
+    } else {
+        if (n >= -32) writer.byte(n);
+        else if (n >= -0x80) { writer.byte(0xd0); writer.byte(n); }
+        else if (n >= -0x8000) { writer.byte(0xd1); writer.uint(n & 0xffff, 2); }
+        else if (n >= -0x80000000) { writer.byte(0xd2); writer.uint(n >>> 0, 4); }
+        else { writer.byte(0xd3); writer.bigint64(BigInt(value), true); }
+    }
+}
+
+function encodeValue(writer: Writer, value: unknown): void {
+    if (value === null || value === undefined) writer.byte(0xc0);
+    else if (value === false) writer.byte(0xc2);
+    else if (value === true) writer.byte(0xc3);
+    else if (typeof value === "number") {
+        if (Number.isSafeInteger(value)) encodeInteger(writer, value);
+        else { writer.byte(0xcb); writer.float64(value); }
+    } else if (typeof value === "bigint") {
+        if (value < -(2n ** 63n) || value >= 2n ** 64n) {
+            throw new RangeError(`bigint out of MessagePack range: ${value}`);
+        }
+        encodeInteger(writer, value);
+    } else if (typeof value === "string") {
+        const bytes = new TextEncoder().encode(value);
+        writer.header(bytes.length, [0xa0, 32], [0xd9, 0xda, 0xdb]);
+        writer.raw(bytes);
+    } else if (value instanceof Uint8Array) {
+        writer.header(value.length, null, [0xc4, 0xc5, 0xc6]);
+        writer.raw(value);
+    } else if (Array.isArray(value)) {
+        writer.header(value.length, [0x90, 16], [null, 0xdc, 0xdd]);
+        for (const item of value) encodeValue(writer, item);
+    } else if (typeof value === "object") {
+        const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+        writer.header(entries.length, [0x80, 16], [null, 0xde, 0xdf]);
+        for (const [key, item] of entries) {
+            encodeValue(writer, key);
+            encodeValue(writer, item);
+        }
+    } else {
+        throw new TypeError(`Cannot encode ${typeof value} as MessagePack`);
+    }
+}
+
+class Reader {
+    private offset = 0;
+    private view: DataView;
+
+    constructor(private bytes: Uint8Array) {
+        this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    }
+
+    get done(): boolean {
+        return this.offset >= this.bytes.length;
+    }
+
+    private take(size: number): number {
+        if (this.offset + size > this.bytes.length) throw new RangeError("Unexpected end of MessagePack input");
+        const start = this.offset;
+        this.offset += size;
+        return start;
+    }
+
+    private uint(size: 1 | 2 | 4): number {
+        const at = this.take(size);
+        return size === 1 ? this.view.getUint8(at) : size === 2 ? this.view.getUint16(at) : this.view.getUint32(at);
+    }
+
+    private int(size: 1 | 2 | 4): number {
+        const at = this.take(size);
+        return size === 1 ? this.view.getInt8(at) : size === 2 ? this.view.getInt16(at) : this.view.getInt32(at);
+    }
+
+    // 64-bit integers become numbers when they are safe, bigints otherwise.
+    private int64(signed: boolean): number | bigint {
+        const at = this.take(8);
+        const value = signed ? this.view.getBigInt64(at) : this.view.getBigUint64(at);
+        return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+            ? Number(value)
+            : value;
+    }
+
+    private str(length: number): string {
+        const at = this.take(length);
+        return new TextDecoder().decode(this.bytes.subarray(at, at + length));
+    }
+
+    private array(length: number): unknown[] {
+        return Array.from({ length }, () => this.value());
+    }
+
+    private map(length: number): Record<string, unknown> {
+        const result: Record<string, unknown> = {};
+        for (let i = 0; i < length; i++) {
+            const key = this.value();
+            // defineProperty so a "__proto__" key becomes a field rather than the prototype.
+            Object.defineProperty(result, `${key}`, {
+                value: this.value(),
+                writable: true,
+                enumerable: true,
+                configurable: true,
+            });
+        }
+        return result;
+    }
+
+    value(): unknown {
+        const code = this.uint(1);
+        if (code < 0x80) return code;
+        if (code < 0x90) return this.map(code & 0x0f);
+        if (code < 0xa0) return this.array(code & 0x0f);
+        if (code < 0xc0) return this.str(code & 0x1f);
+        if (code >= 0xe0) return code - 0x100;
+        switch (code) {
+            case 0xc0: return null;
+            case 0xc2: return false;
+            case 0xc3: return true;
+            case 0xc4: case 0xc5: case 0xc6: {
+                const length = this.uint(code === 0xc4 ? 1 : code === 0xc5 ? 2 : 4);
+                const at = this.take(length);
+                return this.bytes.slice(at, at + length);
+            }
+            case 0xca: return this.view.getFloat32(this.take(4));
+            case 0xcb: return this.view.getFloat64(this.take(8));
+            case 0xcc: return this.uint(1);
+            case 0xcd: return this.uint(2);
+            case 0xce: return this.uint(4);
+            case 0xcf: return this.int64(false);
+            case 0xd0: return this.int(1);
+            case 0xd1: return this.int(2);
+            case 0xd2: return this.int(4);
+            case 0xd3: return this.int64(true);
+            case 0xd9: return this.str(this.uint(1));
+            case 0xda: return this.str(this.uint(2));
+            case 0xdb: return this.str(this.uint(4));
+            case 0xdc: return this.array(this.uint(2));
+            case 0xdd: return this.array(this.uint(4));
+            case 0xde: return this.map(this.uint(2));
+            case 0xdf: return this.map(this.uint(4));
+            default: throw new TypeError(`Unsupported MessagePack type 0x${code.toString(16)}`);
+        }
+    }
+}
+
+/**
+ * Compact binary MessagePack format. Supports nil, booleans, integers up to 64 bits,
+ * floats, strings, binary data, arrays and maps (extension types are not supported).
+ */
+export const MessagePack: DataFormat<Uint8Array> = {
+    name: "msgpack",
+    serialize(data) {
+        const writer = new Writer();
+        encodeValue(writer, data);
+        return writer.toBytes();
+    },
+    deserialize(input) {
+        const reader = new Reader(input);
+        const value = reader.value();
+        if (!reader.done) throw new RangeError("Trailing bytes after MessagePack value");
+        return value;
+    },
+};
+
+registerFormat(MessagePack);
+
+/**
+ * Serializes a derived value (or an array of them) to MessagePack bytes.
+ */
+export function toMessagePack(value: unknown): Uint8Array {
+    return serializeTo(MessagePack, value);
+}
+
+/**
+ * Deserializes MessagePack bytes into an instance of a class deriving Deserialize.
+ * @throws TypeError if the bytes hold an array; use `fromMessagePackArray` for those.
+ */
+export function fromMessagePack<T>(constructor: new (...args: any[]) => T, bytes: Uint8Array): T {
+    const value = deserializeFrom(constructor, MessagePack, bytes);
+    if (Array.isArray(value)) throw new TypeError(`Expected MessagePack for one ${constructor.name}, received an array`);
+    return value;
+}
+
+/**
+ * Deserializes a MessagePack array into instances of a class deriving Deserialize.
+ * @throws TypeError if the bytes do not hold an array.
+ */
+export function fromMessagePackArray<T>(constructor: new (...args: any[]) => T, bytes: Uint8Array): T[] {
+    const value = deserializeFrom(constructor, MessagePack, bytes);
+    if (!Array.isArray(value)) throw new TypeError(`Expected a MessagePack array of ${constructor.name}`);
+    return value;
+}
@@ -0,0 +1,132 @@
+import "reflect-metadata";
+import { Option } from "../types";
+import { Ordering, partialCompare } from "../cmp";
+import { registerPlugin, DerivePlugin } from "../derive";
+import { defineMethod } from "../utils";
+import { Eq, PartialEq } from "./eq";
+
+// Metadata key for ordering options
+export const ORD_METADATA_KEY = Symbol("ord_metadata");
+
+// Ordering options interface
+interface OrdOptions {
+    /** Leave the field out of comparisons. */
+    skip?: boolean;
+    /** Compare the field in descending order. */
+    reverse?: boolean;
+}
+
+/**
+ * Decorator to configure how the PartialOrd and Ord plugins compare a property.
+ */
+export function ord(options: OrdOptions = {}) {
+    return function (target: any, propertyKey: string) {
+        const metadata = { ...Reflect.getMetadata(ORD_METADATA_KEY, target) };
+        metadata[propertyKey] = options;
+        Reflect.defineMetadata(ORD_METADATA_KEY, metadata, target);
+    };
+}
+
+// Compares two instances of the same class field by field, in declaration order.
+function compareFields(a: any, b: unknown): Option<Ordering> {
+    if (b === null || typeof b !== "object" || Object.getPrototypeOf(b) !== Object.getPrototypeOf(a)) {
+        return Option.none();
+    }
+    const metadata: Record<string, OrdOptions> = Reflect.getMetadata(ORD_METADATA_KEY, a) || {};
+    for (const key of Object.keys(a)) {
+        const options = metadata[key] || {};
+        if (options.skip) continue;
+        const ordering = partialCompare(a[key], (b as any)[key]);
+        if (!ordering.isSome()) return ordering;
+        if (ordering.value !== Ordering.Equal) return Option.some(options.reverse ? ordering.value.reverse() : ordering.value);
+    }
+    return Option.some(Ordering.Equal);
+}
+
+/** Feature flag for enabling `partialCmp()` and the comparison operators; requires PartialEq. */
+export const PartialOrd = "PartialOrd" as const;
+/** Feature flag for enabling `cmp()`, `min()`, `max()` and `clamp()`; requires PartialOrd and Eq. */
+export const Ord = "Ord" as const;
+
+/**
+ * Interface for classes with PartialOrd feature.
+ */
+export interface PartiallyOrdered {
+    /** Compares field by field in declaration order; None if a field pair is unordered. */
+    partialCmp(other: this): Option<Ordering>;
+    lt(other: this): boolean;
+    le(other: this): boolean;
+    gt(other: this): boolean;
+    ge(other: this): boolean;
+}
+
+/**
+ * Interface for classes with Ord feature.
+ */
+export interface Ordered {
+    cmp(other: this): Ordering;
+    /** The greater of the two, `other` if they are equal. */
+    max(other: this): this;
+    /** The lesser of the two, `this` if they are equal. */
+    min(other: this): this;
+    /** `min` if this is less than it, `max` if greater, otherwise this. */
+    clamp(min: this, max: this): this;
+}
+
+declare module "../derive" {
+    interface DeriveFeatures {
+        PartialOrd: { instance: PartiallyOrdered; static: {} };
+        Ord: { instance: Ordered; static: {} };
+    }
+}
+
+// PartialOrd plugin with type definition
+const partialOrdPlugin: DerivePlugin = {
+    feature: PartialOrd,
+    requires: [PartialEq],
+    extendPrototype: (prototype) => {
+        defineMethod(prototype, "partialCmp", function (this: any, other: unknown): Option<Ordering> {
+            return compareFields(this, other);
+        });
+        const operators: [string, (ordering: Ordering) => boolean][] = [
+            ["lt", (ordering) => ordering.isLt()],
+            ["le", (ordering) => ordering.isLe()],
+            ["gt", (ordering) => ordering.isGt()],
+            ["ge", (ordering) => ordering.isGe()],
+        ];
+        for (const [name, test] of operators) {
+            defineMethod(prototype, name, function (this: any, other: unknown): boolean {
+                return this.partialCmp(other).ifSome(test, () => false);
+            });
+        }
+    },
+};
+
+// Ord plugin with type definition
+const ordPlugin: DerivePlugin = {
+    feature: Ord,
+    requires: [PartialOrd, Eq],
+    extendPrototype: (prototype) => {
+        defineMethod(prototype, "cmp", function (this: any, other: unknown): Ordering {
+            const ordering: Option<Ordering> = this.partialCmp(other);
+            if (!ordering.isSome()) throw new TypeError(`Cannot order ${this.constructor.name} values`);
+            return ordering.value;
+        });
+        defineMethod(prototype, "max", function (this: any, other: unknown): unknown {
+            return this.cmp(other).isGt() ? this : other;
+        });
+        defineMethod(prototype, "min", function (this: any, other: unknown): unknown {
+            return this.cmp(other).isGt() ? other : this;
+        });
+        defineMethod(prototype, "clamp", function (this: any, min: any, max: any): unknown {
+            if (min.cmp(max).isGt()) throw new RangeError("clamp: min must not be greater than max");
+            if (this.cmp(min).isLt()) return min;
+            if (this.cmp(max).isGt()) return max;
+            return this;
+        });
+    },
+};
+
+// Register plugins with derive
+registerPlugin(partialOrdPlugin);
+registerPlugin(ordPlugin);
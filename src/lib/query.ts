@@ -0,0 +1,83 @@
+import { DataFormat, deserializeFrom, registerFormat, serializeTo } from "./format";
+
+function flatten(prefix: string, value: unknown, pairs: [string, string][]): void {
+    if (value === null || value === undefined) return;
+    if (Array.isArray(value)) {
+        value.forEach((item, i) => flatten(`${prefix}[${i}]`, item, pairs));
+    } else if (typeof value === "object") {
+        for (const [key, item] of Object.entries(value)) {
+            flatten(prefix ? `${prefix}[${key}]` : key, item, pairs);
+        }
+    } else {
+        pairs.push([prefix, `${value}`]);
+    }
+}
+
+// Splits `a[b][0]` into `["a", "b", "0"]`; keys without brackets are a single segment.
+function parseKey(key: string): string[] {
+    const match = /^([^[\]]*)((?:\[[^\]]*\])*)$/.exec(key);
+    if (!match || !match[1]) return [key];
+    return [match[1], ...Array.from(match[2].matchAll(/\[([^\]]*)\]/g), (m) => m[1])];
+}
+
+// Reads own properties only, so inherited members (e.g. of arrays) are never merged into.
+function ownValue(target: any, key: PropertyKey): any {
+    return Object.prototype.hasOwnProperty.call(target, key) ? target[key] : undefined;
+}
+
+// Defines `__proto__` as an ordinary field instead of running its setter (arrays still have one).
+function setOwn(target: any, key: PropertyKey, value: unknown): void {
+    if (key !== "__proto__") target[key] = value;
+    else Object.defineProperty(target, key, { value, writable: true, enumerable: true, configurable: true });
+}
+
+function assign(target: any, segments: string[], value: string): void {
+    const [segment, ...rest] = segments;
+    const key = segment === "" && Array.isArray(target) ? target.length : segment;
+    const current = ownValue(target, key);
+    if (rest.length === 0) {
+        setOwn(target, key, current !== undefined && !Array.isArray(target) ? ([] as string[]).concat(current, value) : value);
+        return;
+    }
+    if (current === undefined || typeof current !== "object") {
+        setOwn(target, key, rest[0] === "" || /^\d+$/.test(rest[0]) ? [] : Object.create(null));
+    }
+    assign(target[key], rest, value);
+}
+
+/**
+ * URL-encoded query string format with nested keys, e.g. `address[zip]=1&items[0][name]=a`.
+ * Repeated keys and `key[]` become arrays; `null` values are omitted.
+ */
+export const QueryString: DataFormat<string> = {
+    name: "query",
+    stringValues: true,
+    serialize(data) {
+        const pairs: [string, string][] = [];
+        flatten("", data, pairs);
+        return new URLSearchParams(pairs).toString();
+    },
+    deserialize(input) {
+        const result: Record<string, any> = Object.create(null);
+        const params = new URLSearchParams(input.startsWith("?") ? input.slice(1) : input);
+        for (const [key, value] of params) assign(result, parseKey(key), value);
+        return result;
+    },
+};
+
+registerFormat(QueryString);
+
+/**
+ * Serializes a derived value to a URL-encoded query string.
+ */
+export function toQueryString(value: unknown): string {
+    return serializeTo(QueryString, value);
+}
+
+/**
+ * Deserializes a URL-encoded query string into an instance of a class deriving Deserialize,
+ * converting string values to the fields' types.
+ */
+export function fromQueryString<T>(constructor: new (...args: any[]) => T, query: string): T {
+    return deserializeFrom(constructor, QueryString, query) as T;
+}
@@ -1,6 +1,10 @@
 import "reflect-metadata";
-import { Option } from "../types";
+import { Option, Result } from "../types";
+import { EnumVariant } from "../enum";
+import { BinaryHeap, HashMap, HashSet, Vec, VecDeque } from "../collections";
 import { registerPlugin, DerivePlugin } from "../derive";
+import { joinPath } from "../utils";
+import { ValidationErrors, ValidationIssue, validateFields } from "./validate";
 
 // Metadata key for serde options
 export const METADATA_KEY = Symbol("serde_metadata");
@@ -8,8 +12,480 @@ export const METADATA_KEY = Symbol("serde_metadata");
 // Serde options interface
 interface SerdeOptions {
     rename?: string;
+    /** Additional input names accepted when deserializing. */
+    alias?: string | string[];
     default?: any | (() => any);
+    /** Leave the field out of both serialization and deserialization. */
+    skip?: boolean;
+    /** Leave the field out of serialization. */
+    skip_serializing?: boolean;
+    /** Leave the field out of serialization when the predicate returns true for its value. */
+    skip_serializing_if?: (value: any) => boolean;
+    /** Ignore the field's input when deserializing and keep its default. */
+    skip_deserializing?: boolean;
+    /** Serializes the field; an Option field's payload (or `null`) is passed instead of the Option. */
     serialize_with?: (value: any) => any;
+    /** Deserializes the field from its input; for an Option field the result is wrapped in `Some`. */
+    deserialize_with?: (data: any) => any;
+    /**
+     * Inline the fields of a nested struct into the parent. A flattened `Map` or plain object field
+     * collects every input key that no other field claims.
+     */
+    flatten?: boolean;
+    /**
+     * The field's type when `design:type` is not enough (interfaces, enums, `Option<Address>`).
+     * For `Option`, `Array`, `Set` and `Map` fields a non-container type is taken as the element type.
+     */
+    type?: () => any;
+    /** The element type of an `Array`, `Set`, `Map` (values), `Option` or `Result` (Ok) field. */
+    items?: () => any;
+    /** The key type of a `Map` or `HashMap` field. */
+    keys?: () => any;
+    /** The error type of a `Result` field. */
+    error?: () => any;
+    /** Makes `tryDeserialize` report the field when it is missing from the input. */
+    required?: boolean;
+}
+
+// Metadata key for class-level serde options
+export const CONTAINER_METADATA_KEY = Symbol("serde_container_metadata");
+
+/** Naming conventions for `rename_all`, applied to camelCase field names. */
+export type RenameRule =
+    | "lowercase"
+    | "UPPERCASE"
+    | "PascalCase"
+    | "camelCase"
+    | "snake_case"
+    | "SCREAMING_SNAKE_CASE"
+    | "kebab-case"
+    | "SCREAMING-KEBAB-CASE";
+
+// Class-level serde options interface
+interface SerdeContainerOptions {
+    /** Rename every field without an explicit `rename` according to a naming convention. */
+    rename_all?: RenameRule;
+    /** Reject input keys that do not map to a field (reported by `tryDeserialize`, dropped by `deserialize`). */
+    deny_unknown_fields?: boolean;
+    /**
+     * Take missing fields from a default instance instead of reporting them as missing:
+     * `true` keeps the class's own initializers, a function supplies the instance to copy from.
+     */
+    default?: boolean | (() => any);
+    /**
+     * For a base class with `@serdeVariant` subclasses: the field holding the variant name.
+     * Alone it selects the internally tagged form `{ tag: "Click", ...fields }`.
+     */
+    tag?: string;
+    /** Together with `tag`, selects the adjacently tagged form `{ tag: "Click", content: { ...fields } }`. */
+    content?: string;
+    /** Write variants without a tag; deserialize picks the first variant the input fits. */
+    untagged?: boolean;
+    /**
+     * Check the `@validate` rules after `deserialize`, `tryDeserialize` and `from`: the first and last
+     * throw a `ValidationErrors`, `tryDeserialize` reports the violations as issues.
+     */
+    validate?: boolean;
+}
+
+// Metadata key for the subclasses registered on a base class with `serdeVariant`
+export const VARIANTS_METADATA_KEY = Symbol("serde_variants_metadata");
+
+function renameField(name: string, rule: RenameRule | undefined): string {
+    if (!rule) return name;
+    const words = name.split(/[_\-\s]+|(?<=[a-z0-9])(?=[A-Z])/).filter(Boolean).map((w) => w.toLowerCase());
+    const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+    switch (rule) {
+        case "lowercase": return words.join("");
+        case "UPPERCASE": return words.join("").toUpperCase();
+        case "PascalCase": return words.map(capitalize).join("");
+        case "camelCase": return words.map((w, i) => (i === 0 ? w : capitalize(w))).join("");
+        case "snake_case": return words.join("_");
+        case "SCREAMING_SNAKE_CASE": return words.join("_").toUpperCase();
+        case "kebab-case": return words.join("-");
+        case "SCREAMING-KEBAB-CASE": return words.join("-").toUpperCase();
+    }
+}
+
+// A field of a derived class with its serialized name and the input names it accepts.
+interface FieldLayout {
+    key: string;
+    name: string;
+    inputs: string[];
+    options: SerdeOptions;
+}
+
+function fieldLayouts(instance: any): FieldLayout[] {
+    const metadata: Record<string, SerdeOptions> = Reflect.getMetadata(METADATA_KEY, instance) || {};
+    const container: SerdeContainerOptions = Reflect.getMetadata(CONTAINER_METADATA_KEY, instance.constructor) || {};
+    const keys = new Set([...Object.keys(instance), ...Object.keys(metadata)]);
+    return Array.from(keys, (key) => {
+        const options = metadata[key] || {};
+        const name = options.rename ?? renameField(key, container.rename_all);
+        return { key, name, inputs: [name, ...([] as string[]).concat(options.alias ?? [])], options };
+    });
+}
+
+function isRecordType(type: unknown): boolean {
+    return type === undefined || type === Object || type === Map;
+}
+
+// The input keys a derived class claims, including those of flattened fields; null if it takes any key.
+function claimedKeys(type: any): Set<string> | null {
+    const keys = new Set<string>();
+    if (typeof type !== "function" || typeof type.deserialize !== "function") return null;
+    const instance = new type();
+    for (const field of fieldLayouts(instance)) {
+        if (field.options.skip || field.options.skip_deserializing) continue;
+        if (field.options.flatten) {
+            const hint = fieldTypeHint(instance, field.key, field.options);
+            const nested = isRecordType(hint.type) ? null : claimedKeys(hint.type);
+            if (nested === null) return null;
+            nested.forEach((key) => keys.add(key));
+        } else {
+            field.inputs.forEach((key) => keys.add(key));
+        }
+    }
+    return keys;
+}
+
+// Resolved type information for a value: its constructor (or enum) and the element, Map key and
+// Result error types, if any.
+interface TypeHint {
+    type?: any;
+    items?: TypeHint;
+    keys?: TypeHint;
+    error?: TypeHint;
+}
+
+// Collections written as arrays; all but Array and Set are rebuilt with their static `from`.
+const SEQUENCES: unknown[] = [Array, Set, HashSet, Vec, VecDeque, BinaryHeap];
+
+function isSequence(value: unknown): value is Iterable<any> {
+    return Array.isArray(value) || SEQUENCES.some((type: any) => type !== Array && value instanceof type);
+}
+
+const CONTAINERS: unknown[] = [Option, Result, Map, HashMap, ...SEQUENCES];
+
+function resolveTypeHint(designType: any, options: SerdeOptions): TypeHint {
+    const declared = options.type?.();
+    const items = options.items ? { type: options.items() } : undefined;
+    const keys = options.keys ? { type: options.keys() } : undefined;
+    const error = options.error ? { type: options.error() } : undefined;
+    if (declared !== undefined && CONTAINERS.includes(designType) && !CONTAINERS.includes(declared)) {
+        return { type: designType, items: { type: declared }, keys, error };
+    }
+    return { type: declared ?? designType, items, keys, error };
+}
+
+function fieldTypeHint(instance: any, key: string, options: SerdeOptions): TypeHint {
+    return resolveTypeHint(Reflect.getMetadata("design:type", instance, key), options);
+}
+
+// Undecorated fields carry no `design:type`; text formats fall back to the type of the field's initial value.
+function initialValueHint(value: unknown): TypeHint {
+    const type = [...PRIMITIVES].find(([, name]) => typeof value === name)?.[0];
+    return { type: type ?? (value instanceof Option ? Option : undefined) };
+}
+
+/**
+ * Converts a value into plain data, recursing through nested derived classes, Options, Results,
+ * enums, arrays and the other sequences (Set, HashSet, Vec, VecDeque, BinaryHeap), Maps and HashMaps
+ * (as `[key, value]` entries), Dates (ISO strings) and bigints (strings).
+ */
+export function serializeValue(value: any): any {
+    if (value instanceof Option) return value.isSome() ? serializeValue(value.value) : null;
+    if (value instanceof Result) {
+        return value.isOk() ? { Ok: serializeValue(value.value) } : { Err: serializeValue(value.unwrapErr()) };
+    }
+    if (value instanceof EnumVariant) {
+        return value.payload === undefined ? value.variant : { [value.variant]: serializeValue(value.payload) };
+    }
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === "bigint") return value.toString();
+    if (isSequence(value)) return Array.from(value, serializeValue);
+    if (value instanceof Map || value instanceof HashMap) {
+        return Array.from(value as Iterable<[any, any]>, ([k, v]) => [serializeValue(k), serializeValue(v)]);
+    }
+    if (value !== null && typeof value === "object") {
+        if (typeof value.serialize === "function") return value.serialize();
+        if (Object.getPrototypeOf(value) === Object.prototype) {
+            const result: Record<string, any> = {};
+            for (const [key, item] of Object.entries(value)) result[key] = serializeValue(item);
+            return result;
+        }
+    }
+    return value;
+}
+
+/**
+ * A single problem found by `tryDeserialize`.
+ */
+export interface DeserializeIssue {
+    /** Path of the offending input field, e.g. `address.zip` or `items[0].name`. */
+    path: string;
+    /** Description of the expected type, e.g. `string` or `Address`. */
+    expected: string;
+    /** The input value that was received (`undefined` for missing fields). */
+    received: unknown;
+    message: string;
+}
+
+/**
+ * Error returned by `tryDeserialize`, listing every problem found in the input.
+ */
+export class DeserializeError extends Error {
+    constructor(readonly issues: DeserializeIssue[]) {
+        super(issues.map((issue) => `${issue.path || "<root>"}: ${issue.message}`).join("; "));
+        this.name = "DeserializeError";
+    }
+}
+
+/**
+ * Options accepted by `deserialize` and `tryDeserialize`.
+ */
+export interface DeserializeOptions {
+    /**
+     * Convert string input to the field's type (numbers, booleans, JSON-encoded containers, and
+     * empty strings to None), for text formats such as CSV and query strings.
+     */
+    coerce_strings?: boolean;
+}
+
+// Where a value sits in the input, and where to report problems. Without `issues` nothing is checked.
+interface DeserializeContext {
+    path: string;
+    issues?: DeserializeIssue[];
+    options?: DeserializeOptions;
+}
+
+const LENIENT: DeserializeContext = { path: "" };
+
+function childContext(ctx: DeserializeContext, segment: string): DeserializeContext {
+    return { ...ctx, path: joinPath(ctx.path, segment) };
+}
+
+function describe(value: unknown): string {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    return typeof value;
+}
+
+function report(ctx: DeserializeContext, expected: string, received: unknown, message?: string): void {
+    ctx.issues?.push({
+        path: ctx.path,
+        expected,
+        received,
+        message: message ?? `expected ${expected}, received ${describe(received)}`,
+    });
+}
+
+const PRIMITIVES = new Map<unknown, string>([
+    [String, "string"],
+    [Number, "number"],
+    [Boolean, "boolean"],
+    [BigInt, "bigint"],
+]);
+
+// Converts string input from text formats to the expected type where it unambiguously can.
+function coerceString(data: string, type: any): unknown {
+    if (type === Option) return data === "" ? null : data;
+    if (type === Number) return data.trim() !== "" && !isNaN(Number(data)) ? Number(data) : data;
+    if (type === Boolean) return data === "true" ? true : data === "false" ? false : data;
+    if (PRIMITIVES.has(type) || type === Date) return data;
+    if (/^\s*[[{"]/.test(data)) {
+        try {
+            return JSON.parse(data);
+        } catch {
+            return data;
+        }
+    }
+    return data;
+}
+
+function typeName(type: any): string {
+    if (PRIMITIVES.has(type)) return PRIMITIVES.get(type)!;
+    if (typeof type === "function") return type.name;
+    if (Array.isArray(type?.variants)) return `enum (${type.variants.join(" | ")})`;
+    return "unknown";
+}
+
+/**
+ * Rebuilds a typed value from plain data according to a type hint; the inverse of `serializeValue`.
+ * Nested types with a static `deserialize` (derived classes, enums) are rebuilt with it, or with
+ * `from` when converting from another object. Values that already have the target type are kept.
+ * When the context collects issues, type mismatches are reported instead of passed through.
+ */
+function deserializeValue(
+    data: any,
+    hint: TypeHint | undefined,
+    method: "deserialize" | "from",
+    ctx: DeserializeContext = LENIENT
+): any {
+    const type = hint?.type;
+    if (type === undefined || type === Object) return data;
+    if (ctx.options?.coerce_strings && typeof data === "string") data = coerceString(data, type);
+    if (type === Option) {
+        if (data instanceof Option) return data;
+        return data === null || data === undefined
+            ? Option.none()
+            : Option.some(deserializeValue(data, hint?.items, method, ctx));
+    }
+    if (data === null || data === undefined) {
+        report(ctx, typeName(type), data);
+        return data;
+    }
+    if (type === Result) {
+        if (data instanceof Result) return data;
+        if (typeof data !== "object" || !("Ok" in data || "Err" in data)) {
+            report(ctx, "Result", data);
+            return data;
+        }
+        return "Err" in data
+            ? Result.err(deserializeValue(data.Err, hint?.error, method, childContext(ctx, "Err")))
+            : Result.ok(deserializeValue(data.Ok, hint?.items, method, childContext(ctx, "Ok")));
+    }
+    // Containers are rebuilt even from instances of themselves so their items get converted.
+    if (SEQUENCES.includes(type)) {
+        if (!isSequence(data)) {
+            report(ctx, "array", data);
+            return data;
+        }
+        const items = Array.from(data, (item, i) =>
+            deserializeValue(item, hint?.items, method, childContext(ctx, `[${i}]`))
+        );
+        return type === Array ? items : type === Set ? new Set(items) : type.from(items);
+    }
+    if (type === Map || type === HashMap) {
+        if (typeof data !== "object") {
+            report(ctx, "map", data);
+            return data;
+        }
+        const entries: [any, any][] = Array.isArray(data) || data instanceof Map || data instanceof HashMap
+            ? Array.from(data as Iterable<[any, any]>)
+            : Object.entries(data);
+        const converted = entries.map(([k, v]): [any, any] => {
+            const entryCtx = childContext(ctx, `${k}`);
+            return [deserializeValue(k, hint?.keys, method, entryCtx), deserializeValue(v, hint?.items, method, entryCtx)];
+        });
+        return type === Map ? new Map(converted) : new HashMap(converted);
+    }
+    if (typeof type === "function" && !PRIMITIVES.has(type) && data instanceof type) return data;
+    if (data instanceof EnumVariant) return data;
+    if (type === Date) {
+        const date = new Date(data);
+        if ((typeof data !== "string" && typeof data !== "number") || isNaN(date.getTime())) {
+            report(ctx, "Date", data);
+        }
+        return date;
+    }
+    if (type === BigInt) {
+        try {
+            return BigInt(data);
+        } catch (error) {
+            if (!ctx.issues) throw error;
+            report(ctx, "bigint", data);
+            return data;
+        }
+    }
+    if (PRIMITIVES.has(type)) {
+        if (typeof data !== typeName(type)) report(ctx, typeName(type), data);
+        return data;
+    }
+    if (ctx.issues && method === "deserialize" && typeof type.tryDeserialize === "function") {
+        const result: Result<any, DeserializeError> = type.tryDeserialize(data, ctx.options);
+        if (result.isOk()) return result.value;
+        for (const issue of result.unwrapErr().issues) {
+            ctx.issues.push({ ...issue, path: joinPath(ctx.path, issue.path) });
+        }
+        return data;
+    }
+    const build = typeof type[method] === "function" ? type[method] : type.deserialize;
+    if (typeof build !== "function") return data;
+    try {
+        return build.call(type, data, ctx.options);
+    } catch (error) {
+        if (!ctx.issues) throw error;
+        report(ctx, typeName(type), data);
+        return data;
+    }
+}
+
+function deserializeField(instance: any, field: FieldLayout, data: any, ctx: DeserializeContext): any {
+    const hint = fieldTypeHint(instance, field.key, field.options);
+    const deserializeWith = field.options.deserialize_with;
+    if (!deserializeWith) {
+        const fallback = hint.type === undefined && ctx.options?.coerce_strings ? initialValueHint(instance[field.key]) : hint;
+        return deserializeValue(data, fallback, "deserialize", ctx);
+    }
+    if (hint.type !== Option) return deserializeWith(data);
+    return data === null || data === undefined ? Option.none() : Option.some(deserializeWith(data));
+}
+
+/**
+ * Builds an instance of a derived class from plain data, honoring `@serde` and `@serdeContainer` options.
+ */
+function deserializeObject(constructor: any, data: any, ctx: DeserializeContext, polymorphic = true): any {
+    const variants: Map<string, any> | undefined = Reflect.getOwnMetadata(VARIANTS_METADATA_KEY, constructor);
+    if (polymorphic && variants && variants.size > 0) return deserializeTagged(constructor, variants, data, ctx);
+    const instance = new constructor();
+    if (data === null || typeof data !== "object" || Array.isArray(data)) {
+        report(ctx, typeName(constructor), data);
+        return instance;
+    }
+    const container: SerdeContainerOptions = Reflect.getMetadata(CONTAINER_METADATA_KEY, constructor) || {};
+    const layouts = fieldLayouts(instance);
+    const fields = layouts.filter((field) => !field.options.skip && !field.options.skip_deserializing);
+    const byInput = new Map<string, FieldLayout>();
+    for (const field of fields) {
+        if (!field.options.flatten) field.inputs.forEach((input) => byInput.set(input, field));
+    }
+
+    const present = new Set<string>();
+    let rest: [string, any][] = [];
+    for (const [key, value] of Object.entries(data)) {
+        const field = byInput.get(key);
+        if (!field) {
+            rest.push([key, value]);
+            continue;
+        }
+        present.add(field.key);
+        instance[field.key] = deserializeField(instance, field, value, childContext(ctx, key));
+    }
+
+    for (const field of fields.filter((f) => f.options.flatten)) {
+        const hint = fieldTypeHint(instance, field.key, field.options);
+        const claimed = isRecordType(hint.type) ? null : claimedKeys(hint.type);
+        const taken = rest.filter(([key]) => claimed === null || claimed.has(key));
+        rest = rest.filter(([key]) => claimed !== null && !claimed.has(key));
+        present.add(field.key);
+        instance[field.key] = hint.type === Map
+            ? deserializeValue(taken, hint, "deserialize", ctx)
+            : deserializeValue(Object.fromEntries(taken), hint, "deserialize", ctx);
+    }
+
+    const declared = new Set(layouts.map((field) => field.key));
+    for (const [key, value] of rest) {
+        if (container.deny_unknown_fields) {
+            report(childContext(ctx, key), "no field", value, `unknown field \`${key}\``);
+        } else if (!declared.has(key) && !(key in instance)) {
+            // Keys naming inherited members (`constructor`, `__proto__`, methods) are dropped rather than
+            // shadowing them, and the rest are defined so no setter runs.
+            Object.defineProperty(instance, key, { value, writable: true, enumerable: true, configurable: true });
+        }
+    }
+
+    const defaults = typeof container.default === "function" ? container.default() : undefined;
+    for (const field of fields) {
+        if (present.has(field.key)) continue;
+        if (defaults !== undefined) {
+            instance[field.key] = defaults[field.key];
+        } else if (field.options.required && !container.default) {
+            const expected = typeName(fieldTypeHint(instance, field.key, field.options).type ?? Object);
+            report(childContext(ctx, field.name), expected, undefined, `missing field \`${field.name}\``);
+        }
+    }
+    return instance;
 }
 
 /**
@@ -17,12 +493,127 @@ interface SerdeOptions {
  */
 export function serde(options: SerdeOptions = {}) {
     return function (target: any, propertyKey: string) {
-        const metadata = Reflect.getMetadata(METADATA_KEY, target) || {};
+        // Copy so that fields declared on a subclass don't leak into its base class's metadata.
+        const metadata = { ...Reflect.getMetadata(METADATA_KEY, target) };
         metadata[propertyKey] = options;
         Reflect.defineMetadata(METADATA_KEY, metadata, target);
     };
 }
 
+/**
+ * Decorator to configure serialization/deserialization behavior for a whole class.
+ */
+export function serdeContainer(options: SerdeContainerOptions = {}) {
+    return function (target: any) {
+        Reflect.defineMetadata(CONTAINER_METADATA_KEY, options, target);
+    };
+}
+
+/**
+ * Decorator registering a subclass as a variant of its base class under a tag value (the class name
+ * by default). The base class's `deserialize` then builds the subclass named by the input's tag, and
+ * `serialize` writes the tag in the representation chosen with `@serdeContainer` on the base class:
+ * externally tagged `{ "Click": { ...fields } }` unless `tag`, `content` or `untagged` is set.
+ */
+export function serdeVariant(name?: string) {
+    return function (target: any) {
+        const base = Object.getPrototypeOf(target);
+        const variants: Map<string, any> = Reflect.getOwnMetadata(VARIANTS_METADATA_KEY, base) || new Map();
+        variants.set(name ?? target.name, target);
+        Reflect.defineMetadata(VARIANTS_METADATA_KEY, variants, base);
+    };
+}
+
+// Finds the base class an instance's class (or one of its ancestors) is registered on, with its tag.
+function variantOf(constructor: any): { base: any; tag: string } | undefined {
+    for (let current = constructor; current && current !== Function.prototype; current = Object.getPrototypeOf(current)) {
+        const base = Object.getPrototypeOf(current);
+        const variants: Map<string, any> | undefined = Reflect.getOwnMetadata(VARIANTS_METADATA_KEY, base);
+        const entry = variants && Array.from(variants).find(([, variant]) => variant === current);
+        if (entry) return { base, tag: entry[0] };
+    }
+    return undefined;
+}
+
+function writeTagged(instance: any, fields: Record<string, any>): Record<string, any> {
+    const variant = variantOf(instance.constructor);
+    if (!variant) return fields;
+    const container: SerdeContainerOptions = Reflect.getMetadata(CONTAINER_METADATA_KEY, variant.base) || {};
+    if (container.untagged) return fields;
+    if (container.tag && container.content) return { [container.tag]: variant.tag, [container.content]: fields };
+    if (container.tag) return { [container.tag]: variant.tag, ...fields };
+    return { [variant.tag]: fields };
+}
+
+// Builds the variant named by the input's tag, or for untagged bases the first variant the input fits.
+function deserializeTagged(base: any, variants: Map<string, any>, data: any, ctx: DeserializeContext): any {
+    const container: SerdeContainerOptions = Reflect.getMetadata(CONTAINER_METADATA_KEY, base) || {};
+    const names = Array.from(variants.keys());
+    const expected = `one of ${names.map((name) => `\`${name}\``).join(", ")}`;
+
+    if (container.untagged) {
+        for (const variant of variants.values()) {
+            const issues: DeserializeIssue[] = [];
+            const instance = deserializeObject(variant, data, { ...ctx, issues });
+            if (issues.length === 0) return instance;
+        }
+        report(ctx, typeName(base), data, `data did not match any variant of untagged ${base.name}`);
+        return deserializeObject(base, data, { ...ctx, issues: undefined }, false);
+    }
+
+    let tag: unknown;
+    let fields: any;
+    let fieldsCtx = ctx;
+    if (container.tag) {
+        if (data === null || typeof data !== "object" || Array.isArray(data)) {
+            report(ctx, typeName(base), data);
+            return deserializeObject(base, {}, ctx, false);
+        }
+        const { [container.tag]: value, ...rest } = data;
+        tag = value;
+        if (container.content) {
+            fields = data[container.content] ?? {};
+            fieldsCtx = childContext(ctx, container.content);
+        } else {
+            fields = rest;
+        }
+        if (tag === undefined) {
+            report(childContext(ctx, container.tag), expected, undefined, `missing field \`${container.tag}\``);
+            return deserializeObject(base, fields, fieldsCtx, false);
+        }
+    } else if (typeof data === "string") {
+        tag = data;
+        fields = {};
+    } else if (data !== null && typeof data === "object" && !Array.isArray(data) && Object.keys(data).length === 1) {
+        tag = Object.keys(data)[0];
+        fields = data[tag as string];
+        fieldsCtx = childContext(ctx, tag as string);
+    } else {
+        report(ctx, typeName(base), data);
+        return deserializeObject(base, {}, ctx, false);
+    }
+
+    const variant = typeof tag === "string" ? variants.get(tag) : undefined;
+    if (!variant) {
+        const path = container.tag ? childContext(ctx, container.tag) : ctx;
+        report(path, expected, tag, `unknown variant \`${tag}\`, expected ${expected}`);
+        return deserializeObject(base, fields, fieldsCtx, false);
+    }
+    return deserializeObject(variant, fields, fieldsCtx);
+}
+
+// The `@validate` violations of a freshly deserialized instance whose class opted in with `validate`.
+function validationIssues(instance: any): ValidationIssue[] {
+    const container: SerdeContainerOptions = Reflect.getMetadata(CONTAINER_METADATA_KEY, instance.constructor) || {};
+    return container.validate ? validateFields(instance) : [];
+}
+
+function checked<T>(instance: T): T {
+    const issues = validationIssues(instance);
+    if (issues.length > 0) throw new ValidationErrors(issues);
+    return instance;
+}
+
 /** Feature flag for enabling serialization. */
 export const Serialize = "Serialize" as const;
 /** Feature flag for enabling deserialization. */
@@ -39,8 +630,16 @@ export interface Serializable {
  * Interface for classes with Deserialize feature.
  */
 export interface Deserializable {
-    deserialize(data: Record<string, any>): any;
-    from(source: any): any;
+    deserialize<T>(this: new (...args: any[]) => T, data: Record<string, any>, options?: DeserializeOptions): T;
+    tryDeserialize<T>(this: new (...args: any[]) => T, data: unknown, options?: DeserializeOptions): Result<T, DeserializeError>;
+    from<T>(this: new (...args: any[]) => T, source: any): T;
+}
+
+declare module "../derive" {
+    interface DeriveFeatures {
+        Serialize: { instance: Serializable; static: {} };
+        Deserialize: { instance: {}; static: Deserializable };
+    }
 }
 
 // Serialize plugin with type definition
@@ -49,28 +648,29 @@ const serializePlugin: DerivePlugin = {
     extendPrototype: (prototype) => {
         Object.defineProperty(prototype, "serialize", {
             value: function (): Record<string, any> {
-                const metadata = Reflect.getMetadata(METADATA_KEY, this) || {};
                 const result: Record<string, any> = {};
 
-                const keys = Object.keys(this);
-                for (const key of keys) {
-                    const options = metadata[key] || {};
+                for (const { key, name, options } of fieldLayouts(this)) {
                     const value = (this as any)[key];
-                    const newKey = options.rename || key;
+                    if (options.skip || options.skip_serializing || options.skip_serializing_if?.(value)) continue;
 
-                    const unwrappedValue =
-                        value instanceof Option ? value.unwrapOr(null) : value;
-                    result[newKey] = options.serialize_with
-                        ? options.serialize_with(unwrappedValue)
-                        : unwrappedValue;
+                    if (options.flatten) {
+                        const nested = value instanceof Map
+                            ? Object.fromEntries(Array.from(value, ([k, v]) => [k, serializeValue(v)]))
+                            : serializeValue(value);
+                        if (nested !== null && typeof nested === "object") Object.assign(result, nested);
+                        continue;
+                    }
+                    result[name] = options.serialize_with
+                        ? options.serialize_with(value instanceof Option ? value.unwrapOr(null) : value)
+                        : serializeValue(value);
                 }
-                return result;
+                return writeTagged(this, result);
             },
             writable: true,
             configurable: true,
         });
     },
-    instanceType: { serialize: (): Record<string, any> => ({} as any) },
 };
 
 // Deserialize plugin with type definition
@@ -78,34 +678,23 @@ const deserializePlugin: DerivePlugin = {
     feature: Deserialize,
     extendConstructor: (constructor) => {
         Object.defineProperty(constructor, "deserialize", {
-            value: function (data: Record<string, any>): any {
-                const instance = new this();
-                const metadata = Reflect.getMetadata(METADATA_KEY, instance) || {};
+            value: function (data: Record<string, any>, options?: DeserializeOptions): any {
+                return checked(deserializeObject(this, data, { path: "", options }));
+            },
+            writable: true,
+            configurable: true,
+        });
 
-                for (const [key, value] of Object.entries(data)) {
-                    const options = Object.values(metadata).find(
-                        (opt: any) => opt.rename === key
-                    ) as any;
-                    const targetKey =
-                        options && options.rename
-                            ? Object.keys(metadata).find(
-                                (k) => metadata[k].rename === key
-                            )
-                            : key;
-
-                    if (targetKey) {
-                        const propType = Reflect.getMetadata(
-                            "design:type",
-                            instance,
-                            targetKey
-                        );
-                        (instance as any)[targetKey] =
-                            propType === Option && value !== null
-                                ? Option.some(value)
-                                : value;
+        Object.defineProperty(constructor, "tryDeserialize", {
+            value: function (data: unknown, options?: DeserializeOptions): Result<any, DeserializeError> {
+                const issues: DeserializeIssue[] = [];
+                const instance = deserializeObject(this, data, { path: "", issues, options });
+                if (issues.length === 0) {
+                    for (const { path, constraint, value, message } of validationIssues(instance)) {
+                        issues.push({ path, expected: constraint, received: value, message });
                     }
                 }
-                return instance;
+                return issues.length > 0 ? Result.err(new DeserializeError(issues)) : Result.ok(instance);
             },
             writable: true,
             configurable: true,
@@ -114,21 +703,15 @@ const deserializePlugin: DerivePlugin = {
         Object.defineProperty(constructor, "from", {
             value: function (source: any): any {
                 const instance = new this();
+                const metadata = Reflect.getMetadata(METADATA_KEY, instance) || {};
                 for (const key of Object.keys(source)) {
-                    if (key in instance) {
-                        const propType = Reflect.getMetadata(
-                            "design:type",
-                            instance,
-                            key
-                        );
-                        const value = source[key];
-                        (instance as any)[key] =
-                            propType === Option && value !== null
-                                ? Option.some(value)
-                                : value;
+                    const options: SerdeOptions = metadata[key] || {};
+                    if (key in instance && !options.skip && !options.skip_deserializing) {
+                        const hint = fieldTypeHint(instance, key, metadata[key] || {});
+                        (instance as any)[key] = deserializeValue(source[key], hint, "from");
                     }
                 }
-                return instance;
+                return checked(instance);
             },
             writable: true,
             configurable: true,
@@ -149,10 +732,6 @@ const deserializePlugin: DerivePlugin = {
             }
         }
     },
-    constructorType: {
-        deserialize: (data: Record<string, any>): any => ({} as any),
-        from: (source: any): any => ({} as any),
-    },
 };
 
 // Register plugins with derive
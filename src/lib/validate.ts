@@ -0,0 +1,195 @@
+import "reflect-metadata";
+import { Option, Result } from "../types";
+import { registerPlugin, DerivePlugin } from "../derive";
+import { joinPath } from "../utils";
+
+// Metadata key for validation rules
+export const VALIDATE_METADATA_KEY = Symbol("validate_metadata");
+
+/** Bounds for `length`: an exact length, or an inclusive range with either end optional. */
+export type LengthRule = number | { min?: number; max?: number };
+
+// Validation options interface
+interface ValidateOptions {
+    /** Smallest allowed value (numbers, bigints or Dates), inclusive. */
+    min?: number | bigint | Date;
+    /** Largest allowed value (numbers, bigints or Dates), inclusive. */
+    max?: number | bigint | Date;
+    /** Allowed length of a string, array, Set or Map. */
+    length?: LengthRule;
+    /** Regular expression a string must match. */
+    pattern?: RegExp;
+    /** The string must be an email address. */
+    email?: boolean;
+    /** The string must be an absolute URL. */
+    url?: boolean;
+    /**
+     * Custom check receiving the value and the instance: return `true` if valid,
+     * or `false`/an error message otherwise.
+     */
+    custom?: (value: any, instance: any) => boolean | string;
+    /** Validate the value (or each element of an array, Set, Map or Option) with its own rules. */
+    nested?: boolean;
+}
+
+/**
+ * A single constraint violation found by `validate()`.
+ */
+export interface ValidationIssue {
+    /** Path of the offending field, e.g. `email` or `items[0].name`. */
+    path: string;
+    /** The rule that failed: `min`, `max`, `length`, `pattern`, `email`, `url` or `custom`. */
+    constraint: string;
+    message: string;
+    value: unknown;
+}
+
+/**
+ * Error returned by `validate()`, listing every constraint violation.
+ */
+export class ValidationErrors extends Error {
+    constructor(readonly issues: ValidationIssue[]) {
+        super(issues.map((issue) => `${issue.path || "<root>"}: ${issue.message}`).join("; "));
+        this.name = "ValidationErrors";
+    }
+}
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function sizeOf(value: unknown): number | undefined {
+    if (typeof value === "string") return Array.from(value).length;
+    if (Array.isArray(value)) return value.length;
+    if (value instanceof Set || value instanceof Map) return value.size;
+    return undefined;
+}
+
+function describeLength(rule: LengthRule): string {
+    if (typeof rule === "number") return `exactly ${rule}`;
+    if (rule.min !== undefined && rule.max !== undefined) return `between ${rule.min} and ${rule.max}`;
+    return rule.min !== undefined ? `at least ${rule.min}` : `at most ${rule.max}`;
+}
+
+function isUrl(value: string): boolean {
+    try {
+        return /^[a-z][a-z\d+.-]*:/i.test(value) && new URL(value).host !== "";
+    } catch {
+        return false;
+    }
+}
+
+// Checks one value against one rule set, returning [constraint, message] for each failure.
+function checkRules(value: unknown, rules: ValidateOptions, instance: unknown): [string, string][] {
+    const failures: [string, string][] = [];
+    if (rules.custom) {
+        const outcome = rules.custom(value, instance);
+        if (outcome !== true) failures.push(["custom", typeof outcome === "string" ? outcome : "is invalid"]);
+    }
+    if (value === null || value === undefined) return failures;
+
+    const comparable = value instanceof Date ? value.getTime() : value;
+    const bound = (limit: number | bigint | Date) => (limit instanceof Date ? limit.getTime() : limit);
+    const format = (limit: number | bigint | Date) => (limit instanceof Date ? limit.toISOString() : `${limit}`);
+    if (rules.min !== undefined && (comparable as any) < bound(rules.min)) {
+        failures.push(["min", `must be at least ${format(rules.min)}`]);
+    }
+    if (rules.max !== undefined && (comparable as any) > bound(rules.max)) {
+        failures.push(["max", `must be at most ${format(rules.max)}`]);
+    }
+    if (rules.length !== undefined) {
+        const size = sizeOf(value);
+        const rule = rules.length;
+        const valid = size !== undefined && (typeof rule === "number"
+            ? size === rule
+            : (rule.min === undefined || size >= rule.min) && (rule.max === undefined || size <= rule.max));
+        if (!valid) failures.push(["length", `length must be ${describeLength(rule)}`]);
+    }
+    if (rules.pattern && (typeof value !== "string" || !new RegExp(rules.pattern.source, rules.pattern.flags).test(value))) {
+        failures.push(["pattern", `must match ${rules.pattern}`]);
+    }
+    if (rules.email && (typeof value !== "string" || !EMAIL.test(value))) {
+        failures.push(["email", "must be a valid email address"]);
+    }
+    if (rules.url && (typeof value !== "string" || !isUrl(value))) {
+        failures.push(["url", "must be a valid URL"]);
+    }
+    return failures;
+}
+
+// Validates a nested value, or each element of a container, prefixing the issues with `path`.
+function validateNested(value: unknown, path: string, issues: ValidationIssue[]): void {
+    if (value instanceof Option) {
+        if (value.isSome()) validateNested(value.value, path, issues);
+    } else if (Array.isArray(value) || value instanceof Set) {
+        Array.from(value).forEach((item, i) => validateNested(item, `${path}[${i}]`, issues));
+    } else if (value instanceof Map) {
+        for (const [key, item] of value) validateNested(item, `${path}[${key}]`, issues);
+    } else if (value !== null && typeof value === "object") {
+        issues.push(...validateFields(value, path));
+    }
+}
+
+/**
+ * Checks every `@validate` rule of an object, returning the violations with paths prefixed by `path`.
+ * Option fields are checked only when they hold a value; null and undefined only fail `custom` rules.
+ */
+export function validateFields(instance: object, path: string = ""): ValidationIssue[] {
+    const metadata: Record<string, ValidateOptions[]> = Reflect.getMetadata(VALIDATE_METADATA_KEY, instance) || {};
+    const issues: ValidationIssue[] = [];
+    for (const [key, ruleSets] of Object.entries(metadata)) {
+        const field: unknown = (instance as any)[key];
+        const value = field instanceof Option ? field.toNullable() : field;
+        const fieldPath = joinPath(path, key);
+        for (const rules of ruleSets) {
+            for (const [constraint, message] of checkRules(value, rules, instance)) {
+                issues.push({ path: fieldPath, constraint, message, value });
+            }
+            if (rules.nested) validateNested(field, fieldPath, issues);
+        }
+    }
+    return issues;
+}
+
+/**
+ * Decorator adding validation rules to a property; repeated decorators add up.
+ */
+export function validate(options: ValidateOptions) {
+    return function (target: any, propertyKey: string) {
+        const metadata = { ...Reflect.getMetadata(VALIDATE_METADATA_KEY, target) };
+        metadata[propertyKey] = [...(metadata[propertyKey] ?? []), options];
+        Reflect.defineMetadata(VALIDATE_METADATA_KEY, metadata, target);
+    };
+}
+
+/** Feature flag for enabling `validate()`. */
+export const Validate = "Validate" as const;
+
+/**
+ * Interface for classes with Validate feature.
+ */
+export interface Validatable {
+    validate(): Result<this, ValidationErrors>;
+}
+
+declare module "../derive" {
+    interface DeriveFeatures {
+        Validate: { instance: Validatable; static: {} };
+    }
+}
+
+// Validate plugin with type definition
+const validatePlugin: DerivePlugin = {
+    feature: Validate,
+    extendPrototype: (prototype) => {
+        Object.defineProperty(prototype, "validate", {
+            value: function (): Result<any, ValidationErrors> {
+                const issues = validateFields(this);
+                return issues.length > 0 ? Result.err(new ValidationErrors(issues)) : Result.ok(this);
+            },
+            writable: true,
+            configurable: true,
+        });
+    },
+};
+
+// Register plugin with derive
+registerPlugin(validatePlugin);
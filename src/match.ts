@@ -1,34 +1,75 @@
 import { Option, Result } from "./types";
+import { OptionAsync, ResultAsync } from "./async";
+import { EnumVariant } from "./enum";
+import {
+    Bind, Covered, ErrPayload, Literal, MatchPattern, matchPattern,
+    OkPayload, OptionPayload, VariantName, VariantPayload,
+} from "./pattern";
+
+/**
+ * The cases a match has to handle to be exhaustive: `"Some" | "None"` for Options,
+ * `"Ok" | "Err"` for Results, variant names for enums and the value type itself otherwise.
+ */
+export type Cases<V> =
+    [V] extends [Option<any>] ? "Some" | "None" :
+    [V] extends [Result<any, any>] ? "Ok" | "Err" :
+    V extends EnumVariant<infer K, any> ? K :
+    V;
+
+/** A pattern accepted by `Match.with`: a literal value or a pattern built with `P`. */
+export type PatternLike = Literal | MatchPattern<any, any>;
+
+type Guard<T> = (value: T) => boolean;
 
 /**
  * A fluent matcher for Option and Result types, simplifying pattern matching.
  * Inspired by Rust's `match` with a chainable API for ease of use.
+ *
+ * The type tracks which cases are still unhandled (`Rest`), so `exhaustive()` only compiles
+ * once every case has an unguarded arm. `U` constrains what arms may return and `Out` is the
+ * union of what they actually return.
  */
-export class Match<T, U> {
-    private constructor(
-        private value: Option<T> | Result<T, any>,
-        private result?: U
-    ) { }
+export class Match<V, U = unknown, Rest = Cases<V>, Out = never> {
+    // Type-only: makes the unhandled cases part of the type so `exhaustive` can check them.
+    private declare readonly unhandled: Rest;
+    private matched = false;
+    private result: Out | undefined;
+
+    private constructor(private readonly value: V) { }
 
     /**
-     * Starts a match operation on an Option or Result value.
+     * Starts a match operation on an Option, Result, enum or plain value.
+     * Async values produce an AsyncMatch whose `default` resolves to a promise.
+     * Enum values are matched by variant name with `variant`.
      * @param value The value to match against.
      * @returns A Match instance for chaining.
      */
-    static on<T, U>(value: Option<T> | Result<T, any>): Match<T, U> {
+    static on<V extends EnumVariant<string, any>, U = unknown>(value: V): Match<V, U>;
+    static on<T, U = unknown>(value: Option<T>): Match<Option<T>, U>;
+    static on<T, U = unknown, E = any>(value: Result<T, E>): Match<Result<T, E>, U>;
+    static on<T, U = unknown>(value: OptionAsync<T>): AsyncMatch<Option<T>, U>;
+    static on<T, U = unknown, E = any>(value: ResultAsync<T, E>): AsyncMatch<Result<T, E>, U>;
+    static on<V, U = unknown>(value: V): Match<V, U>;
+    static on(value: unknown): Match<unknown> | AsyncMatch<unknown> {
+        if (value instanceof OptionAsync || value instanceof ResultAsync) {
+            return new AsyncMatch<unknown>(value);
+        }
         return new Match(value);
     }
 
     /**
-     * Handles the Some case for an Option.
+     * Handles the Some case for an Option, optionally only when `guard` accepts the value.
      * @param fn The function to execute if the value is Some.
      * @returns The Match instance for chaining.
      */
-    some(fn: (value: T) => U): Match<T, U> {
-        if (this.result === undefined && this.value instanceof Option && this.value.isSome()) {
-            this.result = fn(this.value.unwrap());
-        }
-        return this;
+    some<R extends U>(fn: (value: OptionPayload<V>) => R): Match<V, U, Exclude<Rest, "Some">, Out | R>;
+    some<R extends U>(
+        guard: Guard<OptionPayload<V>>,
+        fn: (value: OptionPayload<V>) => R
+    ): Match<V, U, Rest, Out | R>;
+    some(...args: Function[]): unknown {
+        const value = this.value;
+        return this.arm(value instanceof Option && value.isSome(), () => (value as any).value, args);
     }
 
     /**
@@ -36,43 +77,227 @@ export class Match<T, U> {
      * @param fn The function to execute if the value is None.
      * @returns The Match instance for chaining.
      */
-    none(fn: () => U): Match<T, U> {
-        if (this.result === undefined && this.value instanceof Option && this.value.isNone()) {
-            this.result = fn();
-        }
-        return this;
+    none<R extends U>(fn: () => R): Match<V, U, Exclude<Rest, "None">, Out | R> {
+        return this.arm(this.value instanceof Option && this.value.isNone(), () => undefined, [fn]);
     }
 
     /**
-     * Handles the Ok case for a Result.
+     * Handles the Ok case for a Result, optionally only when `guard` accepts the value.
      * @param fn The function to execute if the value is Ok.
      * @returns The Match instance for chaining.
      */
-    ok(fn: (value: T) => U): Match<T, U> {
-        if (this.result === undefined && this.value instanceof Result && this.value.isOk()) {
-            this.result = fn(this.value.unwrap());
-        }
-        return this;
+    ok<R extends U>(fn: (value: OkPayload<V>) => R): Match<V, U, Exclude<Rest, "Ok">, Out | R>;
+    ok<R extends U>(
+        guard: Guard<OkPayload<V>>,
+        fn: (value: OkPayload<V>) => R
+    ): Match<V, U, Rest, Out | R>;
+    ok(...args: Function[]): unknown {
+        const value = this.value;
+        return this.arm(value instanceof Result && value.isOk(), () => (value as any).value, args);
     }
 
     /**
-     * Handles the Err case for a Result.
+     * Handles the Err case for a Result, optionally only when `guard` accepts the error.
      * @param fn The function to execute if the value is Err.
      * @returns The Match instance for chaining.
      */
-    err(fn: (error: any) => U): Match<T, U> {
-        if (this.result === undefined && this.value instanceof Result && this.value.isErr()) {
-            this.result = fn(this.value.unwrapErr());
+    err<R extends U>(fn: (error: ErrPayload<V>) => R): Match<V, U, Exclude<Rest, "Err">, Out | R>;
+    err<R extends U>(
+        guard: Guard<ErrPayload<V>>,
+        fn: (error: ErrPayload<V>) => R
+    ): Match<V, U, Rest, Out | R>;
+    err(...args: Function[]): unknown {
+        const value = this.value;
+        return this.arm(value instanceof Result && value.isErr(), () => (value as any).error, args);
+    }
+
+    /**
+     * Handles one variant of an enum created with `Enum`, optionally only when `guard` accepts the payload.
+     * @param name The variant name to match.
+     * @param fn The function to execute with the variant's payload if it matches.
+     * @returns The Match instance for chaining.
+     */
+    variant<K extends VariantName<V>, R extends U>(
+        name: K,
+        fn: (payload: VariantPayload<V, K>) => R
+    ): Match<V, U, Exclude<Rest, K>, Out | R>;
+    variant<K extends VariantName<V>, R extends U>(
+        name: K,
+        guard: Guard<VariantPayload<V, K>>,
+        fn: (payload: VariantPayload<V, K>) => R
+    ): Match<V, U, Rest, Out | R>;
+    variant(name: string, ...args: Function[]): unknown {
+        const value = this.value;
+        return this.arm(
+            value instanceof EnumVariant && value.variant === name,
+            () => (value as EnumVariant).payload,
+            args
+        );
+    }
+
+    /**
+     * Handles values matching a pattern: a literal, or a pattern built with `P`
+     * (wildcards, predicates, ranges and nested patterns such as `P.Some(P.Ok(P._))`).
+     * The arm receives what the pattern binds, e.g. the inner Ok value for `P.Some(P.Ok(P._))`.
+     * Only literals, `P._` and variant patterns with a wildcard inside count towards exhaustiveness.
+     * @param pattern The pattern to test the value against.
+     * @param fn The function to execute with the bound value if the pattern matches.
+     * @returns The Match instance for chaining.
+     */
+    with<const Pat extends PatternLike, R extends U>(
+        pattern: Pat,
+        fn: (value: Bind<Pat, V>) => R
+    ): Match<V, U, Pat extends MatchPattern<"_", any> ? never : Exclude<Rest, Covered<Pat, V>>, Out | R>;
+    with<const Pat extends PatternLike, R extends U>(
+        pattern: Pat,
+        guard: Guard<Bind<Pat, V>>,
+        fn: (value: Bind<Pat, V>) => R
+    ): Match<V, U, Rest, Out | R>;
+    with(pattern: unknown, ...args: Function[]): unknown {
+        const bound = this.matched ? Option.none() : matchPattern(pattern, this.value);
+        return this.arm(bound.isSome(), () => bound.unwrap(), args);
+    }
+
+    /**
+     * Provides a default case if no previous conditions match.
+     * @param fn The function to execute as a fallback.
+     * @returns The final result of the match operation.
+     */
+    default<R extends U>(fn: () => R): Out | R {
+        return this.matched ? this.result as Out : fn();
+    }
+
+    /**
+     * Finishes a match whose arms cover every case. Only compiles once no case is left unhandled;
+     * throws at runtime if no arm matched anyway (e.g. for values typed as `any`).
+     * @returns The final result of the match operation.
+     */
+    exhaustive(this: Match<V, U, never, Out>): Out {
+        if (!this.matched) {
+            throw new Error(`Non-exhaustive match: no arm matched ${this.value}`);
+        }
+        return this.result as Out;
+    }
+
+    // Runs an arm (`[fn]` or `[guard, fn]`) if no earlier arm matched and the case applies.
+    private arm(applies: boolean, payload: () => unknown, args: Function[]): any {
+        if (!this.matched && applies) {
+            const [guard, fn] = args.length > 1 ? args : [undefined, args[0]];
+            const value = payload();
+            if (!guard || guard(value)) {
+                this.matched = true;
+                this.result = fn(value);
+            }
         }
         return this;
     }
+}
+
+/**
+ * A deferred matcher for OptionAsync and ResultAsync values.
+ * Arms are recorded and replayed on a regular Match once the value resolves.
+ */
+export class AsyncMatch<V, U = unknown, Rest = Cases<V>, Out = never> {
+    private declare readonly unhandled: Rest;
+    private declare readonly output: Out;
+    private arms: ((match: any) => any)[] = [];
+
+    constructor(private value: PromiseLike<V>) { }
+
+    /**
+     * Handles the Some case for an OptionAsync, optionally only when `guard` accepts the value.
+     * @param fn The function to execute if the value resolves to Some.
+     * @returns The AsyncMatch instance for chaining.
+     */
+    some<R extends U>(fn: (value: OptionPayload<V>) => R): AsyncMatch<V, U, Exclude<Rest, "Some">, Out | R>;
+    some<R extends U>(
+        guard: Guard<OptionPayload<V>>,
+        fn: (value: OptionPayload<V>) => R
+    ): AsyncMatch<V, U, Rest, Out | R>;
+    some(...args: Function[]): unknown {
+        return this.record((match) => match.some(...args));
+    }
+
+    /**
+     * Handles the None case for an OptionAsync.
+     * @param fn The function to execute if the value resolves to None.
+     * @returns The AsyncMatch instance for chaining.
+     */
+    none<R extends U>(fn: () => R): AsyncMatch<V, U, Exclude<Rest, "None">, Out | R> {
+        return this.record((match) => match.none(fn));
+    }
+
+    /**
+     * Handles the Ok case for a ResultAsync, optionally only when `guard` accepts the value.
+     * @param fn The function to execute if the value resolves to Ok.
+     * @returns The AsyncMatch instance for chaining.
+     */
+    ok<R extends U>(fn: (value: OkPayload<V>) => R): AsyncMatch<V, U, Exclude<Rest, "Ok">, Out | R>;
+    ok<R extends U>(
+        guard: Guard<OkPayload<V>>,
+        fn: (value: OkPayload<V>) => R
+    ): AsyncMatch<V, U, Rest, Out | R>;
+    ok(...args: Function[]): unknown {
+        return this.record((match) => match.ok(...args));
+    }
+
+    /**
+     * Handles the Err case for a ResultAsync, optionally only when `guard` accepts the error.
+     * @param fn The function to execute if the value resolves to Err.
+     * @returns The AsyncMatch instance for chaining.
+     */
+    err<R extends U>(fn: (error: ErrPayload<V>) => R): AsyncMatch<V, U, Exclude<Rest, "Err">, Out | R>;
+    err<R extends U>(
+        guard: Guard<ErrPayload<V>>,
+        fn: (error: ErrPayload<V>) => R
+    ): AsyncMatch<V, U, Rest, Out | R>;
+    err(...args: Function[]): unknown {
+        return this.record((match) => match.err(...args));
+    }
+
+    /**
+     * Handles values matching a pattern once the value resolves. See `Match.with`.
+     * @param pattern The pattern to test the resolved value against.
+     * @param fn The function to execute with the bound value if the pattern matches.
+     * @returns The AsyncMatch instance for chaining.
+     */
+    with<const Pat extends PatternLike, R extends U>(
+        pattern: Pat,
+        fn: (value: Bind<Pat, V>) => R
+    ): AsyncMatch<V, U, Pat extends MatchPattern<"_", any> ? never : Exclude<Rest, Covered<Pat, V>>, Out | R>;
+    with<const Pat extends PatternLike, R extends U>(
+        pattern: Pat,
+        guard: Guard<Bind<Pat, V>>,
+        fn: (value: Bind<Pat, V>) => R
+    ): AsyncMatch<V, U, Rest, Out | R>;
+    with(pattern: unknown, ...args: Function[]): unknown {
+        return this.record((match) => match.with(pattern, ...args));
+    }
 
     /**
      * Provides a default case if no previous conditions match.
      * @param fn The function to execute as a fallback.
-     * @returns The final result of the match operation.
+     * @returns A promise of the final result of the match operation.
      */
-    default(fn: () => U): U {
-        return this.result !== undefined ? this.result : fn();
+    async default<R extends U>(fn: () => R): Promise<Out | R> {
+        return (await this.replay()).default(fn);
+    }
+
+    /**
+     * Finishes a match whose arms cover every case. See `Match.exhaustive`.
+     * @returns A promise of the final result of the match operation.
+     */
+    async exhaustive(this: AsyncMatch<V, U, never, Out>): Promise<Out> {
+        return (await this.replay()).exhaustive();
+    }
+
+    private record(arm: (match: any) => any): any {
+        this.arms.push(arm);
+        return this;
+    }
+
+    private async replay(): Promise<any> {
+        const resolved = await this.value;
+        return this.arms.reduce((match, arm) => arm(match), Match.on(resolved));
     }
-}
\ No newline at end of file
+}
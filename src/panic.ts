@@ -0,0 +1,110 @@
+import { ResultAsync } from "./async";
+import { errorMessage } from "./error";
+import { Option, Result } from "./types";
+
+/**
+ * Describes a panic, like Rust's `PanicHookInfo`: its message, where it was raised and the value it
+ * carries (the message itself unless a payload was given).
+ */
+export class PanicInfo {
+    constructor(
+        readonly message: string,
+        /** `file:line:column` of the code that panicked, when the stack trace has one. */
+        readonly location: Option<string>,
+        readonly payload: unknown
+    ) { }
+
+    /**
+     * The info of a caught exception: a Panic's own info, or for any other thrown value its message,
+     * the location from its stack trace and the value itself as the payload.
+     */
+    static from(thrown: unknown): PanicInfo {
+        if (thrown instanceof Panic) return thrown.info;
+        const stack = thrown instanceof Error ? thrown.stack : undefined;
+        return new PanicInfo(errorMessage(thrown), stackLocation(stack), thrown);
+    }
+
+    /** Formats the info like Rust's default hook: `panicked at <location>:\n<message>`. */
+    toString(): string {
+        const header = this.location.ifSome((location) => `panicked at ${location}:`, () => "panicked:");
+        return `${header}\n${this.message}`;
+    }
+}
+
+// The first frame of a V8 stack trace, without the function name.
+function stackLocation(stack: string | undefined): Option<string> {
+    const frame = stack?.split("\n").find((line) => line.trimStart().startsWith("at "));
+    const match = frame && (/\(([^()]+)\)$/.exec(frame) ?? /at (.+)$/.exec(frame));
+    return Option.fromNullable(match ? match[1] : undefined);
+}
+
+/**
+ * The error thrown by `panic` and by failing `unwrap`/`expect` calls, so that library panics can be
+ * told apart from ordinary exceptions. A payload other than the message is also kept as `cause`.
+ */
+export class Panic extends Error {
+    readonly info: PanicInfo;
+
+    /**
+     * @param message The panic message.
+     * @param payload The value the panic carries; defaults to the message.
+     * @param caller Stack frames from this function up are left out of the location, like `#[track_caller]`.
+     */
+    constructor(message: string, payload: unknown = message, caller: Function = Panic) {
+        super(message, payload === message ? undefined : { cause: payload });
+        this.name = "Panic";
+        Error.captureStackTrace?.(this, caller);
+        this.info = new PanicInfo(message, stackLocation(this.stack), payload);
+    }
+}
+
+/** A hook run with every panic before it is thrown, e.g. for logging or error reporting. */
+export type PanicHook = (info: PanicInfo) => void;
+
+let panicHook: PanicHook | undefined;
+
+/**
+ * Installs `hook` to run for every panic, or removes the current one when called without arguments,
+ * like Rust's `std::panic::set_hook`/`take_hook`.
+ * @returns The previously installed hook.
+ */
+export function setPanicHook(hook?: PanicHook): Option<PanicHook> {
+    const previous = Option.fromNullable(panicHook);
+    panicHook = hook;
+    return previous;
+}
+
+/**
+ * Runs the panic hook and throws a `Panic`, like Rust's `panic!`.
+ * @param message The panic message.
+ * @param payload The value the panic carries; defaults to the message.
+ * @param caller Stack frames from this function up are left out of the location; library methods that
+ * panic pass themselves so the location points at their caller.
+ */
+export function panic(message: string, payload: unknown = message, caller: Function = panic): never {
+    const error = new Panic(message, payload, caller);
+    panicHook?.(error.info);
+    throw error;
+}
+
+/**
+ * Runs `fn` and captures an exception as an Err, like Rust's `std::panic::catch_unwind`. Every thrown
+ * value is caught, since any JS exception unwinds the stack; `PanicInfo.payload` holds what was thrown
+ * for exceptions other than panics. A returned promise is awaited, giving a `ResultAsync`.
+ */
+// Listed first: a function that always throws returns `never`, which would also match the promise overload.
+export function catchUnwind(fn: () => never): Result<never, PanicInfo>;
+export function catchUnwind<T>(fn: () => PromiseLike<T>): ResultAsync<T, PanicInfo>;
+export function catchUnwind<T>(fn: () => T): Result<T, PanicInfo>;
+export function catchUnwind<T>(fn: () => T | PromiseLike<T>): Result<T, PanicInfo> | ResultAsync<T, PanicInfo> {
+    let value: T | PromiseLike<T>;
+    try {
+        value = fn();
+    } catch (thrown) {
+        return Result.err(PanicInfo.from(thrown));
+    }
+    if (typeof (value as PromiseLike<T>)?.then === "function") {
+        return ResultAsync.fromPromise(value as PromiseLike<T>, PanicInfo.from);
+    }
+    return Result.ok(value as T);
+}
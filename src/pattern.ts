@@ -0,0 +1,152 @@
+import { Option, Result } from "./types";
+import { EnumVariant } from "./enum";
+import { HashMap, HashSet } from "./collections";
+
+/** Primitive values usable directly as literal patterns. */
+export type Literal = string | number | bigint | boolean | symbol | null | undefined;
+
+/**
+ * A pattern built with `P`, used by `Match.with`.
+ * `Kind` and `Info` only carry type information for binding and exhaustiveness checks.
+ */
+export class MatchPattern<Kind extends string = string, Info = unknown> {
+    declare readonly info: Info;
+
+    constructor(
+        readonly kind: Kind,
+        private readonly test: (value: unknown) => Option<unknown>
+    ) { }
+
+    /**
+     * Tests a value against the pattern, returning the bound value on success.
+     */
+    match(value: unknown): Option<unknown> {
+        return this.test(value);
+    }
+}
+
+type Wildcard = MatchPattern<"_", unknown>;
+
+/**
+ * Tests a value against a pattern or a literal, returning the bound value on success.
+ */
+export function matchPattern(pattern: unknown, value: unknown): Option<unknown> {
+    if (pattern instanceof MatchPattern) return pattern.match(value);
+    return Object.is(pattern, value) || pattern === value ? Option.some(value) : Option.none();
+}
+
+const wildcard = new MatchPattern("_", (value) => Option.some(value)) as Wildcard;
+
+/**
+ * Pattern constructors for `Match.with`: wildcards, nested variants, predicates and ranges.
+ */
+export const P = {
+    /** Matches anything and binds the value itself. */
+    _: wildcard,
+
+    /** Matches `Some` whose payload matches `inner`, binding what `inner` binds. */
+    Some<const I = Wildcard>(inner: I = wildcard as I): MatchPattern<"Some", I> {
+        return new MatchPattern("Some", (value) =>
+            value instanceof Option && value.isSome() ? matchPattern(inner, value.value) : Option.none()
+        );
+    },
+
+    /** Matches `None`, binding the Option itself. */
+    None: new MatchPattern("None", (value) =>
+        value instanceof Option && value.isNone() ? Option.some(value) : Option.none()
+    ) as MatchPattern<"None", unknown>,
+
+    /** Matches `Ok` whose payload matches `inner`, binding what `inner` binds. */
+    Ok<const I = Wildcard>(inner: I = wildcard as I): MatchPattern<"Ok", I> {
+        return new MatchPattern("Ok", (value) =>
+            value instanceof Result && value.isOk() ? matchPattern(inner, value.value) : Option.none()
+        );
+    },
+
+    /** Matches `Err` whose error matches `inner`, binding what `inner` binds. */
+    Err<const I = Wildcard>(inner: I = wildcard as I): MatchPattern<"Err", I> {
+        return new MatchPattern("Err", (value) =>
+            value instanceof Result && value.isErr() ? matchPattern(inner, value.error) : Option.none()
+        );
+    },
+
+    /** Matches an enum variant by name whose payload matches `inner`, binding what `inner` binds. */
+    variant<const K extends string, const I = Wildcard>(
+        name: K,
+        inner: I = wildcard as I
+    ): MatchPattern<"variant", { name: K; inner: I }> {
+        return new MatchPattern("variant", (value) =>
+            value instanceof EnumVariant && value.variant === name
+                ? matchPattern(inner, value.payload)
+                : Option.none()
+        );
+    },
+
+    /** Matches values accepted by a predicate; a type guard also narrows the bound value. */
+    when<G = unknown>(
+        predicate: ((value: any) => value is G) | ((value: any) => boolean)
+    ): MatchPattern<"when", G> {
+        return new MatchPattern("when", (value) => (predicate(value) ? Option.some(value) : Option.none()));
+    },
+
+    /** Matches a HashMap or Map holding `key` with a value that matches `inner`, binding what `inner` binds. */
+    entry<const I = Wildcard>(key: unknown, inner: I = wildcard as I): MatchPattern<"entry", I> {
+        return new MatchPattern("entry", (value) => {
+            if (value instanceof HashMap) return value.get(key).andThen((item) => matchPattern(inner, item));
+            if (value instanceof Map && value.has(key)) return matchPattern(inner, value.get(key));
+            return Option.none();
+        });
+    },
+
+    /** Matches a HashSet, Set or array containing `item` (a HashMap or Map having it as a key), binding the collection. */
+    contains(item: unknown): MatchPattern<"contains", unknown> {
+        return new MatchPattern("contains", (value) => {
+            const found = value instanceof HashSet ? value.contains(item)
+                : value instanceof HashMap ? value.containsKey(item)
+                : value instanceof Set || value instanceof Map ? value.has(item)
+                : Array.isArray(value) && value.includes(item);
+            return found ? Option.some(value) : Option.none();
+        });
+    },
+
+    /** Matches numbers, bigints or strings within `min..=max` (both ends inclusive). */
+    range<T extends number | bigint | string>(min: T, max: T): MatchPattern<"range", T> {
+        return new MatchPattern("range", (value) =>
+            typeof value === typeof min && (value as T) >= min && (value as T) <= max
+                ? Option.some(value)
+                : Option.none()
+        );
+    },
+};
+
+/** Payload types of the matched value, used to type the arms of `Match`. */
+export type OptionPayload<V> = V extends Option<infer T> ? T : never;
+export type OkPayload<V> = V extends Result<infer T, any> ? T : never;
+export type ErrPayload<V> = V extends Result<any, infer E> ? E : never;
+export type MapValue<V> = V extends HashMap<any, infer T> ? T : V extends Map<any, infer T> ? T : never;
+export type VariantName<V> = V extends EnumVariant<infer K, any> ? K : never;
+export type VariantPayload<V, K> = V extends EnumVariant<infer N, infer Payload>
+    ? (N extends K ? Payload : never)
+    : never;
+
+/** The value a pattern binds when matched against a value of type `V`. */
+export type Bind<Pat, V> =
+    Pat extends MatchPattern<"_", any> ? V :
+    Pat extends MatchPattern<"Some", infer I> ? Bind<I, OptionPayload<V>> :
+    Pat extends MatchPattern<"Ok", infer I> ? Bind<I, OkPayload<V>> :
+    Pat extends MatchPattern<"Err", infer I> ? Bind<I, ErrPayload<V>> :
+    Pat extends MatchPattern<"variant", { name: infer K; inner: infer I }> ? Bind<I, VariantPayload<V, K>> :
+    Pat extends MatchPattern<"entry", infer I> ? Bind<I, MapValue<V>> :
+    Pat extends MatchPattern<"when", infer G> ? (unknown extends G ? V : G) :
+    Pat extends MatchPattern<any, any> ? V :
+    Pat;
+
+/** The cases a pattern fully covers: irrefutable variant patterns and literals. */
+export type Covered<Pat, V> =
+    Pat extends MatchPattern<"Some", infer I> ? (I extends Wildcard ? "Some" : never) :
+    Pat extends MatchPattern<"None", any> ? "None" :
+    Pat extends MatchPattern<"Ok", infer I> ? (I extends Wildcard ? "Ok" : never) :
+    Pat extends MatchPattern<"Err", infer I> ? (I extends Wildcard ? "Err" : never) :
+    Pat extends MatchPattern<"variant", { name: infer K; inner: infer I }> ? (I extends Wildcard ? K : never) :
+    Pat extends MatchPattern<any, any> ? never :
+    Pat extends V ? Pat : never;
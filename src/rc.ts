@@ -0,0 +1,160 @@
+import { panic } from "./panic";
+import { Option, Result } from "./types";
+import { structuralEquals } from "./utils";
+
+// The allocation shared by every Rc and Weak handle to a value.
+interface RcBox<T> {
+    value: T | undefined;
+    strong: number;
+    weak: number;
+    onDrop?: (value: T) => void;
+}
+
+// Handle factories for the other class, set from each class's static block (both constructors are private).
+let createRc: <T>(box: RcBox<T>) => Rc<T>;
+let createWeak: <T>(box: RcBox<T> | undefined) => Weak<T>;
+
+/**
+ * A reference-counted handle to a shared value, similar to Rust's `Rc<T>`. JavaScript has no
+ * destructors, so handles are counted explicitly: `clone()` adds one, `drop()` (or leaving a `using`
+ * scope) releases it, and releasing the last one drops the value, running its drop hook.
+ */
+export class Rc<T> {
+    static {
+        createRc = (box) => new Rc(box);
+    }
+
+    private dropped = false;
+
+    private constructor(private readonly box: RcBox<T>) { }
+
+    /**
+     * Wraps a value in a new allocation with one strong handle.
+     * @param onDrop Called with the value when the last strong handle is dropped.
+     */
+    static new<T>(value: T, onDrop?: (value: T) => void): Rc<T> {
+        return new Rc({ value, strong: 1, weak: 0, onDrop });
+    }
+
+    private check(): RcBox<T> {
+        if (this.dropped) panic("Rc used after drop");
+        return this.box;
+    }
+
+    /** The shared value. */
+    get(): T {
+        return this.check().value as T;
+    }
+
+    /** A new strong handle to the same value. */
+    clone(): Rc<T> {
+        this.check().strong++;
+        return new Rc(this.box);
+    }
+
+    /** A weak handle, which does not keep the value alive. */
+    downgrade(): Weak<T> {
+        this.check().weak++;
+        return createWeak(this.box);
+    }
+
+    strongCount(): number {
+        return this.box.strong;
+    }
+
+    weakCount(): number {
+        return this.box.weak;
+    }
+
+    /** Whether two handles point to the same allocation. */
+    ptrEq(other: Rc<T>): boolean {
+        return this.box === other.box;
+    }
+
+    /**
+     * Releases this handle; releasing the last strong handle drops the value. Dropping twice does nothing.
+     */
+    drop(): void {
+        if (this.dropped) return;
+        this.dropped = true;
+        if (--this.box.strong > 0) return;
+        const value = this.box.value as T;
+        this.box.value = undefined;
+        this.box.onDrop?.(value);
+    }
+
+    [Symbol.dispose](): void {
+        this.drop();
+    }
+
+    /**
+     * Takes the value out if this is the only strong handle (without running the drop hook),
+     * otherwise returns this handle in an Err.
+     */
+    tryUnwrap(): Result<T, Rc<T>> {
+        const box = this.check();
+        if (box.strong !== 1) return Result.err(this);
+        const value = box.value as T;
+        this.dropped = true;
+        box.strong = 0;
+        box.value = undefined;
+        return Result.ok(value);
+    }
+
+    /**
+     * Compares the shared values structurally, like Rust's `PartialEq` for `Rc`.
+     */
+    equals(other: unknown): boolean {
+        return other instanceof Rc && structuralEquals(this.get(), other.get());
+    }
+}
+
+/**
+ * A non-owning handle to a value managed by `Rc`, similar to Rust's `Weak<T>`.
+ */
+export class Weak<T> {
+    static {
+        createWeak = (box) => new Weak(box);
+    }
+
+    private dropped = false;
+
+    private constructor(private readonly box: RcBox<T> | undefined) { }
+
+    /** A weak handle to nothing, which never upgrades. */
+    static new<T>(): Weak<T> {
+        return new Weak<T>(undefined);
+    }
+
+    /** A new strong handle, or None if the value has been dropped. */
+    upgrade(): Option<Rc<T>> {
+        if (this.dropped || !this.box || this.box.strong === 0) return Option.none();
+        this.box.strong++;
+        return Option.some(createRc(this.box));
+    }
+
+    strongCount(): number {
+        return this.box?.strong ?? 0;
+    }
+
+    weakCount(): number {
+        return this.box && this.box.strong > 0 ? this.box.weak : 0;
+    }
+
+    /** A new weak handle to the same allocation. */
+    clone(): Weak<T> {
+        if (this.box && !this.dropped) this.box.weak++;
+        return new Weak(this.dropped ? undefined : this.box);
+    }
+
+    /** Releases this handle. Dropping twice does nothing. */
+    drop(): void {
+        if (this.dropped) return;
+        this.dropped = true;
+        if (this.box) this.box.weak--;
+    }
+
+    [Symbol.dispose](): void {
+        this.drop();
+    }
+}
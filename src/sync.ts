@@ -0,0 +1,195 @@
+import { Guard, Ref, RefMut } from "./cell";
+import { VecDeque } from "./collections";
+import { Result } from "./types";
+
+/** Error returned by `tryAcquire` when not enough permits are available. */
+export class TryAcquireError extends Error {
+    constructor() {
+        super("no permits available");
+        this.name = "TryAcquireError";
+    }
+}
+
+/** Error returned by `tryLock`, `tryRead` and `tryWrite` when the lock is held. */
+export class TryLockError extends Error {
+    constructor() {
+        super("operation would block");
+        this.name = "TryLockError";
+    }
+}
+
+/** Permits taken from a `Semaphore`, returned to it by `release()` or at the end of a `using` scope. */
+export class SemaphorePermit {
+    private released = false;
+
+    constructor(private readonly semaphore: Semaphore, readonly permits: number) { }
+
+    /** Returns the permits to the semaphore. Releasing twice does nothing. */
+    release(): void {
+        if (this.released) return;
+        this.released = true;
+        this.semaphore.addPermits(this.permits);
+    }
+
+    [Symbol.dispose](): void {
+        this.release();
+    }
+}
+
+/**
+ * An async counting semaphore, like tokio's `Semaphore`. Waiters are served in the order they
+ * asked, so a large request is not starved by later small ones.
+ */
+export class Semaphore {
+    private readonly waiters = new VecDeque<{ permits: number; resolve: (permit: SemaphorePermit) => void }>();
+
+    constructor(private permits: number) { }
+
+    /** The number of permits that can be acquired right now. */
+    availablePermits(): number {
+        return this.permits;
+    }
+
+    /** Waits until `permits` permits are available and takes them. */
+    acquire(permits: number = 1): Promise<SemaphorePermit> {
+        const acquired = this.tryAcquire(permits);
+        if (acquired.isOk()) return Promise.resolve(acquired.value);
+        return new Promise((resolve) => this.waiters.pushBack({ permits, resolve }));
+    }
+
+    /** Takes `permits` permits if they are available and nobody is waiting. */
+    tryAcquire(permits: number = 1): Result<SemaphorePermit, TryAcquireError> {
+        if (!this.waiters.isEmpty() || this.permits < permits) return Result.err(new TryAcquireError());
+        this.permits -= permits;
+        return Result.ok(new SemaphorePermit(this, permits));
+    }
+
+    /** Adds permits, waking the waiters they satisfy in order. */
+    addPermits(permits: number): void {
+        this.permits += permits;
+        for (;;) {
+            const next = this.waiters.front();
+            if (!next.isSome() || next.value.permits > this.permits) return;
+            this.waiters.popFront();
+            this.permits -= next.value.permits;
+            next.value.resolve(new SemaphorePermit(this, next.value.permits));
+        }
+    }
+
+    /** Runs `fn` while holding `permits` permits, releasing them when it settles. */
+    async withPermit<R>(fn: () => R | PromiseLike<R>, permits: number = 1): Promise<R> {
+        const permit = await this.acquire(permits);
+        try {
+            return await fn();
+        } finally {
+            permit.release();
+        }
+    }
+}
+
+const LOCK_GUARD_NAMES = { guard: "lock guard", shared: "read guard" };
+
+// A guard over a lock's value that gives its permits back when released.
+function lockGuard<T>(slot: { value: T }, mutable: boolean, permit: SemaphorePermit): Guard<T> {
+    return new Guard(slot, mutable, () => permit.release(), LOCK_GUARD_NAMES);
+}
+
+/**
+ * An async mutual-exclusion lock around a value, like tokio's `Mutex`: `lock()` waits for the
+ * guard, which must be released (or declared with `using`) to let the next task in.
+ */
+export class Mutex<T> {
+    private readonly semaphore = new Semaphore(1);
+    private readonly slot: { value: T };
+
+    constructor(value: T) {
+        this.slot = { value };
+    }
+
+    /** Waits for the lock, in the order tasks asked for it. */
+    async lock(): Promise<RefMut<T>> {
+        return lockGuard(this.slot, true, await this.semaphore.acquire());
+    }
+
+    /** Takes the lock if it is free. */
+    tryLock(): Result<RefMut<T>, TryLockError> {
+        return this.semaphore.tryAcquire()
+            .map((permit) => lockGuard(this.slot, true, permit) as RefMut<T>)
+            .mapErr(() => new TryLockError());
+    }
+
+    /** Runs `fn` with the lock held, releasing it when `fn` settles. */
+    async withLock<R>(fn: (guard: RefMut<T>) => R | PromiseLike<R>): Promise<R> {
+        const guard = await this.lock();
+        try {
+            return await fn(guard);
+        } finally {
+            guard.release();
+        }
+    }
+
+    /** Whether a guard is currently held. */
+    isLocked(): boolean {
+        return this.semaphore.availablePermits() === 0;
+    }
+}
+
+// Readers take one permit and writers all of them, so a writer waits for every reader to leave.
+const MAX_READERS = 2 ** 30;
+
+/**
+ * An async reader-writer lock, like tokio's `RwLock`: any number of read guards or one write guard
+ * at a time. Requests are served in order, so a waiting writer is not starved by new readers.
+ */
+export class RwLock<T> {
+    private readonly semaphore = new Semaphore(MAX_READERS);
+    private readonly slot: { value: T };
+
+    constructor(value: T) {
+        this.slot = { value };
+    }
+
+    /** Waits for shared read access. */
+    async read(): Promise<Ref<T>> {
+        return lockGuard(this.slot, false, await this.semaphore.acquire(1));
+    }
+
+    /** Waits for exclusive write access. */
+    async write(): Promise<RefMut<T>> {
+        return lockGuard(this.slot, true, await this.semaphore.acquire(MAX_READERS));
+    }
+
+    /** Takes read access if no writer holds or waits for the lock. */
+    tryRead(): Result<Ref<T>, TryLockError> {
+        return this.semaphore.tryAcquire(1)
+            .map((permit) => lockGuard(this.slot, false, permit) as Ref<T>)
+            .mapErr(() => new TryLockError());
+    }
+
+    /** Takes write access if the lock is free. */
+    tryWrite(): Result<RefMut<T>, TryLockError> {
+        return this.semaphore.tryAcquire(MAX_READERS)
+            .map((permit) => lockGuard(this.slot, true, permit) as RefMut<T>)
+            .mapErr(() => new TryLockError());
+    }
+
+    /** Runs `fn` with the value under read access, released when `fn` settles. */
+    async withRead<R>(fn: (value: T) => R | PromiseLike<R>): Promise<R> {
+        const guard = await this.read();
+        try {
+            return await fn(guard.get());
+        } finally {
+            guard.release();
+        }
+    }
+
+    /** Runs `fn` with write access, released when `fn` settles. */
+    async withWrite<R>(fn: (guard: RefMut<T>) => R | PromiseLike<R>): Promise<R> {
+        const guard = await this.write();
+        try {
+            return await fn(guard);
+        } finally {
+            guard.release();
+        }
+    }
+}
@@ -0,0 +1,123 @@
+import { Option, Result } from "../types";
+import { OptionAsync, ResultAsync } from "../async";
+import { Match } from "../match";
+
+describe("ResultAsync", () => {
+    test("fromPromise wraps resolved and rejected promises", async () => {
+        const ok = await Result.fromPromise(Promise.resolve(1), () => "failed");
+        expect(ok.unwrap()).toBe(1);
+
+        const err = await Result.fromPromise(Promise.reject(new Error("boom")), (e) => (e as Error).message);
+        expect(err.unwrapErr()).toBe("boom");
+    });
+
+    test("map and mapErr accept sync and async callbacks", async () => {
+        const mapped = await ResultAsync.ok<number, string>(2)
+            .map((x) => x * 2)
+            .map(async (x) => x + 1);
+        expect(mapped.unwrap()).toBe(5);
+
+        const mappedErr = await ResultAsync.err<number, string>("error")
+            .map((x) => x * 2)
+            .mapErr(async (e) => e.toUpperCase());
+        expect(mappedErr.unwrapErr()).toBe("ERROR");
+    });
+
+    test("andThen chains Result, Promise and ResultAsync returning steps", async () => {
+        const result = await ResultAsync.ok<number, string>(1)
+            .andThen((x) => Result.ok(x + 1))
+            .andThen(async (x) => Result.ok(x * 10))
+            .andThen((x) => ResultAsync.ok(x + 5));
+        expect(result.unwrap()).toBe(25);
+
+        const failed = await ResultAsync.ok<number, string>(1)
+            .andThen(async () => Result.err<number, string>("stop"))
+            .andThen((x) => Result.ok(x * 10));
+        expect(failed.unwrapErr()).toBe("stop");
+    });
+
+    test("orElse recovers from Err", async () => {
+        const result = await ResultAsync.err<number, string>("error").orElse(async () => Result.ok(100));
+        expect(result.unwrap()).toBe(100);
+        expect(await ResultAsync.ok<number, string>(1).orElse(() => Result.ok(100)).unwrapOr(0)).toBe(1);
+    });
+
+    test("all and any combine many results", async () => {
+        const all = await ResultAsync.all([ResultAsync.ok<number, string>(1), Promise.resolve(Result.ok<number, string>(2))]);
+        expect(all.unwrap()).toEqual([1, 2]);
+
+        const any = await ResultAsync.any([ResultAsync.err<number, string>("a"), ResultAsync.err<number, string>("b")]);
+        expect(any.unwrapErr()).toEqual(["a", "b"]);
+    });
+});
+
+describe("Result combinators", () => {
+    test("fromThrowable captures exceptions", () => {
+        expect(Result.fromThrowable(() => JSON.parse("1")).unwrap()).toBe(1);
+        const err = Result.fromThrowable(() => JSON.parse("{"), () => "invalid json");
+        expect(err.unwrapErr()).toBe("invalid json");
+    });
+
+    test("all returns the first Err or every Ok value", () => {
+        const ok = Result.all([Result.ok<number, string>(1), Result.ok<string, string>("a")]);
+        const [n, s] = ok.unwrap();
+        expect(n + 1).toBe(2);
+        expect(s.toUpperCase()).toBe("A");
+
+        const err = Result.all([Result.ok<number, string>(1), Result.err<number, string>("x"), Result.err<number, string>("y")]);
+        expect(err.unwrapErr()).toBe("x");
+    });
+
+    test("any returns the first Ok or every Err value", () => {
+        expect(Result.any([Result.err<number, string>("x"), Result.ok<number, string>(2)]).unwrap()).toBe(2);
+        expect(Result.any([Result.err<number, string>("x"), Result.err<number, string>("y")]).unwrapErr()).toEqual(["x", "y"]);
+    });
+});
+
+describe("OptionAsync", () => {
+    test("fromNullable and toNullable convert nullable values", async () => {
+        expect(Option.fromNullable(undefined).isNone()).toBe(true);
+        expect(Option.fromNullable(0).unwrap()).toBe(0);
+        expect(Option.none<number>().toNullable()).toBeNull();
+
+        const option = await OptionAsync.fromNullable(Promise.resolve("value"));
+        expect(option.unwrap()).toBe("value");
+        expect(await OptionAsync.fromNullable(Promise.resolve(null)).toNullable()).toBeNull();
+    });
+
+    test("map, andThen, filter and orElse accept async callbacks", async () => {
+        const option = await OptionAsync.some(2)
+            .map(async (x) => x * 2)
+            .andThen(async (x) => Option.some(x + 1))
+            .filter(async (x) => x > 10)
+            .orElse(() => Option.some(-1));
+        expect(option.unwrap()).toBe(-1);
+    });
+});
+
+describe("Match with async values", () => {
+    test("resolves the matching arm of a ResultAsync", async () => {
+        const result = await Match.on(ResultAsync.err<number, string>("error"))
+            .ok((value) => value * 2)
+            .err((error) => error.length)
+            .default(() => -1);
+        expect(result).toBe(5);
+    });
+
+    test("resolves the matching arm of an OptionAsync", async () => {
+        const result = Match.on(OptionAsync.some(21))
+            .some((value) => value * 2)
+            .none(() => 0)
+            .default(() => -1);
+        expect(result).toBeInstanceOf(Promise);
+        expect(await result).toBe(42);
+    });
+
+    test("exhaustive resolves once every case is handled", async () => {
+        const result = await Match.on(ResultAsync.ok<number, string>(2))
+            .ok((value) => value * 2)
+            .err((error) => error.length)
+            .exhaustive();
+        expect(result).toBe(4);
+    });
+});
@@ -0,0 +1,102 @@
+import "reflect-metadata";
+import { derive, Derives } from "../derive";
+import { Option } from "../types";
+import { Builder, BuildError, builderFor, Default, defaultValue, optional, serde, Deserialize } from "../lib";
+
+@derive([Default] as const)
+class Limits extends Derives([Default] as const) {
+    @serde()
+    max!: number;
+}
+
+@derive([Default, Builder, Deserialize] as const)
+class Config extends Derives([Default, Builder, Deserialize] as const) {
+    @serde()
+    host!: string;
+    @serde()
+    port!: number;
+    @defaultValue(() => ["info"])
+    levels!: string[];
+    @serde({ default: "http" })
+    scheme!: string;
+    @serde()
+    proxy!: Option<string>;
+    @serde({ type: () => Limits })
+    limits!: Limits;
+    @optional
+    comment?: string;
+    retries: number = 3;
+}
+
+describe("Default", () => {
+    test("default() applies field defaults and the defaults of field types", () => {
+        const config: Config = Config.default();
+        expect(config).toBeInstanceOf(Config);
+        expect(config.host).toBe("");
+        expect(config.port).toBe(0);
+        expect(config.levels).toEqual(["info"]);
+        expect(config.scheme).toBe("http");
+        expect(config.proxy.isNone()).toBe(true);
+        expect(config.limits).toBeInstanceOf(Limits);
+        expect(config.limits.max).toBe(0);
+        expect(config.retries).toBe(3);
+    });
+
+    test("factory defaults give every instance its own value", () => {
+        const a: Config = Config.default();
+        const b: Config = Config.default();
+        expect(a.levels).not.toBe(b.levels);
+    });
+
+    test("new instances get their @defaultValue fields", () => {
+        expect(new Config().levels).toEqual(["info"]);
+        expect(new Config().host).toBeUndefined();
+    });
+});
+
+describe("Builder", () => {
+    test("build() returns the instance once required fields are set", () => {
+        const builder: Builder<Config> = Config.builder();
+        const config = builder.host("localhost").port(8080).proxy(Option.none()).limits(new Limits()).build();
+        expect(config.isOk()).toBe(true);
+        const value = config.unwrap();
+        expect(value).toBeInstanceOf(Config);
+        expect(value.host).toBe("localhost");
+        expect(value.port).toBe(8080);
+        expect(value.levels).toEqual(["info"]);
+        expect(value.scheme).toBe("http");
+        expect(value.retries).toBe(3);
+        expect(value.comment).toBeUndefined();
+    });
+
+    test("build() lists missing required fields", () => {
+        const result = builderFor(Config).host("localhost").build();
+        const error = result.unwrapErr();
+        expect(error).toBeInstanceOf(BuildError);
+        expect(error.missing).toEqual(["port", "proxy", "limits"]);
+        expect(error.message).toBe("missing required fields: port, proxy, limits");
+    });
+
+    test("setters override defaults and initializers", () => {
+        const config = builderFor(Config)
+            .host("h").port(1).proxy(Option.some("p")).limits(new Limits())
+            .scheme("https").retries(5)
+            .build()
+            .unwrap();
+        expect(config.scheme).toBe("https");
+        expect(config.retries).toBe(5);
+        expect(config.proxy.unwrap()).toBe("p");
+    });
+
+    test("@optional fields may be left unset even when declared as own properties", () => {
+        class Person {
+            name!: string;
+            @optional
+            nick?: string = undefined;
+        }
+        expect(builderFor(Person).build().unwrapErr().missing).toEqual(["name"]);
+        const person = builderFor(Person).name("a").build().unwrap();
+        expect(person.nick).toBeUndefined();
+        expect(builderFor(Person).name("a").nick("b").build().unwrap().nick).toBe("b");
+    });
+});
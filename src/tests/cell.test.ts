@@ -0,0 +1,81 @@
+import { BorrowError, Cell, RefCell, RefMut } from "../cell";
+import { catchUnwind, Panic } from "../panic";
+
+describe("Cell", () => {
+    test("copies values in and out", () => {
+        const cell = new Cell(1);
+        expect(cell.replace(2)).toBe(1);
+        expect(cell.update((n) => n * 10)).toBe(20);
+        const other = new Cell(5);
+        cell.swap(other);
+        expect([cell.get(), other.get()]).toEqual([5, 20]);
+    });
+});
+
+describe("RefCell", () => {
+    test("allows many shared borrows but no mutable borrow alongside them", () => {
+        const cell = new RefCell([1, 2]);
+        const a = cell.borrow();
+        const b = cell.borrow();
+        expect(a.get()).toBe(b.get());
+        expect(() => cell.borrowMut()).toThrow(Panic);
+        expect(() => cell.borrowMut()).toThrow("already borrowed");
+        a.release();
+        expect(cell.tryBorrowMut().isErr()).toBe(true);
+        b.release();
+        expect(cell.isBorrowed()).toBe(false);
+        cell.borrowMut().release();
+    });
+
+    test("a mutable borrow excludes every other borrow until released", () => {
+        const cell = new RefCell("a");
+        const guard = cell.borrowMut();
+        const shared = cell.tryBorrow();
+        expect(shared.isErr() && shared.error.message).toBe("already mutably borrowed");
+        guard.set("b");
+        guard.release();
+        guard.release();
+        expect(() => guard.get()).toThrow(new Panic("borrow used after it was released"));
+        expect(cell.borrow().get()).toBe("b");
+    });
+
+    test("borrow conflicts panic with the BorrowError as payload, so catchUnwind catches them", () => {
+        const cell = new RefCell(1);
+        using guard = cell.borrowMut();
+        const caught = catchUnwind(() => cell.borrow());
+        expect(caught.unwrapErr().payload).toEqual(new BorrowError("already mutably borrowed"));
+        expect(guard.get()).toBe(1);
+    });
+
+    test("shared borrows cannot assign", () => {
+        const cell = new RefCell(1);
+        expect(() => (cell.borrow() as RefMut<number>).set(2)).toThrow("cannot assign through a shared borrow");
+    });
+
+    test("using releases a guard at the end of its scope", () => {
+        const cell = new RefCell(0);
+        {
+            using guard = cell.borrowMut();
+            guard.update((n) => n + 1);
+            expect(cell.isBorrowed()).toBe(true);
+        }
+        expect(cell.isBorrowed()).toBe(false);
+        expect(cell.replace(5)).toBe(1);
+    });
+
+    test("scoped borrows are released on return, throw, and when a promise settles", async () => {
+        const cell = new RefCell(1);
+        expect(cell.withBorrow((n) => n + 1)).toBe(2);
+        expect(() => cell.withBorrowMut(() => { throw new Error("boom"); })).toThrow("boom");
+        expect(cell.isBorrowed()).toBe(false);
+
+        const pending = cell.withBorrowMut(async (guard) => {
+            await Promise.resolve();
+            guard.set(3);
+        });
+        expect(cell.isBorrowed()).toBe(true);
+        await pending;
+        expect(cell.isBorrowed()).toBe(false);
+        expect(cell.withBorrow((n) => n)).toBe(3);
+    });
+});
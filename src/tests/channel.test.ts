@@ -0,0 +1,135 @@
+import { channel, oneshot, RecvError, select, SendError } from "../channel";
+
+describe("channel", () => {
+    test("delivers values in order and ends once every sender is dropped", async () => {
+        const [tx, rx] = channel<number>();
+        const tx2 = tx.clone();
+        await tx.send(1);
+        await tx2.send(2);
+        tx.drop();
+        expect((await rx.recv()).unwrap()).toBe(1);
+        tx2.drop();
+        expect((await rx.recv()).unwrap()).toBe(2);
+        expect((await rx.recv()).isNone()).toBe(true);
+    });
+
+    test("recv waits for a value", async () => {
+        const [tx, rx] = channel<string>();
+        const pending = rx.recv();
+        setTimeout(() => tx.send("late"), 0);
+        expect((await pending).unwrap()).toBe("late");
+    });
+
+    test("send fails with the value once the receiver is closed", async () => {
+        const [tx, rx] = channel<number>();
+        await tx.send(1);
+        rx.close();
+        expect(tx.isClosed()).toBe(true);
+        const sent = await tx.send(2);
+        expect(sent.unwrapErr()).toBeInstanceOf(SendError);
+        expect(sent.unwrapErr().value).toBe(2);
+        expect(rx.tryRecv().unwrap()).toBe(1);
+        expect(rx.tryRecv().unwrapErr().kind).toBe("Disconnected");
+    });
+
+    test("a bounded channel applies backpressure", async () => {
+        const [tx, rx] = channel<number>(1);
+        await tx.send(1);
+        expect(tx.trySend(2).unwrapErr().kind).toBe("Full");
+        let delivered = false;
+        const blocked = tx.send(2).then((result) => {
+            delivered = result.isOk();
+        });
+        await Promise.resolve();
+        expect(delivered).toBe(false);
+        expect((await rx.recv()).unwrap()).toBe(1);
+        await blocked;
+        expect(delivered).toBe(true);
+        expect(rx.tryRecv().unwrap()).toBe(2);
+        expect(rx.tryRecv().unwrapErr().kind).toBe("Empty");
+        expect(() => channel(0)).toThrow(RangeError);
+    });
+
+    test("closing the receiver rejects sends waiting for capacity", async () => {
+        const [tx, rx] = channel<number>(1);
+        await tx.send(1);
+        const blocked = tx.send(2);
+        rx.close();
+        expect((await blocked).unwrapErr().value).toBe(2);
+    });
+
+    test("the receiver is an async iterable", async () => {
+        const [tx, rx] = channel<number>(2);
+        const producer = (async () => {
+            for (let i = 0; i < 5; i++) await tx.send(i);
+            tx.drop();
+        })();
+        const received: number[] = [];
+        for await (const value of rx) received.push(value);
+        await producer;
+        expect(received).toEqual([0, 1, 2, 3, 4]);
+    });
+});
+
+describe("select", () => {
+    test("takes a value from whichever receiver is ready, tagged with its key", async () => {
+        const [numbers, numbersRx] = channel<number>();
+        const [names, namesRx] = channel<string>();
+        const pending = select({ number: numbersRx, name: namesRx });
+        await names.send("ann");
+        const selected = (await pending).unwrap();
+        expect(selected).toEqual({ key: "name", value: "ann" });
+
+        await numbers.send(7);
+        await names.send("bob");
+        expect((await select({ number: numbersRx, name: namesRx })).unwrap()).toEqual({ key: "number", value: 7 });
+        expect((await namesRx.recv()).unwrap()).toBe("bob");
+    });
+
+    test("is None once every channel has ended", async () => {
+        const [a, aRx] = channel<number>();
+        const [b, bRx] = channel<number>();
+        const pending = select({ a: aRx, b: bRx });
+        a.drop();
+        b.drop();
+        expect((await pending).isNone()).toBe(true);
+    });
+});
+
+describe("oneshot", () => {
+    test("delivers a single value", async () => {
+        const [tx, rx] = oneshot<string>();
+        expect(rx.tryRecv().unwrapErr().kind).toBe("Empty");
+        setTimeout(() => tx.send("done"), 0);
+        expect((await rx).unwrap()).toBe("done");
+        expect(tx.send("again").isErr()).toBe(true);
+    });
+
+    test("the receiver gets a RecvError if the sender is dropped", async () => {
+        const [tx, rx] = oneshot<number>();
+        tx.drop();
+        expect((await rx.recv()).unwrapErr()).toBeInstanceOf(RecvError);
+    });
+
+    test("send fails once the receiver is closed", () => {
+        const [tx, rx] = oneshot<number>();
+        rx.close();
+        expect(tx.isClosed()).toBe(true);
+        expect(tx.send(1).unwrapErr().value).toBe(1);
+    });
+
+    test("closing the receiver without a value ends pending and later receives", async () => {
+        const [, rx] = oneshot<number>();
+        const pending = rx.recv();
+        rx.close();
+        expect((await pending).unwrapErr()).toBeInstanceOf(RecvError);
+        expect((await rx).unwrapErr()).toBeInstanceOf(RecvError);
+    });
+
+    test("a value sent before closing is still received", async () => {
+        const [tx, rx] = oneshot<number>();
+        tx.send(7);
+        rx.close();
+        expect((await rx).unwrap()).toBe(7);
+    });
+});
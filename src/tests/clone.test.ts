@@ -0,0 +1,86 @@
+import "reflect-metadata";
+import { derive, Derives } from "../derive";
+import { Enum } from "../enum";
+import { Option, Result } from "../types";
+import { clone, Clone } from "../lib";
+
+const Color = Enum({ Red: null, Custom: (rgb: number[]) => ({ rgb }) });
+
+@derive([Clone] as const)
+class Point extends Derives([Clone] as const) {
+    constructor(public x: number = 0, public y: number = 0) {
+        super();
+    }
+}
+
+@derive([Clone] as const)
+class Drawing extends Derives([Clone] as const) {
+    points: Point[] = [];
+    labels: Map<string, Point> = new Map();
+    origin: Option<Point> = Option.none();
+    saved: Result<Date, string> = Result.err("never");
+    color = Color.Custom([1, 2, 3]);
+    meta: { tags: string[] } = { tags: [] };
+    @clone({ shallow: true })
+    canvas: object = {};
+    @clone({ clone_with: () => 0 })
+    revision: number = 7;
+    parent?: Drawing;
+}
+
+describe("Clone", () => {
+    test("clone deep-copies nested values", () => {
+        const drawing = new Drawing();
+        drawing.points = [new Point(1, 2)];
+        drawing.labels.set("a", new Point(3, 4));
+        drawing.origin = Option.some(new Point(5, 6));
+        drawing.saved = Result.ok(new Date(1000));
+        drawing.meta.tags.push("x");
+
+        const copy = drawing.clone();
+        expect(copy).toBeInstanceOf(Drawing);
+        expect(copy).not.toBe(drawing);
+        expect(copy.points[0]).toBeInstanceOf(Point);
+        expect(copy.points[0]).not.toBe(drawing.points[0]);
+        expect(copy.points[0].x).toBe(1);
+        expect(copy.labels.get("a")).not.toBe(drawing.labels.get("a"));
+        expect(copy.labels.get("a")!.y).toBe(4);
+        expect(copy.origin.unwrap()).not.toBe(drawing.origin.unwrap());
+        expect(copy.saved.unwrap()).not.toBe(drawing.saved.unwrap());
+        expect(copy.saved.unwrap().getTime()).toBe(1000);
+        expect(copy.meta.tags).toEqual(["x"]);
+        expect(copy.meta.tags).not.toBe(drawing.meta.tags);
+    });
+
+    test("enum variants keep their enum but copy their payload", () => {
+        const drawing = new Drawing();
+        const copy = drawing.clone();
+        expect(Color.isCustom(copy.color)).toBe(true);
+        expect(copy.color.equals(drawing.color)).toBe(true);
+        expect(copy.color.payload).not.toBe(drawing.color.payload);
+    });
+
+    test("field options keep references or use a custom clone", () => {
+        const drawing = new Drawing();
+        const copy = drawing.clone();
+        expect(copy.canvas).toBe(drawing.canvas);
+        expect(copy.revision).toBe(0);
+    });
+
+    test("mutating the copy leaves the original untouched", () => {
+        const drawing = new Drawing();
+        drawing.points = [new Point(1, 1)];
+        const copy = drawing.clone();
+        copy.points[0].x = 9;
+        copy.points.push(new Point());
+        expect(drawing.points).toHaveLength(1);
+        expect(drawing.points[0].x).toBe(1);
+    });
+
+    test("circular references are preserved", () => {
+        const drawing = new Drawing();
+        drawing.parent = drawing;
+        const copy = drawing.clone();
+        expect(copy.parent).toBe(copy);
+    });
+});
@@ -0,0 +1,88 @@
+import { compare, Ordering, partialCompare, sortBy, sortByKey } from "../cmp";
+import { Option, Result } from "../types";
+
+describe("Ordering", () => {
+    test("predicates, reverse and conversion to numbers", () => {
+        expect(Ordering.Less.isLt()).toBe(true);
+        expect(Ordering.Less.isLe()).toBe(true);
+        expect(Ordering.Equal.isEq()).toBe(true);
+        expect(Ordering.Greater.isGe()).toBe(true);
+        expect(Ordering.Greater.isNe()).toBe(true);
+        expect(Ordering.Less.reverse()).toBe(Ordering.Greater);
+        expect(Ordering.Equal.reverse()).toBe(Ordering.Equal);
+        expect(Ordering.from(-5)).toBe(Ordering.Less);
+        expect(Ordering.Greater.toNumber()).toBe(1);
+        expect(`${Ordering.Less}`).toBe("Less");
+        expect(() => Ordering.from(NaN)).toThrow(RangeError);
+    });
+
+    test("then and thenWith chain comparisons", () => {
+        expect(Ordering.Equal.then(Ordering.Less)).toBe(Ordering.Less);
+        expect(Ordering.Greater.then(Ordering.Less)).toBe(Ordering.Greater);
+        const next = jest.fn(() => Ordering.Less);
+        expect(Ordering.Greater.thenWith(next)).toBe(Ordering.Greater);
+        expect(next).not.toHaveBeenCalled();
+        expect(Ordering.Equal.thenWith(next)).toBe(Ordering.Less);
+    });
+});
+
+describe("compare", () => {
+    test("orders primitives, Dates and arrays", () => {
+        expect(compare(1, 2)).toBe(Ordering.Less);
+        expect(compare(2n, 1)).toBe(Ordering.Greater);
+        expect(compare("b", "a")).toBe(Ordering.Greater);
+        expect(compare(false, true)).toBe(Ordering.Less);
+        expect(compare(new Date(5), new Date(5))).toBe(Ordering.Equal);
+        expect(compare([1, 2], [1, 3])).toBe(Ordering.Less);
+        expect(compare([1, 2], [1])).toBe(Ordering.Greater);
+    });
+
+    test("partialCompare is None for unordered values, where compare throws", () => {
+        expect(partialCompare(NaN, 1).isNone()).toBe(true);
+        expect(partialCompare(1, "1").isNone()).toBe(true);
+        expect(partialCompare({}, {}).isNone()).toBe(true);
+        expect(() => compare(NaN, 1)).toThrow("Cannot order NaN and 1");
+    });
+});
+
+describe("Option and Result cmp", () => {
+    test("None is less than Some, and Somes compare their values", () => {
+        expect(Option.none<number>().cmp(Option.some(0))).toBe(Ordering.Less);
+        expect(Option.some(0).cmp(Option.none())).toBe(Ordering.Greater);
+        expect(Option.none().cmp(Option.none())).toBe(Ordering.Equal);
+        expect(Option.some(2).cmp(Option.some(1))).toBe(Ordering.Greater);
+        expect(Option.some(NaN).partialCmp(Option.some(1)).isNone()).toBe(true);
+    });
+
+    test("Ok is less than Err, and same variants compare their payloads", () => {
+        expect(Result.ok<number, string>(9).cmp(Result.err("a"))).toBe(Ordering.Less);
+        expect(Result.err<number, string>("a").cmp(Result.ok(0))).toBe(Ordering.Greater);
+        expect(Result.err<number, string>("a").cmp(Result.err("b"))).toBe(Ordering.Less);
+        expect(Result.ok(1).partialCmp(Result.ok(1)).unwrap()).toBe(Ordering.Equal);
+    });
+
+    test("nested Options are compared through compare", () => {
+        expect(compare([Option.some(1)], [Option.none()])).toBe(Ordering.Greater);
+    });
+});
+
+describe("sortBy and sortByKey", () => {
+    const people = [
+        { name: "Cy", age: 30 },
+        { name: "Al", age: 25 },
+        { name: "Bo", age: 30 },
+    ];
+
+    test("sortBy sorts in place with an Ordering comparator", () => {
+        const copy = [...people];
+        const sorted = sortBy(copy, (a, b) => compare(b.age, a.age).then(compare(a.name, b.name)));
+        expect(sorted).toBe(copy);
+        expect(sorted.map((p) => p.name)).toEqual(["Bo", "Cy", "Al"]);
+    });
+
+    test("sortByKey is stable and compares keys like compare", () => {
+        expect(sortByKey([...people], (p) => p.age).map((p) => p.name)).toEqual(["Al", "Cy", "Bo"]);
+        expect(sortByKey([Option.some(2), Option.none(), Option.some(1)], (o) => o).map(String))
+            .toEqual(["None", "Some(1)", "Some(2)"]);
+    });
+});
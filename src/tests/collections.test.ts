@@ -0,0 +1,272 @@
+import "reflect-metadata";
+import { BinaryHeap, HashMap, HashSet, Vec, VecDeque } from "../collections";
+import { compare } from "../cmp";
+import { derive, Derives } from "../derive";
+import { Iter } from "../iter";
+import { Match } from "../match";
+import { P } from "../pattern";
+import { debugValue, Deserialize, Eq, Hash, PartialEq, serde, Serialize } from "../lib";
+
+const features = [PartialEq, Eq, Hash] as const;
+
+@derive(features)
+class Point extends Derives(features) {
+    constructor(public x = 0, public y = 0) {
+        super();
+    }
+}
+
+describe("HashMap", () => {
+    test("keys with eq and hashCode are compared by value", () => {
+        const map = new HashMap<Point, string>();
+        expect(map.insert(new Point(1, 2), "a").isNone()).toBe(true);
+        expect(map.insert(new Point(1, 2), "b").unwrap()).toBe("a");
+        expect(map.len()).toBe(1);
+        expect(map.get(new Point(1, 2)).unwrap()).toBe("b");
+        expect(map.containsKey(new Point(2, 1))).toBe(false);
+        expect(map.remove(new Point(1, 2)).unwrap()).toBe("b");
+        expect(map.isEmpty()).toBe(true);
+    });
+
+    test("other keys use Map semantics", () => {
+        const key = { id: 1 };
+        const map = HashMap.from<unknown, number>([["a", 1], [key, 2], [NaN, 3]]);
+        expect(map.get("a").unwrap()).toBe(1);
+        expect(map.get(key).unwrap()).toBe(2);
+        expect(map.get({ id: 1 }).isNone()).toBe(true);
+        expect(map.get(NaN).unwrap()).toBe(3);
+        expect(map.remove("missing").isNone()).toBe(true);
+    });
+
+    test("the first inserted key is kept", () => {
+        const first = new Point(1, 1);
+        const map = new HashMap([[first, 1]]);
+        map.insert(new Point(1, 1), 2);
+        expect(map.getKeyValue(new Point(1, 1)).unwrap()[0]).toBe(first);
+    });
+
+    test("entry API", () => {
+        const counts = new HashMap<string, number>();
+        for (const word of "a b a c a".split(" ")) {
+            counts.entry(word).andModify((n) => n + 1).orInsert(1);
+        }
+        expect(counts.iter().collect()).toEqual([["a", 3], ["b", 1], ["c", 1]]);
+        const lists = new HashMap<Point, number[]>();
+        lists.entry(new Point()).orInsertWith(() => []).push(1);
+        lists.entry(new Point()).orInsertWith(() => []).push(2);
+        expect(lists.get(new Point()).unwrap()).toEqual([1, 2]);
+        expect(lists.entry(new Point(5)).key()).toEqual(new Point(5));
+    });
+
+    test("iteration, retain and equality", () => {
+        const map = new HashMap([["a", 1], ["b", 2], ["c", 3]]);
+        expect(map.keys().collect()).toEqual(["a", "b", "c"]);
+        expect(map.values().sum()).toBe(6);
+        expect([...map]).toEqual([["a", 1], ["b", 2], ["c", 3]]);
+        map.retain((_, value) => value !== 2);
+        expect(map.equals(new HashMap([["c", 3], ["a", 1]]))).toBe(true);
+        expect(map.equals(new HashMap([["c", 3], ["a", 2]]))).toBe(false);
+        expect(Iter.from([["x", 1] as const]).collect(HashMap).get("x").unwrap()).toBe(1);
+    });
+});
+
+describe("HashSet", () => {
+    test("insert, contains, get, take and remove", () => {
+        const set = new HashSet<Point>();
+        const stored = new Point(1, 1);
+        expect(set.insert(stored)).toBe(true);
+        expect(set.insert(new Point(1, 1))).toBe(false);
+        expect(set.contains(new Point(1, 1))).toBe(true);
+        expect(set.get(new Point(1, 1)).unwrap()).toBe(stored);
+        expect(set.take(new Point(1, 1)).unwrap()).toBe(stored);
+        expect(set.remove(new Point(1, 1))).toBe(false);
+        expect(set.len()).toBe(0);
+    });
+
+    test("set operations return iterators", () => {
+        const a = HashSet.from([1, 2, 3]);
+        const b = HashSet.from([2, 3, 4]);
+        expect(a.union(b).collect()).toEqual([1, 2, 3, 4]);
+        expect(a.intersection(b).collect()).toEqual([2, 3]);
+        expect(a.difference(b).collect()).toEqual([1]);
+        expect(a.symmetricDifference(b).collect()).toEqual([1, 4]);
+        expect(HashSet.from([2, 3]).isSubset(a)).toBe(true);
+        expect(a.isSuperset(HashSet.from([3]))).toBe(true);
+        expect(a.isDisjoint(HashSet.from([5]))).toBe(true);
+        expect(a.equals(HashSet.from([3, 2, 1]))).toBe(true);
+        expect(Iter.from([new Point(), new Point()]).collect(HashSet).len()).toBe(1);
+    });
+});
+
+describe("Vec", () => {
+    test("accessors return Option", () => {
+        const vec = Vec.from([1, 2, 3]);
+        expect(vec.get(1).unwrap()).toBe(2);
+        expect(vec.get(3).isNone()).toBe(true);
+        expect(vec.get(-1).isNone()).toBe(true);
+        expect(vec.first().unwrap()).toBe(1);
+        expect(vec.last().unwrap()).toBe(3);
+        expect(vec.pop().unwrap()).toBe(3);
+        expect(new Vec<number>().pop().isNone()).toBe(true);
+        expect(vec.set(0, 9).unwrap()).toBe(1);
+        expect(vec.set(5, 9).isNone()).toBe(true);
+        expect(vec.toArray()).toEqual([9, 2]);
+    });
+
+    test("positional updates throw RangeError out of bounds", () => {
+        const vec = Vec.from(["a", "b", "c", "d"]);
+        expect(vec.swapRemove(0)).toBe("a");
+        expect(vec.toArray()).toEqual(["d", "b", "c"]);
+        vec.insert(3, "e");
+        expect(vec.remove(1)).toBe("b");
+        expect(vec.toArray()).toEqual(["d", "c", "e"]);
+        expect(() => vec.remove(3)).toThrow("removal index (is 3) should be < len (is 3)");
+        expect(() => vec.insert(5, "x")).toThrow(RangeError);
+    });
+
+    test("dedup, retain, drain and splitAt", () => {
+        const vec = Vec.from([1, 1, 2, 3, 3, 3, 1]);
+        vec.dedup();
+        expect(vec.toArray()).toEqual([1, 2, 3, 1]);
+        vec.retain((n) => n !== 2);
+        expect(vec.toArray()).toEqual([1, 3, 1]);
+
+        const drained = Vec.from([0, 1, 2, 3, 4]);
+        expect(drained.drain(1, 3).collect()).toEqual([1, 2]);
+        expect(drained.toArray()).toEqual([0, 3, 4]);
+        expect(() => drained.drain(2, 9)).toThrow("range 2..9 out of bounds for length 3");
+
+        const [left, right] = Vec.from([1, 2, 3]).splitAt(1);
+        expect([left.toArray(), right.toArray()]).toEqual([[1], [2, 3]]);
+        expect(Vec.from([[1], [1]]).contains([1])).toBe(true);
+    });
+
+    test("sorting and binarySearch", () => {
+        const vec = Vec.from([5, 1, 4, 2]);
+        vec.sortUnstableBy((a, b) => compare(b, a));
+        expect(vec.toArray()).toEqual([5, 4, 2, 1]);
+        vec.sort();
+        expect(vec.binarySearch(4).unwrap()).toBe(2);
+        expect(vec.binarySearch(3).unwrapErr()).toBe(2);
+        expect(vec.binarySearch(9).unwrapErr()).toBe(4);
+        expect(new Vec<number>().binarySearch(1).unwrapErr()).toBe(0);
+    });
+});
+
+describe("VecDeque", () => {
+    test("pushes and pops at both ends across buffer growth", () => {
+        const deque = new VecDeque<number>();
+        for (let i = 0; i < 10; i++) deque.pushBack(i);
+        for (let i = 1; i <= 10; i++) deque.pushFront(-i);
+        expect(deque.len()).toBe(20);
+        expect(deque.front().unwrap()).toBe(-10);
+        expect(deque.back().unwrap()).toBe(9);
+        expect(deque.popFront().unwrap()).toBe(-10);
+        expect(deque.popBack().unwrap()).toBe(9);
+        expect(deque.get(9).unwrap()).toBe(0);
+        expect(deque.toArray()).toEqual([-9, -8, -7, -6, -5, -4, -3, -2, -1, 0, 1, 2, 3, 4, 5, 6, 7, 8]);
+    });
+
+    test("wraps around the ring buffer", () => {
+        const deque = VecDeque.from([1, 2, 3]);
+        for (let i = 4; i < 30; i++) {
+            deque.pushBack(i);
+            deque.popFront();
+        }
+        expect([...deque]).toEqual([27, 28, 29]);
+        deque.clear();
+        expect(deque.popFront().isNone()).toBe(true);
+        expect(deque.back().isNone()).toBe(true);
+    });
+});
+
+describe("BinaryHeap", () => {
+    test("pops the greatest element first", () => {
+        const heap = BinaryHeap.from([3, 1, 4, 1, 5, 9, 2, 6]);
+        expect(heap.peek().unwrap()).toBe(9);
+        const popped: number[] = [];
+        for (let next = heap.pop(); next.isSome(); next = heap.pop()) popped.push(next.value);
+        expect(popped).toEqual([9, 6, 5, 4, 3, 2, 1, 1]);
+        expect(heap.pop().isNone()).toBe(true);
+    });
+
+    test("orders by a comparator", () => {
+        const tasks = new BinaryHeap<{ name: string; due: number }>((a, b) => compare(b.due, a.due));
+        tasks.push({ name: "later", due: 5 });
+        tasks.push({ name: "now", due: 1 });
+        tasks.push({ name: "soon", due: 3 });
+        expect(tasks.pop().unwrap().name).toBe("now");
+        expect(tasks.intoSortedVec().toArray().map((task) => task.name)).toEqual(["later", "soon"]);
+    });
+});
+
+describe("serde, Debug and Match support", () => {
+    const serdeFeatures = [Serialize, Deserialize] as const;
+
+    @derive(serdeFeatures)
+    class Inventory extends Derives(serdeFeatures) {
+        @serde({ items: () => Point })
+        stock!: HashMap<string, Point>;
+        @serde()
+        tags!: HashSet<string>;
+    }
+
+    test("serialize and deserialize HashMap and HashSet fields", () => {
+        const inventory = new Inventory();
+        inventory.stock = new HashMap([["origin", new Point(0, 0)]]);
+        inventory.tags = HashSet.from(["a", "b"]);
+        const data = inventory.serialize();
+        expect(data).toEqual({ stock: [["origin", { x: 0, y: 0 }]], tags: ["a", "b"] });
+
+        const restored = Inventory.deserialize(data);
+        expect(restored.stock).toBeInstanceOf(HashMap);
+        expect(restored.stock.get("origin").unwrap()).toBeInstanceOf(Point);
+        expect(restored.tags.contains("b")).toBe(true);
+        expect(JSON.stringify(restored.tags)).toBe('["a","b"]');
+    });
+
+    test("Vec, VecDeque and BinaryHeap serialize as arrays", () => {
+        @derive(serdeFeatures)
+        class Route extends Derives(serdeFeatures) {
+            @serde({ items: () => Point })
+            stops!: Vec<Point>;
+            @serde()
+            queue!: VecDeque<number>;
+            @serde()
+            heap!: BinaryHeap<number>;
+        }
+        const route = new Route();
+        route.stops = Vec.from([new Point(1, 2)]);
+        route.queue = VecDeque.from([1, 2]);
+        route.heap = BinaryHeap.from([7]);
+        const data = route.serialize();
+        expect(data).toEqual({ stops: [{ x: 1, y: 2 }], queue: [1, 2], heap: [7] });
+
+        const restored = Route.deserialize(data);
+        expect(restored.stops.first().unwrap()).toBeInstanceOf(Point);
+        expect(restored.queue.popFront().unwrap()).toBe(1);
+        expect(restored.heap.peek().unwrap()).toBe(7);
+        expect(Route.tryDeserialize({ stops: 1, queue: [], heap: [] }).unwrapErr().issues[0].path).toBe("stops");
+    });
+
+    test("debug output", () => {
+        expect(debugValue(new HashMap([["a", 1]]))).toBe('{"a": 1}');
+        expect(debugValue(HashSet.from([1, 2]))).toBe("{1, 2}");
+        expect(debugValue(Vec.from([1, 2]))).toBe("[1, 2]");
+        expect(debugValue(VecDeque.from(["a"]))).toBe('["a"]');
+    });
+
+    test("entry and contains patterns", () => {
+        const describe = (config: HashMap<string, number>) => Match.on(config)
+            .with(P.entry("port", P.range(0, 1023)), (port) => `privileged ${port}`)
+            .with(P.entry("port"), (port) => `port ${port}`)
+            .with(P.contains("host"), () => "host only")
+            .with(P._, () => "empty")
+            .exhaustive();
+        expect(describe(new HashMap([["port", 80]]))).toBe("privileged 80");
+        expect(describe(new HashMap([["port", 8080]]))).toBe("port 8080");
+        expect(describe(new HashMap([["host", 1]]))).toBe("host only");
+        expect(describe(new HashMap())).toBe("empty");
+        expect(Match.on(HashSet.from(["admin"])).with(P.contains("admin"), () => true).default(() => false)).toBe(true);
+    });
+});
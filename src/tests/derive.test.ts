@@ -1,10 +1,12 @@
 import "reflect-metadata";
-import { derive } from "../derive";
-import { serde, Serialize, Deserialize } from "../lib";
+import { createDeriveRegistry, derive, DeriveError, Derived, Derives, DerivePlugin } from "../derive";
+import { Clone, Eq, Hash, PartialEq, serde, Serialize, Deserialize } from "../lib";
 
 // Use array literal with as const to ensure proper type inference
-@derive([Serialize, Deserialize] as const)
-class UserDTO {
+const userFeatures = [Serialize, Deserialize] as const;
+
+@derive(userFeatures)
+class UserDTO extends Derives(userFeatures) {
     id: string;
     @serde({ serialize_with: (v: number) => v / 100 })
     balance: number;
@@ -12,6 +14,7 @@ class UserDTO {
     created_at?: string;
 
     constructor(id: string, balance: number) {
+        super();
         this.id = id;
         this.balance = balance;
     }
@@ -26,12 +29,10 @@ class EmptyDerived {
 describe("derive with dynamic plugin types", () => {
     test("Serialize works with custom serializer", () => {
         const user = new UserDTO("1", 10000);
-        // @ts-expect-error
         expect(user.serialize()).toEqual({ id: "1", balance: 100, createdAt: "Sun, 09 Mar 2025 14:58:21 GMT" });
     });
 
     test("Deserialize works with plain object", () => {
-        // @ts-expect-error
         const user = UserDTO.deserialize({ id: "2", balance: 20000 });
         expect(user.id).toBe("2");
         expect(user.balance).toBe(20000);
@@ -40,7 +41,6 @@ describe("derive with dynamic plugin types", () => {
 
     test("from converts source object", () => {
         const raw = { id: "3", balance: 30000 };
-        // @ts-expect-error
         const user = UserDTO.from(raw);
         expect(user.id).toBe("3");
         expect(user.balance).toBe(30000);
@@ -56,11 +56,10 @@ describe("derive with dynamic plugin types", () => {
 
     test("Serialize only adds serialize method", () => {
         @derive([Serialize] as const)
-        class SerializeOnly {
+        class SerializeOnly extends Derives([Serialize] as const) {
             id: string = "test";
         }
         const instance = new SerializeOnly();
-        // @ts-expect-error
         expect(typeof instance.serialize).toBe("function");
         expect((SerializeOnly as any).deserialize).toBeUndefined();
         expect((SerializeOnly as any).from).toBeUndefined();
@@ -68,14 +67,128 @@ describe("derive with dynamic plugin types", () => {
 
     test("Deserialize only adds deserialize and from methods", () => {
         @derive([Deserialize] as const)
-        class DeserializeOnly {
+        class DeserializeOnly extends Derives([Deserialize] as const) {
             id: string = "test";
         }
         const instance = new DeserializeOnly();
         expect((instance as any).serialize).toBeUndefined();
-        // @ts-expect-error
         expect(typeof DeserializeOnly.deserialize).toBe("function");
-        // @ts-expect-error
         expect(typeof DeserializeOnly.from).toBe("function");
     });
-});
\ No newline at end of file
+});
+
+describe("derive typing", () => {
+    test("derive(features)(constructor) returns the class with the features' types", () => {
+        class Point {
+            x: number = 1;
+        }
+        const TypedPoint = derive([Serialize, Deserialize, Clone] as const)(Point);
+        const point = TypedPoint.deserialize({ x: 2 });
+        expect(point.clone().serialize()).toEqual({ x: 2 });
+        expect(TypedPoint.tryDeserialize({ x: 3 }).unwrap().x).toBe(3);
+    });
+
+    test("Derived merges the instance members into a decorated class", () => {
+        const features = [PartialEq, Hash] as const;
+        interface Money extends Derived<typeof features> { }
+        @derive(features)
+        class Money {
+            amount: number = 1;
+        }
+        expect(new Money().eq(new Money())).toBe(true);
+        expect(typeof new Money().hashCode()).toBe("number");
+    });
+
+    test("Derives throws when the class is not decorated with every feature", () => {
+        class Undecorated extends Derives([Serialize] as const) { }
+        expect(() => new Undecorated()).toThrow("Undecorated extends Derives(...) but does not derive Serialize");
+    });
+});
+
+describe("derive registries", () => {
+    const loggable: DerivePlugin = {
+        feature: "Loggable",
+        extendPrototype: (prototype) => {
+            prototype.log = function () {
+                return `log ${this.id}`;
+            };
+        },
+    };
+
+    test("registries are isolated from the default one", () => {
+        const registry = createDeriveRegistry();
+        registry.register(loggable);
+        expect(registry.features()).toEqual(["Loggable"]);
+
+        @registry.derive(["Loggable"] as const)
+        class Entry {
+            id = 1;
+        }
+        expect((new Entry() as any).log()).toBe("log 1");
+        expect(registry.has(Serialize)).toBe(false);
+    });
+
+    test("extend copies another registry's plugins", () => {
+        const base = createDeriveRegistry();
+        base.register(loggable);
+        const extended = createDeriveRegistry({ extend: base });
+        extended.unregister("Loggable");
+        expect(base.has("Loggable")).toBe(true);
+        expect(extended.has("Loggable")).toBe(false);
+    });
+
+    test("strict registries throw on unknown features", () => {
+        const registry = createDeriveRegistry({ strict: true });
+        expect(() => registry.derive(["Missing"] as const)(class Widget { })).toThrow(DeriveError);
+        expect(() => registry.derive(["Missing"] as const)(class Widget { }))
+            .toThrow("No plugin registered for feature: Missing");
+    });
+
+    test("required features must be derived too", () => {
+        expect(() => derive([Eq] as const)(class Key { })).toThrow("Key derives Eq, which requires PartialEq");
+        expect(() => derive([Eq, PartialEq] as const)(class Key { })).not.toThrow();
+    });
+
+    test("conflicting features cannot be combined", () => {
+        const registry = createDeriveRegistry();
+        registry.register({ feature: "Copy", conflicts: ["Drop"] });
+        registry.register({ feature: "Drop" });
+        expect(() => registry.derive(["Drop", "Copy"] as const)(class Handle { }))
+            .toThrow("Handle derives Copy, which conflicts with Drop");
+    });
+
+    test("plugins run after the plugins they require, then in listed order", () => {
+        const calls: string[] = [];
+        const registry = createDeriveRegistry({ strict: true });
+        const track = (feature: string, requires?: string[]): DerivePlugin => ({
+            feature,
+            requires,
+            extendPrototype: () => { calls.push(`prototype ${feature}`); },
+            initializeInstance: () => { calls.push(`init ${feature}`); },
+        });
+        registry.register(track("A", ["C"]));
+        registry.register(track("B"));
+        registry.register(track("C"));
+
+        const Tracked = registry.derive(["B", "A", "C"] as const)(class Tracked { });
+        new Tracked();
+        expect(calls).toEqual([
+            "prototype B", "prototype C", "prototype A",
+            "init B", "init C", "init A",
+        ]);
+    });
+
+    test("unregistered plugins no longer apply to new classes", () => {
+        const registry = createDeriveRegistry();
+        registry.register(loggable);
+        const Before = registry.derive(["Loggable"] as const)(class Before { });
+        expect(registry.unregister("Loggable")).toBe(true);
+        expect(registry.unregister("Loggable")).toBe(false);
+        const warn = jest.spyOn(console, "warn").mockImplementation(() => { });
+        const After = registry.derive(["Loggable"] as const)(class After { });
+        expect(warn).toHaveBeenCalledWith("No plugin registered for feature: Loggable");
+        warn.mockRestore();
+        expect(typeof (new Before() as any).log).toBe("function");
+        expect((new After() as any).log).toBeUndefined();
+    });
+});
@@ -0,0 +1,69 @@
+import { derive, Derives } from "../derive";
+import { Enum, EnumValueOf } from "../enum";
+import { Match } from "../match";
+import { Serialize } from "../lib";
+
+const Shape = Enum({
+    Circle: (r: number) => ({ r }),
+    Rect: (w: number, h: number) => ({ w, h }),
+    Empty: null,
+});
+type Shape = EnumValueOf<typeof Shape>;
+
+function area(shape: Shape): number {
+    return Match.on<Shape, number>(shape)
+        .variant("Circle", ({ r }) => Math.PI * r * r)
+        .variant("Rect", ({ w, h }) => w * h)
+        .variant("Empty", () => 0)
+        .default(() => -1);
+}
+
+describe("Enum", () => {
+    test("constructors build tagged values", () => {
+        const circle = Shape.Circle(2);
+        expect(circle.variant).toBe("Circle");
+        expect(circle.payload).toEqual({ r: 2 });
+        expect(Shape.Empty.variant).toBe("Empty");
+        expect(Shape.variants).toEqual(["Circle", "Rect", "Empty"]);
+    });
+
+    test("is<Variant> guards narrow the payload", () => {
+        const shape: Shape = Shape.Rect(2, 3);
+        expect(Shape.isCircle(shape)).toBe(false);
+        if (Shape.isRect(shape)) {
+            expect(shape.payload.w * shape.payload.h).toBe(6);
+        }
+        expect(Shape.isEmpty(Shape.Empty)).toBe(true);
+        expect(Shape.isEmpty(Enum({ Empty: null }).Empty)).toBe(false);
+    });
+
+    test("equals compares structurally within the same enum", () => {
+        expect(Shape.Circle(1).equals(Shape.Circle(1))).toBe(true);
+        expect(Shape.Circle(1).equals(Shape.Circle(2))).toBe(false);
+        expect(Shape.Empty.equals(Enum({ Empty: null }).Empty)).toBe(false);
+    });
+
+    test("toString, toJSON and deserialize round-trip", () => {
+        expect(Shape.Circle(1).toString()).toBe('Circle({"r":1})');
+        expect(Shape.Empty.toString()).toBe("Empty");
+        const json = JSON.parse(JSON.stringify([Shape.Rect(1, 2), Shape.Empty]));
+        expect(json).toEqual([{ Rect: { w: 1, h: 2 } }, "Empty"]);
+        expect(Shape.deserialize(json[0]).equals(Shape.Rect(1, 2))).toBe(true);
+        expect(Shape.deserialize(json[1])).toBe(Shape.Empty);
+        expect(() => Shape.deserialize({ Triangle: {} })).toThrow();
+    });
+
+    test("derived Serialize writes enum fields externally tagged", () => {
+        @derive([Serialize] as const)
+        class Drawing extends Derives([Serialize] as const) {
+            shape: Shape = Shape.Circle(3);
+        }
+        expect(new Drawing().serialize()).toEqual({ shape: { Circle: { r: 3 } } });
+    });
+
+    test("Match matches variants by name", () => {
+        expect(area(Shape.Rect(2, 3))).toBe(6);
+        expect(area(Shape.Empty)).toBe(0);
+        expect(Match.on(Shape.Circle(1) as Shape).variant("Rect", () => "rect").default(() => "other")).toBe("other");
+    });
+});
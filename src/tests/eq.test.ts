@@ -0,0 +1,95 @@
+import "reflect-metadata";
+import { derive, Derives } from "../derive";
+import { Option } from "../types";
+import { eq, Eq, Hash, hashValue, PartialEq } from "../lib";
+
+@derive([PartialEq, Hash] as const)
+class Money extends Derives([PartialEq, Hash] as const) {
+    constructor(public amount: number = 0, public currency: string = "EUR") {
+        super();
+    }
+}
+
+@derive([PartialEq, Eq, Hash] as const)
+class Wallet extends Derives([PartialEq, Eq, Hash] as const) {
+    owner: string = "";
+    balance: Money = new Money();
+    history: Money[] = [];
+    limits: Map<string, number> = new Map();
+    note: Option<string> = Option.none();
+    @eq({ skip: true })
+    lastAccess: Date = new Date();
+}
+
+function wallet(owner: string): Wallet {
+    const value = new Wallet();
+    value.owner = owner;
+    value.balance = new Money(10);
+    value.history = [new Money(5), new Money(5)];
+    value.limits = new Map([["daily", 100], ["monthly", 1000]]);
+    value.note = Option.some("main");
+    return value;
+}
+
+describe("PartialEq and Eq", () => {
+    test("eq compares fields structurally", () => {
+        expect(new Money(1).eq(new Money(1))).toBe(true);
+        expect(new Money(1).eq(new Money(1, "USD"))).toBe(false);
+        expect(new Money(1).ne(new Money(2))).toBe(true);
+        expect(wallet("ann").eq(wallet("ann"))).toBe(true);
+        expect(wallet("ann").eq(wallet("bob"))).toBe(false);
+    });
+
+    test("eq recurses into nested values", () => {
+        const other = wallet("ann");
+        other.history[1] = new Money(6);
+        expect(wallet("ann").eq(other)).toBe(false);
+
+        const reordered = wallet("ann");
+        reordered.limits = new Map([["monthly", 1000], ["daily", 100]]);
+        expect(wallet("ann").eq(reordered)).toBe(true);
+    });
+
+    test("eq requires the same class", () => {
+        expect(new Money(1).eq({ amount: 1, currency: "EUR" })).toBe(false);
+        expect(new Money(1).eq(null)).toBe(false);
+    });
+
+    test("skipped fields are ignored", () => {
+        const a = wallet("ann");
+        const b = wallet("ann");
+        b.lastAccess = new Date(0);
+        expect(a.eq(b)).toBe(true);
+        expect(a.hashCode()).toBe(b.hashCode());
+    });
+
+    test("Option equality uses derived eq for payloads", () => {
+        expect(Option.some(new Money(3)).equals(Option.some(new Money(3)))).toBe(true);
+    });
+});
+
+describe("Hash", () => {
+    test("equal values have equal hashes", () => {
+        expect(new Money(1).hashCode()).toBe(new Money(1).hashCode());
+        expect(wallet("ann").hashCode()).toBe(wallet("ann").hashCode());
+
+        const reordered = wallet("ann");
+        reordered.limits = new Map([["monthly", 1000], ["daily", 100]]);
+        expect(reordered.hashCode()).toBe(wallet("ann").hashCode());
+    });
+
+    test("different values usually have different hashes", () => {
+        expect(new Money(1).hashCode()).not.toBe(new Money(2).hashCode());
+        expect(new Money(1, "EUR").hashCode()).not.toBe(new Money(1, "USD").hashCode());
+        expect(hashValue([1, 2])).not.toBe(hashValue([2, 1]));
+        expect(hashValue({ a: 1, b: 2 })).not.toBe(hashValue({ a: 2, b: 1 }));
+    });
+
+    test("hashes are stable 32-bit integers", () => {
+        expect(hashValue("hello")).toBe(1335831723);
+        expect(Number.isInteger(wallet("ann").hashCode())).toBe(true);
+        expect(hashValue(0)).toBe(hashValue(-0));
+        expect(hashValue(Option.some(1))).toBe(hashValue(Option.some(1)));
+        expect(hashValue(Option.some(1))).not.toBe(hashValue(Option.none()));
+    });
+});
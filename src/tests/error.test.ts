@@ -0,0 +1,135 @@
+import "reflect-metadata";
+import { derive, Derives, DeriveError } from "../derive";
+import { AnyError, errorChain } from "../error";
+import { ResultAsync } from "../async";
+import { Option, Result } from "../types";
+import { Debug, Display, ErrorFeature, error, source } from "../lib";
+
+const features = [ErrorFeature, Debug] as const;
+
+@derive(features)
+@error("cannot read {path:?}")
+class ReadError extends Derives(features) {
+    @source()
+    cause: Option<Error>;
+
+    constructor(public path: string, cause?: Error) {
+        super();
+        this.cause = Option.fromNullable(cause);
+    }
+}
+
+@derive(features)
+@error((e: ConfigError) => `invalid config (${e.line} problems)`)
+class ConfigError extends Derives(features) {
+    @source()
+    inner: ReadError;
+
+    constructor(public line: number, inner: ReadError) {
+        super();
+        this.inner = inner;
+    }
+}
+
+describe("AnyError", () => {
+    test("context layers form a chain, outermost first", () => {
+        const root = new Error("ENOENT");
+        const error = AnyError.from(new Error("read failed", { cause: root })).context("loading config");
+        expect(error.chain().map((e) => (e as Error).message).collect())
+            .toEqual(["loading config", "read failed", "ENOENT"]);
+        expect(error.rootCause()).toBe(root);
+        expect(`${error}`).toBe("loading config: read failed: ENOENT");
+        expect(error.debug()).toBe("loading config\n\nCaused by:\n    0: read failed\n    1: ENOENT");
+        expect(error.backtrace()).toContain("error.test.ts");
+    });
+
+    test("from keeps AnyErrors and converts other values", () => {
+        const any = new AnyError("boom");
+        expect(AnyError.from(any)).toBe(any);
+        expect(AnyError.from("plain").message).toBe("plain");
+        expect(AnyError.from({ code: 7 }).message).toBe("{ code: 7 }");
+    });
+
+    test("downcast finds a typed error anywhere in the chain", () => {
+        const read = new ReadError("a.toml");
+        const error = AnyError.from(read).context("startup");
+        expect(error.downcast(ReadError).unwrap()).toBe(read);
+        expect(error.downcast(TypeError).isNone()).toBe(true);
+    });
+});
+
+describe("context and withContext", () => {
+    test("wrap an Err and keep the original error as the source", () => {
+        const result = Result.err<number, string>("disk full").context("saving");
+        const error = result.unwrapErr();
+        expect(error).toBeInstanceOf(AnyError);
+        expect(error.toString()).toBe("saving: disk full");
+        expect(error.source().unwrap()).toBe("disk full");
+    });
+
+    test("withContext builds the message only for an Err", () => {
+        const fn = jest.fn((e: string) => `while handling ${e}`);
+        expect(Result.ok<number, string>(1).withContext(fn).unwrap()).toBe(1);
+        expect(fn).not.toHaveBeenCalled();
+        expect(Result.err<number, string>("x").withContext(fn).unwrapErr().message).toBe("while handling x");
+    });
+
+    test("work on Option and ResultAsync", async () => {
+        expect(Option.none().context("no user").unwrapErr().message).toBe("no user");
+        expect(Option.some(1).context("no user").unwrap()).toBe(1);
+        const error = (await ResultAsync.err<number, string>("timeout").context("fetching")).unwrapErr();
+        expect(error.toString()).toBe("fetching: timeout");
+    });
+});
+
+describe("unwrap and expect", () => {
+    test("include the Debug output of the error and keep it as the cause", () => {
+        const inner = new ReadError("a.toml");
+        const result = Result.err<number, ReadError>(inner);
+        expect(() => result.unwrap()).toThrow(
+            'Called unwrap on an Err value: ReadError { path: "a.toml", cause: None }'
+        );
+        expect(() => result.expect("config is required")).toThrow("config is required: ReadError");
+        try {
+            result.unwrap();
+        } catch (thrown) {
+            expect((thrown as Error).cause).toBe(inner);
+        }
+        expect(() => Result.ok(5).unwrapErr()).toThrow("Called unwrapErr on an Ok value: 5");
+        expect(() => Option.none().expect("missing")).toThrow("missing");
+    });
+
+    test("print the cause chain of an AnyError", () => {
+        const result = Result.err<number, string>("ENOENT").context("loading config");
+        expect(() => result.unwrap()).toThrow("loading config\n\nCaused by:\n    ENOENT");
+    });
+});
+
+describe("Error derive", () => {
+    test("renders message from the template and links the source", () => {
+        const io = new Error("permission denied");
+        const read = new ReadError("/etc/app", io);
+        expect(read.message()).toBe('cannot read "/etc/app"');
+        expect(`${read}`).toBe('cannot read "/etc/app"');
+        expect(read.source().unwrap()).toBe(io);
+        expect(new ReadError("x").source().isNone()).toBe(true);
+
+        const config = new ConfigError(3, read);
+        expect(config.message()).toBe("invalid config (3 problems)");
+        expect(config.chain().collect()).toEqual([config, read, io]);
+        expect(errorChain(config).count()).toBe(3);
+        expect(AnyError.from(config).toString())
+            .toBe('invalid config (3 problems): cannot read "/etc/app": permission denied');
+    });
+
+    test("requires an @error template and conflicts with Display", () => {
+        @derive([ErrorFeature] as const)
+        class Untemplated extends Derives([ErrorFeature] as const) { }
+        expect(() => new Untemplated().message()).toThrow("Untemplated derives Error but has no @error template");
+        expect(() => {
+            @derive([ErrorFeature, Display])
+            class Both { }
+            return Both;
+        }).toThrow(DeriveError);
+    });
+});
@@ -0,0 +1,127 @@
+import "reflect-metadata";
+import { inspect } from "util";
+import { derive, Derives } from "../derive";
+import { Enum } from "../enum";
+import { Option, Result } from "../types";
+import { Debug, debug, debugValue, Display, display, format } from "../lib";
+
+const Role = Enum({ Admin: null, Member: (team: string) => ({ team }), Guest: (days: number) => days });
+
+@derive([Debug, Display] as const)
+@display("{name} ({age:?})")
+class User extends Derives([Debug, Display] as const) {
+    name: string = "a";
+    age: Option<number> = Option.some(3);
+    @debug({ redact: true })
+    password: string = "hunter2";
+    @debug({ skip: true })
+    cache: Map<string, number> = new Map();
+    friends: User[] = [];
+}
+
+@derive([Debug] as const)
+class Node extends Derives([Debug] as const) {
+    next?: Node;
+    constructor(public value: number) {
+        super();
+    }
+}
+
+@derive([Display] as const)
+@display((p: Point) => `(${p.x}, ${p.y})`)
+class Point extends Derives([Display] as const) {
+    constructor(public x: number, public y: number) {
+        super();
+    }
+}
+
+@derive([Display] as const)
+class Untemplated extends Derives([Display] as const) { }
+
+describe("Debug", () => {
+    test("debug prints values in Rust's {:?} style", () => {
+        expect(new User().debug()).toBe('User { name: "a", age: Some(3), password: [REDACTED], friends: [] }');
+    });
+
+    test("debugPretty prints values in Rust's {:#?} style", () => {
+        const user = new User();
+        user.friends = [new User()];
+        user.friends[0].age = Option.none();
+        expect(user.debugPretty()).toBe([
+            "User {",
+            '    name: "a",',
+            "    age: Some(",
+            "        3,",
+            "    ),",
+            "    password: [REDACTED],",
+            "    friends: [",
+            "        User {",
+            '            name: "a",',
+            "            age: None,",
+            "            password: [REDACTED],",
+            "            friends: [],",
+            "        },",
+            "    ],",
+            "}",
+        ].join("\n"));
+    });
+
+    test("debugValue formats containers, Results and enums", () => {
+        expect(debugValue(Result.ok([1, 2]))).toBe("Ok([1, 2])");
+        expect(debugValue(Result.err("boom"))).toBe('Err("boom")');
+        expect(debugValue(new Map([["a", 1]]))).toBe('{"a": 1}');
+        expect(debugValue(new Set([1n]))).toBe("{1}");
+        expect(debugValue({ x: 1, y: undefined })).toBe("{ x: 1, y: undefined }");
+        expect(debugValue(Role.Admin)).toBe("Admin");
+        expect(debugValue(Role.Member("ops"))).toBe('Member { team: "ops" }');
+        expect(debugValue(Role.Guest(3))).toBe("Guest(3)");
+        expect(debugValue(new Date(0))).toBe("Date(1970-01-01T00:00:00.000Z)");
+    });
+
+    test("cycles are printed as [Circular]", () => {
+        const node = new Node(1);
+        node.next = new Node(2);
+        node.next.next = node;
+        expect(node.debug()).toBe("Node { value: 1, next: Node { value: 2, next: [Circular] } }");
+    });
+
+    test("shared references that are not cycles are printed in full", () => {
+        const shared = new Node(1);
+        expect(debugValue([shared, shared])).toBe("[Node { value: 1, next: undefined }, Node { value: 1, next: undefined }]");
+    });
+
+    test("console.log and util.inspect use the Debug output", () => {
+        expect(inspect(new Node(1))).toBe("Node {\n    value: 1,\n    next: undefined,\n}");
+    });
+});
+
+describe("Display", () => {
+    test("toString renders the @display template", () => {
+        expect(`${new User()}`).toBe("a (Some(3))");
+        expect(new Point(1, 2).toString()).toBe("(1, 2)");
+    });
+
+    test("a missing template is reported", () => {
+        expect(() => `${new Untemplated()}`).toThrow("Untemplated derives Display but has no @display template");
+    });
+});
+
+describe("format", () => {
+    test("uses Display for {} and Debug for {:?}", () => {
+        expect(format("{} is {:?}", new Point(1, 2), "text")).toBe('(1, 2) is "text"');
+        expect(format("{} and {:?}", Option.some(1), Option.none())).toBe("Some(1) and None");
+    });
+
+    test("supports positional arguments, pretty Debug and escaped braces", () => {
+        expect(format("{1} {0} {{}}", "a", "b")).toBe("b a {}");
+        expect(format("{:#?}", [1])).toBe("[\n    1,\n]");
+    });
+
+    test("falls back to Debug for objects without Display", () => {
+        expect(format("{}", new Node(1))).toBe("Node { value: 1, next: undefined }");
+    });
+
+    test("throws when an argument is missing", () => {
+        expect(() => format("{} {}", 1)).toThrow("format: no argument for placeholder {} (got 1 arguments)");
+    });
+});
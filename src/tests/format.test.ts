@@ -0,0 +1,221 @@
+import "reflect-metadata";
+import { derive, Derives } from "../derive";
+import { Option } from "../types";
+import {
+    DataFormat,
+    Deserialize,
+    deserializeFrom,
+    fromCsv,
+    fromJson,
+    fromJsonArray,
+    fromMessagePack,
+    fromMessagePackArray,
+    fromQueryString,
+    getFormat,
+    QueryString,
+    registerFormat,
+    serde,
+    Serialize,
+    serializeTo,
+    toCsv,
+    toJson,
+    toMessagePack,
+    toQueryString,
+} from "../lib";
+
+@derive([Serialize, Deserialize] as const)
+class Address extends Derives([Serialize, Deserialize] as const) {
+    street: string = "";
+    @serde({ rename: "zipCode" })
+    zip: string = "";
+}
+
+@derive([Serialize, Deserialize] as const)
+class Order extends Derives([Serialize, Deserialize] as const) {
+    @serde({ rename: "orderId" })
+    id: number = 0;
+    paid: boolean = false;
+    @serde()
+    note: Option<string> = Option.none();
+    @serde({ type: () => Address })
+    address: Address = new Address();
+    @serde()
+    tags: string[] = [];
+}
+
+@derive([Serialize, Deserialize] as const)
+class Account extends Derives([Serialize, Deserialize] as const) {
+    name: string = "";
+}
+
+function order(id: number, note: Option<string>, tags: string[] = []): Order {
+    const value = new Order();
+    value.id = id;
+    value.paid = id % 2 === 0;
+    value.note = note;
+    value.address.street = "Main St";
+    value.address.zip = "12345";
+    value.tags = tags;
+    return value;
+}
+
+describe("Data formats", () => {
+    it("should write and read JSON with renamed fields", () => {
+        const text = toJson(order(1, Option.some("fragile")));
+        expect(JSON.parse(text)).toEqual({
+            orderId: 1,
+            paid: false,
+            note: "fragile",
+            address: { street: "Main St", zipCode: "12345" },
+            tags: [],
+        });
+
+        const restored = fromJson(Order, text);
+        expect(restored).toBeInstanceOf(Order);
+        expect(restored.address).toBeInstanceOf(Address);
+        expect(restored.address.zip).toBe("12345");
+        expect(restored.note.unwrap()).toBe("fragile");
+    });
+
+    it("should pretty-print JSON", () => {
+        const address = new Address();
+        expect(toJson(address, { pretty: true })).toBe('{\n  "street": "",\n  "zipCode": ""\n}');
+        expect(toJson(address, { pretty: 4 })).toBe('{\n    "street": "",\n    "zipCode": ""\n}');
+    });
+
+    it("should read JSON and MessagePack arrays with the array variants only", () => {
+        const orders = [order(1, Option.none()), order(2, Option.none())];
+        const restored = fromJsonArray(Order, toJson(orders));
+        expect(restored.map((o) => o.id)).toEqual([1, 2]);
+        expect(restored[1]).toBeInstanceOf(Order);
+        expect(fromMessagePackArray(Order, toMessagePack(orders)).map((o) => o.id)).toEqual([1, 2]);
+        expect(() => fromJson(Order, toJson(orders))).toThrow(TypeError);
+        expect(() => fromMessagePack(Order, toMessagePack(orders))).toThrow(TypeError);
+        expect(() => fromJsonArray(Order, toJson(orders[0]))).toThrow(TypeError);
+    });
+
+    it("should write nested query strings and convert values back", () => {
+        const query = toQueryString(order(2, Option.some("a&b"), ["x", "y"]));
+        expect(decodeURIComponent(query)).toBe(
+            "orderId=2&paid=true&note=a&b&address[street]=Main+St&address[zipCode]=12345&tags[0]=x&tags[1]=y"
+        );
+
+        const restored = fromQueryString(Order, query);
+        expect(restored.id).toBe(2);
+        expect(restored.paid).toBe(true);
+        expect(restored.note.unwrap()).toBe("a&b");
+        expect(restored.address.zip).toBe("12345");
+        expect(restored.tags).toEqual(["x", "y"]);
+    });
+
+    it("should omit None values from query strings", () => {
+        const restored = fromQueryString(Order, `?${toQueryString(order(3, Option.none()))}`);
+        expect(restored.note.isNone()).toBe(true);
+    });
+
+    it("should keep prototype-like query string keys as ordinary fields", () => {
+        const parsed = QueryString.deserialize("__proto__[polluted]=yes&a[0]=1&a[__proto__][polluted]=yes") as Record<string, unknown>;
+        expect("polluted" in {}).toBe(false);
+        expect("polluted" in []).toBe(false);
+        expect(Object.keys(parsed)).toEqual(["__proto__", "a"]);
+        expect(Object.getOwnPropertyDescriptor(parsed, "__proto__")?.value).toEqual({ polluted: "yes" });
+        expect(QueryString.deserialize("toString=a&toString=b")).toEqual({ toString: ["a", "b"] });
+    });
+
+    it("should round-trip constructor and prototype query string keys", () => {
+        const query = "name=x&constructor=1&prototype=2&nested[constructor]=3";
+        const parsed = QueryString.deserialize(query);
+        expect(parsed).toEqual({ name: "x", constructor: "1", prototype: "2", nested: { constructor: "3" } });
+        expect(decodeURIComponent(QueryString.serialize(parsed))).toBe(query);
+        const account = fromQueryString(Account, query);
+        expect(account).toBeInstanceOf(Account);
+        expect(account.name).toBe("x");
+    });
+
+    it("should write CSV with a header from renamed fields", () => {
+        const csv = toCsv([order(1, Option.some('say "hi", please')), order(2, Option.none())]);
+        expect(csv).toBe(
+            "orderId,paid,note,address,tags\r\n" +
+            '1,false,"say ""hi"", please","{""street"":""Main St"",""zipCode"":""12345""}",[]\r\n' +
+            '2,true,,"{""street"":""Main St"",""zipCode"":""12345""}",[]\r\n'
+        );
+    });
+
+    it("should read CSV rows back into instances", () => {
+        const csv = toCsv([order(1, Option.some('say "hi", please')), order(2, Option.none())], { delimiter: ";" });
+        const [first, second] = fromCsv(Order, csv, { delimiter: ";" });
+        expect(first.id).toBe(1);
+        expect(first.paid).toBe(false);
+        expect(first.note.unwrap()).toBe('say "hi", please');
+        expect(first.address).toBeInstanceOf(Address);
+        expect(first.address.street).toBe("Main St");
+        expect(second.paid).toBe(true);
+        expect(second.note.isNone()).toBe(true);
+    });
+
+    it("should round-trip MessagePack bytes", () => {
+        const bytes = toMessagePack(order(300, Option.some("ü"), ["a"]));
+        expect(bytes).toBeInstanceOf(Uint8Array);
+        // fixmap with 5 entries, then the fixstr key "orderId" and a uint16 300
+        expect(Array.from(bytes.slice(0, 12))).toEqual([0x85, 0xa7, ...Buffer.from("orderId"), 0xcd, 0x01, 0x2c]);
+
+        const restored = fromMessagePack(Order, bytes);
+        expect(restored.id).toBe(300);
+        expect(restored.note.unwrap()).toBe("ü");
+        expect(restored.address.zip).toBe("12345");
+        expect(restored.tags).toEqual(["a"]);
+    });
+
+    it("should decode a MessagePack \"__proto__\" key as an ordinary field", () => {
+        // fixmap with 1 entry: fixstr "__proto__" -> fixmap { "isAdmin": true }
+        const bytes = Uint8Array.from([0x81, 0xa9, ...Buffer.from("__proto__"), 0x81, 0xa7, ...Buffer.from("isAdmin"), 0xc3]);
+        const decoded = getFormat("msgpack").unwrap().deserialize(bytes) as Record<string, unknown>;
+        expect(Object.keys(decoded)).toEqual(["__proto__"]);
+        expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+        expect(decoded.isAdmin).toBeUndefined();
+    });
+
+    it("should not let a \"__proto__\" input key replace the prototype of the instance", () => {
+        const json = '{"name":"x","__proto__":{"isAdmin":true}}';
+        // fixmap with 2 entries: "name" -> "x", "__proto__" -> { "isAdmin": true }
+        const bytes = Uint8Array.from([
+            0x82, 0xa4, ...Buffer.from("name"), 0xa1, ...Buffer.from("x"),
+            0xa9, ...Buffer.from("__proto__"), 0x81, 0xa7, ...Buffer.from("isAdmin"), 0xc3,
+        ]);
+        const decoded = [fromJson(Account, json), fromMessagePack(Account, bytes), Account.tryDeserialize(JSON.parse(json)).unwrap()];
+        for (const account of decoded) {
+            expect(account).toBeInstanceOf(Account);
+            expect(account.name).toBe("x");
+            expect("isAdmin" in account).toBe(false);
+            expect(typeof account.serialize).toBe("function");
+        }
+    });
+
+    it("should encode MessagePack scalars compactly", () => {
+        const msgpack = getFormat("msgpack").unwrap();
+        const values = [null, true, -1, -200, 70000, 2 ** 40, 1.5, "x".repeat(40), [1, 2]];
+        expect(msgpack.deserialize(msgpack.serialize(values))).toEqual(values);
+        expect(Array.from(msgpack.serialize(-1))).toEqual([0xff]);
+        expect(msgpack.deserialize(msgpack.serialize(2n ** 63n))).toBe(2n ** 63n);
+        expect(() => msgpack.deserialize(new Uint8Array([0xc1]))).toThrow("Unsupported MessagePack type 0xc1");
+    });
+
+    it("should use registered custom formats by name", () => {
+        const lines: DataFormat<string> = {
+            name: "lines",
+            serialize: (data) =>
+                Object.entries(data as Record<string, unknown>).map(([k, v]) => `${k}: ${v}`).join("\n"),
+            deserialize: (input) =>
+                Object.fromEntries(input.split("\n").map((line) => line.split(": "))),
+            stringValues: true,
+        };
+        registerFormat(lines);
+
+        const address = new Address();
+        address.zip = "999";
+        const text = serializeTo<string, {}>("lines", address);
+        expect(text).toBe("street: \nzipCode: 999");
+        expect((deserializeFrom(Address, "lines", text) as Address).zip).toBe("999");
+        expect(() => serializeTo("unknown", address)).toThrow("No format registered with name: unknown");
+    });
+});
@@ -0,0 +1,115 @@
+import { Option, Result, String } from "../types";
+import { Iter } from "../iter";
+
+describe("Iter adapters", () => {
+    test("map and filter are lazy", () => {
+        const seen: number[] = [];
+        const iter = Iter.from([1, 2, 3, 4]).map((x) => {
+            seen.push(x);
+            return x * 2;
+        }).filter((x) => x > 2);
+        expect(seen).toEqual([]);
+        expect(iter.next().unwrap()).toBe(4);
+        expect(seen).toEqual([1, 2]);
+        expect(iter.collect()).toEqual([6, 8]);
+    });
+
+    test("filterMap keeps Some payloads", () => {
+        const parsed = Iter.from(["1", "x", "3"])
+            .filterMap((s) => (isNaN(Number(s)) ? Option.none<number>() : Option.some(Number(s))))
+            .collect();
+        expect(parsed).toEqual([1, 3]);
+    });
+
+    test("flatMap, take, skip and takeWhile", () => {
+        expect(Iter.from([1, 2]).flatMap((x) => [x, x]).collect()).toEqual([1, 1, 2, 2]);
+        expect(Iter.from([1, 2, 3, 4]).skip(1).take(2).collect()).toEqual([2, 3]);
+        expect(Iter.from([1, 2, 5, 1]).takeWhile((x) => x < 3).collect()).toEqual([1, 2]);
+    });
+
+    test("take does not consume more than needed", () => {
+        const iter = Iter.from([1, 2, 3, 4]);
+        expect(iter.take(2).collect()).toEqual([1, 2]);
+        expect(iter.collect()).toEqual([3, 4]);
+    });
+
+    test("zip, chain, enumerate and stepBy", () => {
+        expect(Iter.from([1, 2, 3]).zip(["a", "b"]).collect()).toEqual([[1, "a"], [2, "b"]]);
+        expect(Iter.from([1]).chain([2, 3]).collect()).toEqual([1, 2, 3]);
+        expect(Iter.from(["a", "b"]).enumerate().collect()).toEqual([[0, "a"], [1, "b"]]);
+        expect(Iter.from([0, 1, 2, 3, 4, 5]).stepBy(2).collect()).toEqual([0, 2, 4]);
+        expect(() => Iter.from([1]).stepBy(0)).toThrow();
+    });
+
+    test("peekable looks ahead without consuming", () => {
+        const iter = Iter.from([1, 2]).peekable();
+        expect(iter.peek().unwrap()).toBe(1);
+        expect(iter.peek().unwrap()).toBe(1);
+        expect(iter.next().unwrap()).toBe(1);
+        expect(iter.collect()).toEqual([2]);
+        expect(iter.peek().isNone()).toBe(true);
+    });
+
+    test("windows and chunks", () => {
+        expect(Iter.from([1, 2, 3]).windows(2).collect()).toEqual([[1, 2], [2, 3]]);
+        expect(Iter.from([1, 2, 3]).chunks(2).collect()).toEqual([[1, 2], [3]]);
+    });
+});
+
+describe("Iter consumers", () => {
+    test("fold, sum and count", () => {
+        expect(Iter.from([1, 2, 3]).fold("", (acc, x) => acc + x)).toBe("123");
+        expect(Iter.from([1, 2, 3]).sum()).toBe(6);
+        expect(Iter.from("abc").count()).toBe(3);
+    });
+
+    test("find, position, min and max return Options", () => {
+        expect(Iter.from([1, 2, 3]).find((x) => x > 1).unwrap()).toBe(2);
+        expect(Iter.from([1, 2, 3]).find((x) => x > 5).isNone()).toBe(true);
+        expect(Iter.from([1, 2, 3]).position((x) => x === 3).unwrap()).toBe(2);
+        expect(Iter.from([3, 1, 2]).min().unwrap()).toBe(1);
+        expect(Iter.from(["b", "c", "a"]).max().unwrap()).toBe("c");
+        expect(Iter.empty<number>().max().isNone()).toBe(true);
+    });
+
+    test("collect into Map and Set", () => {
+        const map = Iter.from(["a", "b"]).enumerate().map(([i, s]) => [s, i] as const).collect(Map);
+        expect(map.get("b")).toBe(1);
+        expect(Iter.from([1, 1, 2]).collect(Set)).toEqual(new Set([1, 2]));
+    });
+
+    test("collect into Result stops at the first Err", () => {
+        const seen: number[] = [];
+        const result = Iter.from([1, 2, 3])
+            .map((x) => {
+                seen.push(x);
+                return x === 2 ? Result.err<number, string>("two") : Result.ok<number, string>(x);
+            })
+            .collect(Result);
+        expect(result.unwrapErr()).toBe("two");
+        expect(seen).toEqual([1, 2]);
+
+        const ok = Iter.from([1, 2]).map((x) => Result.ok<number, string>(x)).collect(Result);
+        expect(ok.unwrap()).toEqual([1, 2]);
+    });
+
+    test("collect into Option stops at the first None", () => {
+        expect(Iter.from([Option.some(1), Option.none<number>()]).collect(Option).isNone()).toBe(true);
+        expect(Iter.from([Option.some(1), Option.some(2)]).collect(Option).unwrap()).toEqual([1, 2]);
+    });
+});
+
+describe("iter() on Option, Result and String", () => {
+    test("Option and Result yield their payloads", () => {
+        expect(Option.some(1).iter().collect()).toEqual([1]);
+        expect(Option.none().iter().collect()).toEqual([]);
+        expect(Result.ok(1).iter().collect()).toEqual([1]);
+        expect(Result.err("x").iter().collect()).toEqual([]);
+    });
+
+    test("String chars, lines and split", () => {
+        expect(String.from("a😀b").chars().collect()).toEqual(["a", "😀", "b"]);
+        expect(String.from("a\r\nb\n").lines().collect()).toEqual(["a", "b"]);
+        expect(String.from("a,b,c").split(",").take(2).collect()).toEqual(["a", "b"]);
+    });
+});
@@ -1,5 +1,6 @@
 import { Option, Result } from "../types";
 import { Match } from "../match";
+import { P } from "../pattern";
 
 describe("Match with Option", () => {
     test("matches Some case", () => {
@@ -75,4 +76,119 @@ describe("Match with Result", () => {
             .default(() => -1);
         expect(result).toBe(11); // First ok wins
     });
-});
\ No newline at end of file
+});
+describe("Match arm semantics", () => {
+    test("an arm returning undefined still stops later arms", () => {
+        const calls: string[] = [];
+        const result = Match.on(Option.some(1))
+            .some(() => {
+                calls.push("first");
+                return undefined;
+            })
+            .some(() => {
+                calls.push("second");
+                return 2;
+            })
+            .default(() => 3);
+        expect(result).toBeUndefined();
+        expect(calls).toEqual(["first"]);
+    });
+
+    test("err receives the typed error", () => {
+        const res = Result.err<number, { code: number }>({ code: 404 });
+        const code = Match.on(res)
+            .ok(() => 0)
+            .err((error) => error.code)
+            .exhaustive();
+        expect(code).toBe(404);
+    });
+});
+
+describe("Exhaustive Match", () => {
+    test("exhaustive compiles once every case is handled", () => {
+        const describe = (opt: Option<number>) => Match.on(opt)
+            .some((value) => `some ${value}`)
+            .none(() => "none")
+            .exhaustive();
+        expect(describe(Option.some(1))).toBe("some 1");
+        expect(describe(Option.none())).toBe("none");
+    });
+
+    test("exhaustive is rejected while cases remain", () => {
+        const match = Match.on(Result.ok<number, string>(1)).ok((value) => value);
+        // @ts-expect-error the Err case is not handled
+        expect(match.exhaustive()).toBe(1);
+    });
+
+    test("guarded arms do not count towards exhaustiveness", () => {
+        const classify = (opt: Option<number>) => Match.on(opt)
+            .some((x) => x > 10, () => "big")
+            .some(() => "small")
+            .none(() => "none")
+            .exhaustive();
+        expect(classify(Option.some(11))).toBe("big");
+        expect(classify(Option.some(3))).toBe("small");
+
+        const partial = Match.on(Option.some(3)).some((x) => x > 10, () => "big").none(() => "none");
+        // @ts-expect-error Some is only handled behind a guard
+        expect(() => partial.exhaustive()).toThrow("Non-exhaustive match");
+    });
+
+    test("matches literal values and narrows literal unions", () => {
+        type Direction = "up" | "down";
+        const flip = (direction: Direction) => Match.on(direction)
+            .with("up", () => "down")
+            .with("down", () => "up")
+            .exhaustive();
+        expect(flip("up")).toBe("down");
+        expect(Match.on(true).with(true, () => 1).with(false, () => 0).exhaustive()).toBe(1);
+    });
+
+    test("matches predicate and range patterns", () => {
+        const grade = (score: number) => Match.on(score)
+            .with(P.range(90, 100), () => "A")
+            .with(P.range(80, 89), () => "B")
+            .with(P.when((n: number) => n < 0), () => "invalid")
+            .with(P._, () => "F")
+            .exhaustive();
+        expect(grade(95)).toBe("A");
+        expect(grade(80)).toBe("B");
+        expect(grade(-1)).toBe("invalid");
+        expect(grade(10)).toBe("F");
+    });
+
+    test("matches nested patterns and binds the inner value", () => {
+        const describe = (value: Option<Result<number, string>>) => Match.on(value)
+            .with(P.Some(P.Ok(0)), () => "zero")
+            .with(P.Some(P.Ok(P._)), (n) => `ok ${n + 1}`)
+            .with(P.Some(P.Err(P._)), (error) => `err ${error.toUpperCase()}`)
+            .none(() => "none")
+            .default(() => "unreachable");
+        expect(describe(Option.some(Result.ok(0)))).toBe("zero");
+        expect(describe(Option.some(Result.ok(1)))).toBe("ok 2");
+        expect(describe(Option.some(Result.err("x")))).toBe("err X");
+        expect(describe(Option.none())).toBe("none");
+    });
+
+    test("with accepts a guard", () => {
+        const result = Match.on(Option.some(5))
+            .with(P.Some(), (x) => x > 10, () => "big")
+            .with(P.Some(), (x) => `small ${x}`)
+            .none(() => "none")
+            .exhaustive();
+        expect(result).toBe("small 5");
+    });
+});
+
+describe("if let helpers", () => {
+    test("ifSome runs only for Some", () => {
+        expect(Option.some(2).ifSome((x) => x * 2)).toBe(4);
+        expect(Option.none<number>().ifSome((x) => x * 2)).toBeUndefined();
+        expect(Option.none<number>().ifSome((x) => x * 2, () => 0)).toBe(0);
+    });
+
+    test("ifOk runs only for Ok", () => {
+        expect(Result.ok<number, string>(2).ifOk((x) => x * 2)).toBe(4);
+        expect(Result.err<number, string>("e").ifOk((x) => x * 2, (e) => e.length)).toBe(1);
+    });
+});
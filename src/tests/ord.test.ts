@@ -0,0 +1,94 @@
+import "reflect-metadata";
+import { derive, Derives, DeriveError } from "../derive";
+import { Ordering, sortBy } from "../cmp";
+import { Eq, Ord, ord, PartialEq, PartialOrd } from "../lib";
+
+const features = [PartialEq, Eq, PartialOrd, Ord] as const;
+
+@derive(features)
+class Version extends Derives(features) {
+    constructor(public major = 0, public minor = 0, public patch = 0) {
+        super();
+    }
+}
+
+@derive(features)
+class Task extends Derives(features) {
+    @ord({ reverse: true })
+    priority: number;
+    title: string;
+    @ord({ skip: true })
+    note: string;
+
+    constructor(priority: number, title: string, note = "") {
+        super();
+        this.priority = priority;
+        this.title = title;
+        this.note = note;
+    }
+}
+
+@derive([PartialEq, PartialOrd] as const)
+class Reading extends Derives([PartialEq, PartialOrd] as const) {
+    constructor(public value: number) {
+        super();
+    }
+}
+
+describe("PartialOrd and Ord", () => {
+    test("cmp compares fields lexicographically in declaration order", () => {
+        expect(new Version(1, 2, 3).cmp(new Version(1, 3, 0))).toBe(Ordering.Less);
+        expect(new Version(2, 0, 0).cmp(new Version(1, 9, 9))).toBe(Ordering.Greater);
+        expect(new Version(1, 2, 3).cmp(new Version(1, 2, 3))).toBe(Ordering.Equal);
+    });
+
+    test("comparison operators", () => {
+        const a = new Version(1, 0, 0);
+        const b = new Version(1, 1, 0);
+        expect([a.lt(b), a.le(b), a.gt(b), a.ge(b)]).toEqual([true, true, false, false]);
+        expect(a.le(new Version(1, 0, 0))).toBe(true);
+    });
+
+    test("min, max and clamp", () => {
+        const a = new Version(1);
+        const b = new Version(2);
+        const equal = new Version(1);
+        expect(a.max(b)).toBe(b);
+        expect(a.min(b)).toBe(a);
+        expect(a.max(equal)).toBe(equal);
+        expect(a.min(equal)).toBe(a);
+        expect(new Version(0, 5).clamp(a, b)).toBe(a);
+        expect(new Version(3).clamp(a, b)).toBe(b);
+        expect(() => a.clamp(b, a)).toThrow(RangeError);
+    });
+
+    test("@ord reverses or skips fields", () => {
+        const tasks = [new Task(1, "b"), new Task(3, "z"), new Task(1, "a", "zzz")];
+        expect(sortBy(tasks, (x, y) => x.cmp(y)).map((task) => task.title)).toEqual(["z", "a", "b"]);
+        expect(new Task(1, "a", "x").cmp(new Task(1, "a", "y"))).toBe(Ordering.Equal);
+    });
+
+    test("partialCmp is None for unordered fields or other classes", () => {
+        expect(new Reading(NaN).partialCmp(new Reading(1)).isNone()).toBe(true);
+        expect(new Reading(NaN).lt(new Reading(1))).toBe(false);
+        expect(new Reading(NaN).ge(new Reading(1))).toBe(false);
+        expect(new Reading(1).partialCmp(new Version(1) as any).isNone()).toBe(true);
+        expect(new Reading(1).partialCmp(new Reading(2)).unwrap()).toBe(Ordering.Less);
+    });
+
+    test("fields holding ordered values delegate to them", () => {
+        @derive(features)
+        class Release extends Derives(features) {
+            constructor(public version: Version, public name: string) {
+                super();
+            }
+        }
+        expect(new Release(new Version(1), "b").cmp(new Release(new Version(0, 9), "z"))).toBe(Ordering.Greater);
+        expect(new Release(new Version(1), "a").cmp(new Release(new Version(1), "b"))).toBe(Ordering.Less);
+    });
+
+    test("Ord requires PartialOrd and Eq", () => {
+        expect(() => derive([PartialEq, PartialOrd, Ord] as const)(class Score { })).toThrow(DeriveError);
+        expect(() => derive([PartialOrd] as const)(class Score { })).toThrow("Score derives PartialOrd, which requires PartialEq");
+    });
+});
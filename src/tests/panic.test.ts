@@ -0,0 +1,102 @@
+import { catchUnwind, panic, Panic, PanicInfo, setPanicHook } from "../panic";
+import { Option, Result } from "../types";
+
+afterEach(() => {
+    setPanicHook();
+});
+
+describe("panic", () => {
+    test("throws a Panic carrying the message, payload and location", () => {
+        const payload = { code: 3 };
+        try {
+            panic("boom", payload);
+            fail("panic returned");
+        } catch (thrown) {
+            expect(thrown).toBeInstanceOf(Panic);
+            const info = (thrown as Panic).info;
+            expect(info.message).toBe("boom");
+            expect(info.payload).toBe(payload);
+            expect(info.location.unwrap()).toMatch(/panic\.test\.ts:\d+:\d+$/);
+            expect(`${info}`).toMatch(/^panicked at .*panic\.test\.ts:\d+:\d+:\nboom$/);
+        }
+    });
+
+    test("the payload defaults to the message", () => {
+        const info = catchUnwind(() => panic("plain")).unwrapErr();
+        expect(info.payload).toBe("plain");
+    });
+});
+
+describe("setPanicHook", () => {
+    test("runs the hook before throwing and returns the previous hook", () => {
+        const first = jest.fn();
+        const second = jest.fn();
+        expect(setPanicHook(first).isNone()).toBe(true);
+        expect(() => Option.none().unwrap()).toThrow(Panic);
+        expect(first).toHaveBeenCalledWith(expect.any(PanicInfo));
+        expect(first.mock.calls[0][0].message).toBe("Called unwrap on a None value");
+
+        expect(setPanicHook(second).unwrap()).toBe(first);
+        catchUnwind(() => panic("again"));
+        expect(second).toHaveBeenCalledTimes(1);
+        expect(first).toHaveBeenCalledTimes(1);
+        expect(setPanicHook().unwrap()).toBe(second);
+    });
+});
+
+describe("catchUnwind", () => {
+    test("returns Ok for a normal return and Err for a panic", () => {
+        expect(catchUnwind(() => 1).unwrap()).toBe(1);
+        const info = catchUnwind(() => Result.err<number, string>("bad").expect("needed a number")).unwrapErr();
+        expect(info.message).toBe('needed a number: "bad"');
+        expect(info.payload).toBe("bad");
+    });
+
+    test("reports the location of the unwrap call, not the library", () => {
+        const info = catchUnwind(() => Option.none().unwrap()).unwrapErr();
+        expect(info.location.unwrap()).toMatch(/panic\.test\.ts:\d+:\d+$/);
+    });
+
+    test("catches other exceptions with the thrown value as the payload", () => {
+        const error = new TypeError("nope");
+        const info = catchUnwind(() => { throw error; }).unwrapErr();
+        expect(info.message).toBe("nope");
+        expect(info.payload).toBe(error);
+        expect(info.location.isSome()).toBe(true);
+        expect(catchUnwind(() => { throw 42; }).unwrapErr().location.isNone()).toBe(true);
+    });
+
+    test("awaits a returned promise", async () => {
+        expect((await catchUnwind(async () => 5)).unwrap()).toBe(5);
+        const info = (await catchUnwind(async () => panic("later"))).unwrapErr();
+        expect(info.message).toBe("later");
+    });
+});
+
+describe("expect, expectErr and unwrap variants", () => {
+    test("expectErr panics with the Debug output of the Ok value", () => {
+        expect(Result.err("e").expectErr("should fail")).toBe("e");
+        expect(() => Result.ok([1]).expectErr("should fail")).toThrow(new Panic("should fail: [1]"));
+    });
+
+    test("unwrapOrElse computes a fallback, from the error for Result", () => {
+        expect(Option.none<number>().unwrapOrElse(() => 7)).toBe(7);
+        expect(Result.err<number, string>("abc").unwrapOrElse((e) => e.length)).toBe(3);
+        expect(Result.ok<number, string>(1).unwrapOr(0)).toBe(1);
+    });
+
+    test("unwrapOrDefault uses the default of the given type", () => {
+        expect(Option.none<number>().unwrapOrDefault(Number)).toBe(0);
+        expect(Option.none<string[]>().unwrapOrDefault(Array)).toEqual([]);
+        expect(Result.err<Option<number>, string>("x").unwrapOrDefault(Option).isNone()).toBe(true);
+        expect(Option.none<{ n: number }>().unwrapOrDefault({ default: () => ({ n: 1 }) })).toEqual({ n: 1 });
+        expect(Option.some(4).unwrapOrDefault(Number)).toBe(4);
+        expect(() => Option.none<Date>().unwrapOrDefault(Date as any)).toThrow("Date has no default value");
+    });
+
+    test("unwrapUnchecked skips the variant check", () => {
+        expect(Option.some(1).unwrapUnchecked()).toBe(1);
+        expect(Option.none().unwrapUnchecked()).toBeUndefined();
+        expect(Result.err("e").unwrapUnchecked()).toBeUndefined();
+    });
+});
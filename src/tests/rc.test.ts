@@ -0,0 +1,80 @@
+import { Rc, Weak } from "../rc";
+
+describe("Rc", () => {
+    test("counts strong handles and runs the drop hook once the last is dropped", () => {
+        const onDrop = jest.fn();
+        const a = Rc.new({ id: 1 }, onDrop);
+        const b = a.clone();
+        expect(a.strongCount()).toBe(2);
+        expect(a.ptrEq(b)).toBe(true);
+
+        a.drop();
+        a.drop();
+        expect(b.strongCount()).toBe(1);
+        expect(onDrop).not.toHaveBeenCalled();
+        expect(() => a.get()).toThrow("Rc used after drop");
+
+        b.drop();
+        expect(onDrop).toHaveBeenCalledWith({ id: 1 });
+        expect(onDrop).toHaveBeenCalledTimes(1);
+    });
+
+    test("using drops the handle at the end of its scope", () => {
+        const onDrop = jest.fn();
+        {
+            using rc = Rc.new("file", onDrop);
+            expect(rc.get()).toBe("file");
+        }
+        expect(onDrop).toHaveBeenCalledWith("file");
+    });
+
+    test("tryUnwrap takes the value only from the sole strong handle", () => {
+        const onDrop = jest.fn();
+        const a = Rc.new([1], onDrop);
+        const b = a.clone();
+        expect(a.tryUnwrap().unwrapErr()).toBe(a);
+        b.drop();
+        expect(a.tryUnwrap().unwrap()).toEqual([1]);
+        expect(onDrop).not.toHaveBeenCalled();
+    });
+
+    test("equals compares the shared values", () => {
+        expect(Rc.new({ a: 1 }).equals(Rc.new({ a: 1 }))).toBe(true);
+        expect(Rc.new(1).equals(1)).toBe(false);
+    });
+});
+
+describe("Weak", () => {
+    test("upgrades while the value is alive and not after it is dropped", () => {
+        const rc = Rc.new(42);
+        const weak = rc.downgrade();
+        expect(rc.weakCount()).toBe(1);
+
+        const upgraded = weak.upgrade().unwrap();
+        expect(upgraded.get()).toBe(42);
+        expect(rc.strongCount()).toBe(2);
+
+        upgraded.drop();
+        rc.drop();
+        expect(weak.upgrade().isNone()).toBe(true);
+        expect(weak.strongCount()).toBe(0);
+        expect(weak.weakCount()).toBe(0);
+    });
+
+    test("weak handles do not keep the value alive", () => {
+        const onDrop = jest.fn();
+        const rc = Rc.new("node", onDrop);
+        const weak = rc.downgrade();
+        const copy = weak.clone();
+        expect(rc.weakCount()).toBe(2);
+        copy.drop();
+        expect(rc.weakCount()).toBe(1);
+        rc.drop();
+        expect(onDrop).toHaveBeenCalledTimes(1);
+        weak.drop();
+    });
+
+    test("Weak.new never upgrades", () => {
+        expect(Weak.new<number>().upgrade().isNone()).toBe(true);
+    });
+});
@@ -0,0 +1,481 @@
+import "reflect-metadata";
+import { derive, Derives } from "../derive";
+import { Enum, EnumValueOf } from "../enum";
+import { Option, Result } from "../types";
+import { DeserializeError, serde, serdeContainer, serdeVariant, Serialize, Deserialize } from "../lib";
+
+const Status = Enum({ Active: null, Suspended: (reason: string) => ({ reason }) });
+type Status = EnumValueOf<typeof Status>;
+
+@derive([Serialize, Deserialize] as const)
+class Address extends Derives([Serialize, Deserialize] as const) {
+    street: string = "";
+    @serde({ rename: "zipCode" })
+    zip: string = "";
+}
+
+@derive([Serialize, Deserialize] as const)
+class Item extends Derives([Serialize, Deserialize] as const) {
+    name: string = "";
+    @serde()
+    price: bigint = 0n;
+}
+
+@derive([Serialize, Deserialize] as const)
+class Customer extends Derives([Serialize, Deserialize] as const) {
+    @serde({ type: () => Address })
+    address!: Address;
+    @serde({ type: () => Address })
+    billing: Option<Address> = Option.none();
+    @serde({ items: () => Item })
+    items: Item[] = [];
+    @serde({ items: () => Item })
+    byName: Map<string, Item> = new Map();
+    @serde()
+    tags: Set<string> = new Set();
+    @serde()
+    createdAt: Date = new Date(0);
+    @serde({ items: () => Address })
+    lookup: Result<Address, string> = Result.err("pending");
+    @serde({ type: () => Status })
+    status: Status = Status.Active;
+}
+
+function sampleCustomer(): Customer {
+    const customer = new Customer();
+    const address = new Address();
+    address.street = "Main St";
+    address.zip = "12345";
+    const item = new Item();
+    item.name = "book";
+    item.price = 12345678901234567890n;
+    customer.address = address;
+    customer.billing = Option.some(address);
+    customer.items = [item];
+    customer.byName = new Map([["book", item]]);
+    customer.tags = new Set(["vip"]);
+    customer.createdAt = new Date("2025-03-09T14:58:21.000Z");
+    customer.lookup = Result.ok(address);
+    customer.status = Status.Suspended("fraud");
+    return customer;
+}
+
+@derive([Serialize, Deserialize] as const)
+class Schedule extends Derives([Serialize, Deserialize] as const) {
+    @serde({ keys: () => Date, items: () => Number })
+    slots: Map<Date, number> = new Map();
+    @serde({ keys: () => BigInt })
+    owners: Map<bigint, string> = new Map();
+    @serde({ error: () => Date })
+    next: Result<number, Date> = Result.ok(0);
+}
+
+describe("nested serialization", () => {
+    test("serialize recurses into nested values", () => {
+        const data = sampleCustomer().serialize();
+        expect(data).toEqual({
+            address: { street: "Main St", zipCode: "12345" },
+            billing: { street: "Main St", zipCode: "12345" },
+            items: [{ name: "book", price: "12345678901234567890" }],
+            byName: [["book", { name: "book", price: "12345678901234567890" }]],
+            tags: ["vip"],
+            createdAt: "2025-03-09T14:58:21.000Z",
+            lookup: { Ok: { street: "Main St", zipCode: "12345" } },
+            status: { Suspended: { reason: "fraud" } },
+        });
+    });
+
+    test("deserialize rebuilds typed values", () => {
+        const data = JSON.parse(JSON.stringify(sampleCustomer().serialize()));
+        const customer: Customer = Customer.deserialize(data);
+        expect(customer.address).toBeInstanceOf(Address);
+        expect(customer.address.zip).toBe("12345");
+        expect(customer.billing.unwrap()).toBeInstanceOf(Address);
+        expect(customer.items[0]).toBeInstanceOf(Item);
+        expect(customer.items[0].price).toBe(12345678901234567890n);
+        expect(customer.byName.get("book")).toBeInstanceOf(Item);
+        expect(customer.tags.has("vip")).toBe(true);
+        expect(customer.createdAt).toBeInstanceOf(Date);
+        expect(customer.createdAt.getTime()).toBe(Date.UTC(2025, 2, 9, 14, 58, 21));
+        expect(customer.lookup.unwrap()).toBeInstanceOf(Address);
+        expect(customer.status.equals(Status.Suspended("fraud"))).toBe(true);
+    });
+
+    test("round-trips are lossless", () => {
+        const original = sampleCustomer().serialize();
+        const roundTripped = Customer.deserialize(JSON.parse(JSON.stringify(original))).serialize();
+        expect(roundTripped).toEqual(original);
+    });
+
+    test("Map keys and Result errors round-trip through their type hints", () => {
+        const schedule = new Schedule();
+        const at = new Date("2025-03-09T14:58:21.000Z");
+        schedule.slots = new Map([[at, 3]]);
+        schedule.owners = new Map([[12345678901234567890n, "ann"]]);
+        schedule.next = Result.err(at);
+
+        const data = JSON.parse(JSON.stringify(schedule.serialize()));
+        expect(data.next).toEqual({ Err: "2025-03-09T14:58:21.000Z" });
+        const restored: Schedule = Schedule.deserialize(data);
+        const [[slot, count]] = restored.slots;
+        expect(slot).toBeInstanceOf(Date);
+        expect(slot.getTime()).toBe(at.getTime());
+        expect(count).toBe(3);
+        expect(restored.owners.get(12345678901234567890n)).toBe("ann");
+        expect(restored.next.unwrapErr()).toBeInstanceOf(Date);
+        expect(restored.next.unwrapErr().getTime()).toBe(at.getTime());
+    });
+
+    test("type mismatches in Result errors are reported under Err", () => {
+        const result: Result<Schedule, DeserializeError> = Schedule.tryDeserialize({ next: { Err: "soon" } });
+        expect(result.unwrapErr().issues.map((issue) => issue.path)).toEqual(["next.Err"]);
+    });
+
+    test("undeclared keys are kept unless they name an inherited member", () => {
+        const address: Address = Address.deserialize({ street: "a", constructor: 1, serialize: 2, note: 3 });
+        expect(address).toBeInstanceOf(Address);
+        expect(address.constructor).toBe(Address);
+        expect(typeof address.serialize).toBe("function");
+        expect(Reflect.get(address, "note")).toBe(3);
+    });
+
+    test("null and missing Options become None", () => {
+        const customer: Customer = Customer.deserialize({ billing: null });
+        expect(customer.billing.isNone()).toBe(true);
+    });
+
+    test("from converts nested plain objects and keeps typed values", () => {
+        const source = sampleCustomer();
+        const copy: Customer = Customer.from({ ...source, address: { street: "Side St", zip: "1" } });
+        expect(copy.address).toBeInstanceOf(Address);
+        expect(copy.address.zip).toBe("1");
+        expect(copy.billing).toBe(source.billing);
+        expect(copy.createdAt).toBe(source.createdAt);
+    });
+});
+
+@derive([Deserialize] as const)
+@serdeContainer({ deny_unknown_fields: true })
+class Profile extends Derives([Deserialize] as const) {
+    @serde({ required: true })
+    name!: string;
+    @serde()
+    age: number = 0;
+    @serde({ type: () => Address, required: true })
+    address!: Address;
+    @serde({ items: () => Item })
+    items: Item[] = [];
+}
+
+describe("tryDeserialize", () => {
+    test("returns Ok with the instance for valid input", () => {
+        const result: Result<Profile, DeserializeError> = Profile.tryDeserialize({
+            name: "a",
+            age: 3,
+            address: { street: "Main St", zipCode: "1" },
+        });
+        expect(result.isOk()).toBe(true);
+        expect(result.unwrap().address).toBeInstanceOf(Address);
+    });
+
+    test("lists every problem with its path, expected type and received value", () => {
+        const result: Result<Profile, DeserializeError> = Profile.tryDeserialize({
+            age: "3",
+            address: { street: "Main St", zipCode: 1 },
+            items: [{ name: "book", price: "not a number" }],
+            nickname: "x",
+        });
+        const error = result.unwrapErr();
+        expect(error).toBeInstanceOf(DeserializeError);
+        expect(error.issues).toEqual([
+            { path: "age", expected: "number", received: "3", message: "expected number, received string" },
+            { path: "address.zipCode", expected: "string", received: 1, message: "expected string, received number" },
+            { path: "items[0].price", expected: "bigint", received: "not a number", message: "expected bigint, received string" },
+            { path: "nickname", expected: "no field", received: "x", message: "unknown field `nickname`" },
+            { path: "name", expected: "string", received: undefined, message: "missing field `name`" },
+        ]);
+        expect(error.message).toContain("address.zipCode: expected string");
+    });
+
+    test("reports a non-object input at the root", () => {
+        const error: DeserializeError = Profile.tryDeserialize([1]).unwrapErr();
+        expect(error.issues[0]).toMatchObject({ path: "", expected: "Profile", received: [1] });
+    });
+
+    test("deserialize stays lenient and drops unknown fields", () => {
+        const profile = Profile.deserialize({ age: "3", nickname: "x" });
+        expect(profile.age).toBe("3");
+        expect("nickname" in profile).toBe(false);
+    });
+});
+
+@derive([Serialize, Deserialize] as const)
+class Audit extends Derives([Serialize, Deserialize] as const) {
+    @serde({ rename: "created_by" })
+    createdBy: string = "";
+    @serde({ rename: "updated_by" })
+    updatedBy: string = "";
+}
+
+@derive([Serialize, Deserialize] as const)
+@serdeContainer({ rename_all: "snake_case" })
+class Account extends Derives([Serialize, Deserialize] as const) {
+    @serde({ alias: ["mail", "e-mail"] })
+    emailAddress: string = "";
+    @serde({ rename: "ID" })
+    accountId: number = 0;
+    @serde({ skip: true })
+    sessionToken: string = "secret";
+    @serde({ skip_deserializing: true })
+    loginCount: number = 0;
+    @serde({ skip_serializing_if: (value: Option<string>) => value.isNone() })
+    nickname: Option<string> = Option.none();
+    @serde({
+        serialize_with: (value: Date | null) => value?.getTime() ?? null,
+        deserialize_with: (data: number) => new Date(data),
+    })
+    lastSeen: Option<Date> = Option.none();
+    @serde({ type: () => Audit, flatten: true })
+    audit: Audit = new Audit();
+    @serde({ flatten: true })
+    extra: Map<string, unknown> = new Map();
+}
+
+describe("serde attributes", () => {
+    test("renamed fields are each read from their own key", () => {
+        const audit: Audit = Audit.deserialize({ created_by: "ann", updated_by: "bob" });
+        expect(audit.createdBy).toBe("ann");
+        expect(audit.updatedBy).toBe("bob");
+    });
+
+    test("rename_all applies to fields without an explicit rename", () => {
+        const account = new Account();
+        account.emailAddress = "a@b.c";
+        account.accountId = 7;
+        account.loginCount = 3;
+        account.audit.createdBy = "ann";
+        account.extra.set("plan", "pro");
+        expect(account.serialize()).toEqual({
+            email_address: "a@b.c",
+            ID: 7,
+            login_count: 3,
+            last_seen: null,
+            created_by: "ann",
+            updated_by: "",
+            plan: "pro",
+        });
+    });
+
+    test("skip_serializing_if and serialize_with control the output", () => {
+        const account = new Account();
+        account.nickname = Option.some("al");
+        account.lastSeen = Option.some(new Date(1000));
+        const data = account.serialize();
+        expect(data.nickname).toBe("al");
+        expect(data.last_seen).toBe(1000);
+        expect("session_token" in data).toBe(false);
+    });
+
+    test("aliases, skipped fields, deserialize_with and flatten are honored", () => {
+        const account: Account = Account.deserialize({
+            "e-mail": "a@b.c",
+            ID: 7,
+            session_token: "stolen",
+            login_count: 99,
+            last_seen: 1000,
+            created_by: "ann",
+            plan: "pro",
+        });
+        expect(account.emailAddress).toBe("a@b.c");
+        expect(account.accountId).toBe(7);
+        expect(account.sessionToken).toBe("secret");
+        expect(account.loginCount).toBe(0);
+        expect(account.lastSeen.unwrap()).toEqual(new Date(1000));
+        expect(account.audit).toBeInstanceOf(Audit);
+        expect(account.audit.createdBy).toBe("ann");
+        expect(account.extra).toEqual(new Map<string, unknown>([["session_token", "stolen"], ["login_count", 99], ["plan", "pro"]]));
+    });
+
+    test("round-trips through serialize and deserialize", () => {
+        const account = new Account();
+        account.emailAddress = "a@b.c";
+        account.audit.updatedBy = "bob";
+        account.extra.set("plan", "pro");
+        const copy = Account.deserialize(account.serialize());
+        expect(copy.serialize()).toEqual(account.serialize());
+    });
+});
+
+@derive([Deserialize] as const)
+@serdeContainer({ deny_unknown_fields: true, rename_all: "kebab-case" })
+class Strict extends Derives([Deserialize] as const) {
+    @serde({ required: true })
+    userName!: string;
+    @serde({ skip: true })
+    cache: string[] = [];
+}
+
+@derive([Deserialize] as const)
+@serdeContainer({ default: () => Object.assign(new Settings(), { theme: "dark" }) })
+class Settings extends Derives([Deserialize] as const) {
+    @serde({ required: true })
+    theme: string = "light";
+    @serde({ required: true })
+    fontSize: number = 12;
+}
+
+describe("serde container attributes", () => {
+    test("deny_unknown_fields rejects original names of renamed fields and skipped fields", () => {
+        const error: DeserializeError = Strict.tryDeserialize({ userName: "a", cache: [] }).unwrapErr();
+        expect(error.issues.map((issue) => issue.message)).toEqual([
+            "unknown field `userName`",
+            "unknown field `cache`",
+            "missing field `user-name`",
+        ]);
+        expect(Strict.tryDeserialize({ "user-name": "a" }).isOk()).toBe(true);
+    });
+
+    test("default fills missing fields from the default instance", () => {
+        const result: Result<Settings, DeserializeError> = Settings.tryDeserialize({ fontSize: 14 });
+        const settings = result.unwrap();
+        expect(settings.theme).toBe("dark");
+        expect(settings.fontSize).toBe(14);
+    });
+});
+
+@derive([Serialize, Deserialize] as const)
+@serdeContainer({ tag: "type" })
+class UiEvent extends Derives([Serialize, Deserialize] as const) {
+    @serde()
+    at: number = 0;
+}
+
+@serdeVariant()
+class Click extends UiEvent {
+    @serde()
+    x: number = 0;
+    @serde()
+    y: number = 0;
+}
+
+@serdeVariant("Key")
+class KeyPress extends UiEvent {
+    @serde({ required: true })
+    key: string = "";
+}
+
+@derive([Serialize, Deserialize] as const)
+class Shape extends Derives([Serialize, Deserialize] as const) { }
+
+@serdeVariant()
+class Circle extends Shape {
+    @serde({ required: true })
+    radius: number = 0;
+}
+
+@serdeVariant()
+class Rect extends Shape {
+    @serde({ required: true })
+    width: number = 0;
+    @serde({ required: true })
+    height: number = 0;
+}
+
+@derive([Serialize, Deserialize] as const)
+@serdeContainer({ tag: "t", content: "c" })
+class Message extends Derives([Serialize, Deserialize] as const) { }
+
+@serdeVariant("ping")
+class Ping extends Message { }
+
+@serdeVariant("text")
+class Text extends Message {
+    @serde()
+    body: string = "";
+}
+
+@derive([Serialize, Deserialize] as const)
+@serdeContainer({ untagged: true })
+class Amount extends Derives([Serialize, Deserialize] as const) { }
+
+@serdeVariant()
+class Cents extends Amount {
+    @serde({ required: true })
+    cents: number = 0;
+}
+
+@serdeVariant()
+class Decimal extends Amount {
+    @serde({ required: true })
+    value: string = "";
+}
+
+@derive([Serialize, Deserialize] as const)
+class Timeline extends Derives([Serialize, Deserialize] as const) {
+    @serde({ items: () => UiEvent })
+    events: UiEvent[] = [];
+}
+
+describe("tagged class hierarchies", () => {
+    test("internally tagged variants write the tag beside their fields", () => {
+        const click = Object.assign(new Click(), { at: 1, x: 2, y: 3 });
+        expect(click.serialize()).toEqual({ type: "Click", at: 1, x: 2, y: 3 });
+
+        const event = UiEvent.deserialize({ type: "Key", at: 5, key: "Enter" });
+        expect(event).toBeInstanceOf(KeyPress);
+        expect((event as KeyPress).key).toBe("Enter");
+        expect(event.at).toBe(5);
+    });
+
+    test("externally tagged variants are wrapped in their name", () => {
+        const rect = Object.assign(new Rect(), { width: 2, height: 3 });
+        expect(rect.serialize()).toEqual({ Rect: { width: 2, height: 3 } });
+
+        const shape = Shape.deserialize({ Circle: { radius: 1 } });
+        expect(shape).toBeInstanceOf(Circle);
+        expect((shape as Circle).radius).toBe(1);
+    });
+
+    test("adjacently tagged variants put their fields under the content key", () => {
+        const text = Object.assign(new Text(), { body: "hi" });
+        expect(text.serialize()).toEqual({ t: "text", c: { body: "hi" } });
+        expect(Message.deserialize({ t: "ping" })).toBeInstanceOf(Ping);
+        expect((Message.deserialize({ t: "text", c: { body: "yo" } }) as Text).body).toBe("yo");
+    });
+
+    test("untagged variants are picked by the first one the input fits", () => {
+        expect(Object.assign(new Cents(), { cents: 5 }).serialize()).toEqual({ cents: 5 });
+        expect(Amount.deserialize({ cents: 5 })).toBeInstanceOf(Cents);
+        expect(Amount.deserialize({ value: "0.05" })).toBeInstanceOf(Decimal);
+
+        const error: DeserializeError = Amount.tryDeserialize({ cents: "5" }).unwrapErr();
+        expect(error.issues[0].message).toBe("data did not match any variant of untagged Amount");
+    });
+
+    test("nested fields typed with the base class round-trip through their variants", () => {
+        const timeline = new Timeline();
+        timeline.events = [Object.assign(new Click(), { x: 1 }), Object.assign(new KeyPress(), { key: "a" })];
+        const copy: Timeline = Timeline.deserialize(JSON.parse(JSON.stringify(timeline.serialize())));
+        expect(copy.events[0]).toBeInstanceOf(Click);
+        expect(copy.events[1]).toBeInstanceOf(KeyPress);
+        expect(copy.serialize()).toEqual(timeline.serialize());
+    });
+
+    test("unknown and missing tags are reported", () => {
+        const unknown: DeserializeError = UiEvent.tryDeserialize({ type: "Scroll" }).unwrapErr();
+        expect(unknown.issues).toEqual([{
+            path: "type",
+            expected: "one of `Click`, `Key`",
+            received: "Scroll",
+            message: "unknown variant `Scroll`, expected one of `Click`, `Key`",
+        }]);
+        const missing: DeserializeError = UiEvent.tryDeserialize({ at: 1 }).unwrapErr();
+        expect(missing.issues[0].message).toBe("missing field `type`");
+        const nested: DeserializeError = Shape.tryDeserialize({ Rect: { width: 1 } }).unwrapErr();
+        expect(nested.issues[0].path).toBe("Rect.height");
+    });
+
+    test("subclass fields do not leak into the base class", () => {
+        expect(new UiEvent().serialize()).toEqual({ at: 0 });
+    });
+});
@@ -0,0 +1,86 @@
+import { RefMut } from "../cell";
+import { Mutex, RwLock, Semaphore } from "../sync";
+import { Panic } from "../panic";
+
+const tick = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+describe("Mutex", () => {
+    test("serializes critical sections across awaits", async () => {
+        const mutex = new Mutex<number[]>([]);
+        const task = (id: number) => mutex.withLock(async (guard) => {
+            guard.update((log) => [...log, id]);
+            await tick();
+            guard.update((log) => [...log, id]);
+        });
+        await Promise.all([task(1), task(2), task(3)]);
+        expect((await mutex.lock()).get()).toEqual([1, 1, 2, 2, 3, 3]);
+    });
+
+    test("tryLock fails while the guard is held and succeeds after release", async () => {
+        const mutex = new Mutex(0);
+        {
+            using guard = await mutex.lock();
+            guard.set(1);
+            expect(mutex.isLocked()).toBe(true);
+            expect(mutex.tryLock().isErr()).toBe(true);
+        }
+        const guard = mutex.tryLock().unwrap();
+        expect(guard.get()).toBe(1);
+        guard.release();
+        expect(() => guard.get()).toThrow(Panic);
+    });
+});
+
+describe("RwLock", () => {
+    test("allows concurrent readers but excludes writers", async () => {
+        const lock = new RwLock({ count: 0 });
+        const a = await lock.read();
+        const b = await lock.read();
+        expect(lock.tryWrite().isErr()).toBe(true);
+        expect(() => (a as RefMut<{ count: number }>).set({ count: 1 })).toThrow("cannot assign through a read guard");
+
+        let written = false;
+        const writer = lock.withWrite((guard) => {
+            guard.set({ count: 1 });
+            written = true;
+        });
+        expect(lock.tryRead().isErr()).toBe(true);
+        a.release();
+        await tick();
+        expect(written).toBe(false);
+        b.release();
+        await writer;
+        expect(written).toBe(true);
+        expect(await lock.withRead((value) => value.count)).toBe(1);
+    });
+});
+
+describe("Semaphore", () => {
+    test("limits concurrency to the number of permits", async () => {
+        const semaphore = new Semaphore(2);
+        let running = 0;
+        let peak = 0;
+        const job = () => semaphore.withPermit(async () => {
+            peak = Math.max(peak, ++running);
+            await tick();
+            running--;
+        });
+        await Promise.all([job(), job(), job(), job(), job()]);
+        expect(peak).toBe(2);
+        expect(semaphore.availablePermits()).toBe(2);
+    });
+
+    test("serves waiters in order, even when later ones could be satisfied", async () => {
+        const semaphore = new Semaphore(2);
+        const held = semaphore.tryAcquire().unwrap();
+        const order: string[] = [];
+        const big = semaphore.acquire(2).then((permit) => { order.push("big"); permit.release(); });
+        const small = semaphore.acquire(1).then((permit) => { order.push("small"); permit.release(); });
+        expect(semaphore.tryAcquire().isErr()).toBe(true);
+        held.release();
+        held.release();
+        await Promise.all([big, small]);
+        expect(order).toEqual(["big", "small"]);
+        expect(semaphore.availablePermits()).toBe(2);
+    });
+});
@@ -0,0 +1,131 @@
+import "reflect-metadata";
+import { derive, registerPlugin } from "../derive";
+import { Panic } from "../panic";
+import { impl, implementsTrait, Trait } from "../trait";
+
+interface Shape {
+    area(): number;
+    describe(): string;
+}
+
+const Shape = Trait.define<Shape>("Shape").withDefaults({
+    describe() {
+        return `a shape of area ${this.area()}`;
+    },
+});
+
+class Circle {
+    constructor(public radius: number) { }
+}
+
+class Square {
+    constructor(public side: number) { }
+}
+
+class Tile extends Square { }
+
+impl(Shape, Circle, {
+    area() {
+        return Math.round(Math.PI * this.radius ** 2);
+    },
+});
+
+impl(Shape, Square, {
+    area() {
+        return this.side ** 2;
+    },
+    describe() {
+        return `a ${this.side}x${this.side} square`;
+    },
+});
+
+impl(Shape, Number, {
+    area() {
+        return this * this;
+    },
+});
+
+describe("Trait", () => {
+    test("dispatches to the impl for the value's type, using defaults where not overridden", () => {
+        expect(Shape.for(new Circle(1)).area()).toBe(3);
+        expect(Shape.for(new Circle(1)).describe()).toBe("a shape of area 3");
+        expect(Shape.for(new Square(2)).describe()).toBe("a 2x2 square");
+        expect(Shape.for(3).describe()).toBe("a shape of area 9");
+    });
+
+    test("subclasses share their parent's impl", () => {
+        expect(implementsTrait(new Tile(5), Shape)).toBe(true);
+        expect(Shape.for(new Tile(5)).area()).toBe(25);
+    });
+
+    test("trait objects allow heterogeneous collections", () => {
+        const shapes: unknown[] = [new Circle(2), new Square(3), 4, "not a shape"];
+        const total = shapes
+            .filter((shape) => implementsTrait(shape, Shape))
+            .reduce((sum: number, shape) => sum + Shape.for(shape).area(), 0);
+        expect(total).toBe(13 + 9 + 16);
+    });
+
+    test("for panics for types without an impl, and impl rejects duplicates", () => {
+        expect(implementsTrait("x", Shape)).toBe(false);
+        expect(implementsTrait(null, Shape)).toBe(false);
+        expect(() => Shape.for("x")).toThrow(new Panic("String does not implement Shape"));
+        expect(() => impl(Shape, Circle, { area: () => 0 })).toThrow("conflicting implementations of Shape for Circle");
+    });
+
+    test("supertraits must be implemented too", () => {
+        interface Named { name(): string }
+        interface Greet { greet(): string }
+        const Named = Trait.define<Named>("Named");
+        const Greet = Trait.define<Greet>("Greet", Named).withDefaults({
+            greet() {
+                return "hello";
+            },
+        });
+        class Person { }
+        impl(Greet, Person, {});
+        expect(implementsTrait(new Person(), Greet)).toBe(false);
+        expect(() => Greet.for(new Person())).toThrow("Person implements Greet but not its supertrait Named");
+        impl(Named, Person, { name: () => "ann" });
+        expect(Greet.for(new Person()).greet()).toBe("hello");
+    });
+
+    test("withDefaults shares impls with the trait it was made from", () => {
+        interface Label { text(): string; loud(): string }
+        const Plain = Trait.define<Label>("Label");
+        class Sign { }
+        class Banner { }
+        impl(Plain, Sign, { text: () => "stop", loud: () => "STOP" });
+        const Label = Plain.withDefaults({
+            loud() {
+                return this.text().toUpperCase() + "!";
+            },
+        });
+        impl(Label, Banner, { text: () => "sale" });
+        expect(Label.for(new Sign()).loud()).toBe("STOP");
+        expect(implementsTrait(new Banner(), Plain)).toBe(true);
+        expect(Label.for(new Banner()).loud()).toBe("SALE!");
+    });
+
+    test("impls are type-checked for completeness", () => {
+        class Blob { }
+        // @ts-expect-error area has no default, so the impl must provide it
+        expect(() => impl(Shape, Blob, { describe: () => "blob" })).not.toThrow();
+    });
+
+    test("derivePlugin implements the trait for classes deriving its name", () => {
+        interface Loud { shout(): string }
+        const Loud = Trait.define<Loud>("Loud");
+        registerPlugin(Loud.derivePlugin({
+            shout() {
+                return `${this.word.toUpperCase()}!`;
+            },
+        }));
+
+        @derive(["Loud"])
+        class Word {
+            constructor(public word: string) { }
+        }
+        expect(Loud.for(new Word("hey")).shout()).toBe("HEY!");
+    });
+});
@@ -0,0 +1,146 @@
+import { OptionAsync, ResultAsync } from "../async";
+import { Iter } from "../iter";
+import { Option, Result } from "../types";
+
+class ParseFailure {
+    constructor(readonly input: string) { }
+}
+
+class NotFound {
+    constructor(readonly id: number) { }
+}
+
+const parse = (input: string): Result<number, ParseFailure> =>
+    /^\d+$/.test(input) ? Result.ok(Number(input)) : Result.err(new ParseFailure(input));
+
+const lookup = (id: number): Result<string, NotFound> =>
+    id < 10 ? Result.ok(`user${id}`) : Result.err(new NotFound(id));
+
+describe("Result.try", () => {
+    test("binds Ok payloads and wraps the return value in Ok", () => {
+        const result = Result.try(function* () {
+            const id = yield* parse("4").q();
+            const name = yield* lookup(id).q();
+            return `${name}:${id}`;
+        });
+        expect(result.unwrap()).toBe("user4:4");
+    });
+
+    test("the first Err short-circuits the block and runs its finally blocks", () => {
+        const after = jest.fn();
+        const cleanup = jest.fn();
+        const result: Result<string, ParseFailure | NotFound> = Result.try(function* () {
+            try {
+                const id = yield* parse("42").q();
+                const name = yield* lookup(id).q();
+                after();
+                return name;
+            } finally {
+                cleanup();
+            }
+        });
+        expect(result.unwrapErr()).toEqual(new NotFound(42));
+        expect(after).not.toHaveBeenCalled();
+        expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+
+    test("from converts every yielded error into one type", () => {
+        const result: Result<string, string> = Result.try(
+            function* () {
+                return yield* lookup(yield* parse("x").q()).q();
+            },
+            (error) => (error instanceof ParseFailure ? `bad input ${error.input}` : `missing ${error.id}`)
+        );
+        expect(result.unwrapErr()).toBe("bad input x");
+    });
+
+    test("a block without errors has error type never", () => {
+        const result: Result<number, never> = Result.try(function* () {
+            return 1;
+        });
+        expect(result.unwrap()).toBe(1);
+    });
+});
+
+describe("Option.try", () => {
+    test("binds Some payloads and ends with None at the first None", () => {
+        const first = (items: number[]) => Option.fromNullable(items[0]);
+        expect(Option.try(function* () {
+            return (yield* first([2]).q()) + (yield* first([3]).q());
+        }).unwrap()).toBe(5);
+        expect(Option.try(function* () {
+            return (yield* first([]).q()) + (yield* first([3]).q());
+        }).isNone()).toBe(true);
+    });
+});
+
+describe("Result.tryAsync and Option.tryAsync", () => {
+    const fetchName = (id: number) => new ResultAsync(Promise.resolve(lookup(id)));
+
+    test("accepts Results, ResultAsyncs and awaited promises of Results", async () => {
+        const result = await Result.tryAsync(async function* () {
+            const id = yield* parse("3").q();
+            const name = yield* fetchName(id).q();
+            const again = yield* (await Promise.resolve(lookup(id + 1))).q();
+            return [name, again];
+        });
+        expect(result.unwrap()).toEqual(["user3", "user4"]);
+    });
+
+    test("short-circuits on the first Err and applies from", async () => {
+        const reached = jest.fn();
+        const result = await ResultAsync.try(
+            async function* () {
+                yield* fetchName(99).q();
+                reached();
+            },
+            (error) => `missing ${error.id}`
+        );
+        expect(result.unwrapErr()).toBe("missing 99");
+        expect(reached).not.toHaveBeenCalled();
+    });
+
+    test("Option.tryAsync works with OptionAsync", async () => {
+        const option = await Option.tryAsync(async function* () {
+            const a = yield* OptionAsync.some(1).q();
+            const b = yield* Option.some(2).q();
+            return a + b;
+        });
+        expect(option.unwrap()).toBe(3);
+        expect((await Option.tryAsync(async function* () {
+            return yield* OptionAsync.none<number>().q();
+        })).isNone()).toBe(true);
+    });
+});
+
+describe("iterating Options and Results", () => {
+    test("for..of and spread yield the Some/Ok payload, or nothing", () => {
+        const seen: number[] = [];
+        for (const value of Option.some(5)) seen.push(value);
+        for (const value of Option.none<number>()) seen.push(value);
+        for (const value of Result.err<number, string>("a")) seen.push(value);
+        expect(seen).toEqual([5]);
+        expect(Array.from(Option.some(5))).toEqual([5]);
+        expect([...Result.ok(1), ...Result.err("a")]).toEqual([1]);
+    });
+
+    test("Iter.flatMap flattens Options", () => {
+        const kept = new Iter([1, 2, 3]).flatMap((x) => (x > 1 ? Option.some(x) : Option.none<number>()));
+        expect(kept.collect()).toEqual([2, 3]);
+    });
+
+    test("toEqual compares Nones and Errs", () => {
+        expect(Result.err("a")).toEqual(Result.err("a"));
+        expect(Option.none()).toEqual(Option.none());
+        expect(Option.some(1)).not.toEqual(Option.some(2));
+    });
+
+    test("ResultAsync and OptionAsync are async iterables of the payload", async () => {
+        const seen: number[] = [];
+        for await (const value of ResultAsync.ok<number, string>(1)) seen.push(value);
+        for await (const value of ResultAsync.err<number, string>("a")) seen.push(value);
+        for await (const value of OptionAsync.some(2)) seen.push(value);
+        for await (const value of OptionAsync.none<number>()) seen.push(value);
+        expect(seen).toEqual([1, 2]);
+    });
+});
@@ -1,4 +1,5 @@
-import { Option, Result, String } from "../types";
+import { Ordering } from "../cmp";
+import { Err, None, Ok, Option, ParseError, Result, RustString, Some, String } from "../types";
 
 describe("Option", () => {
     test("some creates Option with value", () => {
@@ -51,6 +52,38 @@ describe("Option", () => {
         expect(opt.filter((x) => x > 40).unwrap()).toBe(42);
         expect(opt.filter((x) => x > 50).isNone()).toBe(true);
     });
+
+    test("some accepts null, undefined and falsy payloads", () => {
+        expect(Option.some(null).isSome()).toBe(true);
+        expect(Option.some(null).unwrap()).toBeNull();
+        expect(Option.some(undefined).isSome()).toBe(true);
+        expect(Option.some(0).unwrapOr(1)).toBe(0);
+    });
+
+    test("isSome narrows to Some with a value", () => {
+        const opt: Option<number> = Option.some(42);
+        if (opt.isSome()) {
+            expect(opt.value).toBe(42);
+        }
+        expect(opt).toBeInstanceOf(Some);
+        expect(Option.none()).toBeInstanceOf(None);
+        expect(Option.none()).toBeInstanceOf(Option);
+    });
+
+    test("equals compares structurally", () => {
+        expect(Option.some({ a: [1, 2] }).equals(Option.some({ a: [1, 2] }))).toBe(true);
+        expect(Option.some(Option.some(1)).equals(Option.some(Option.some(1)))).toBe(true);
+        expect(Option.some(1).equals(Option.some(2))).toBe(false);
+        expect(Option.none().equals(Option.none())).toBe(true);
+        expect(Option.some<number | null>(null).equals(Option.none())).toBe(false);
+    });
+
+    test("toString and toJSON are stable", () => {
+        expect(Option.some(1).toString()).toBe("Some(1)");
+        expect(Option.some("a").toString()).toBe('Some("a")');
+        expect(Option.none().toString()).toBe("None");
+        expect(JSON.stringify([Option.some(1), Option.none()])).toBe('[{"Some":1},"None"]');
+    });
 });
 
 describe("Result", () => {
@@ -104,6 +137,35 @@ describe("Result", () => {
         const ok = Result.ok<number, string>(10);
         expect(ok.orElse((e) => Result.ok(100)).unwrap()).toBe(10);
     });
+
+    test("ok accepts null and undefined payloads", () => {
+        const unit = Result.ok<void, string>(undefined);
+        expect(unit.isOk()).toBe(true);
+        expect(() => unit.unwrapErr()).toThrow("Called unwrapErr on an Ok value");
+        expect(Result.ok(null).isErr()).toBe(false);
+        expect(Result.err(null).isErr()).toBe(true);
+    });
+
+    test("isOk and isErr narrow to Ok and Err", () => {
+        const res: Result<number, string> = Result.err("error");
+        if (res.isErr()) {
+            expect(res.error).toBe("error");
+        }
+        const ok: Result<number, string> = Result.ok(1);
+        if (ok.isOk()) {
+            expect(ok.value).toBe(1);
+        }
+        expect(ok).toBeInstanceOf(Ok);
+        expect(res).toBeInstanceOf(Err);
+    });
+
+    test("equals, toString and toJSON", () => {
+        expect(Result.ok([1]).equals(Result.ok([1]))).toBe(true);
+        expect(Result.ok(1).equals(Result.err(1))).toBe(false);
+        expect(Result.err("x").toString()).toBe('Err("x")');
+        expect(Result.ok(Option.some(1)).toString()).toBe("Ok(Some(1))");
+        expect(JSON.stringify(Result.err("x"))).toBe('{"Err":"x"}');
+    });
 });
 
 describe("String", () => {
@@ -128,8 +190,8 @@ describe("String", () => {
 
     test("slice extracts substring", () => {
         const str = String.from("hello");
-        expect(str.slice(1, 4).toString()).toBe("ell");
-        expect(str.slice(0).toString()).toBe("hello");
+        expect(str.slice(1, 4).unwrap().toString()).toBe("ell");
+        expect(str.slice(0).unwrap().toString()).toBe("hello");
     });
 
     test("toUpperCase converts to uppercase", () => {
@@ -152,4 +214,87 @@ describe("String", () => {
         expect(str.includes("world")).toBe(true);
         expect(str.includes("xyz")).toBe(false);
     });
-});
\ No newline at end of file
+});
+describe("RustString", () => {
+    test("String is a deprecated alias of RustString", () => {
+        expect(String).toBe(RustString);
+        expect(String.from("a")).toBeInstanceOf(RustString);
+    });
+
+    test("chars, graphemes and bytes", () => {
+        const str = RustString.from("e\u0301🇫🇷!");
+        expect(str.chars().count()).toBe(5);
+        expect(str.graphemes().collect()).toEqual(["e\u0301", "🇫🇷", "!"]);
+        expect(RustString.from("é").bytes().collect()).toEqual([0xc3, 0xa9]);
+    });
+
+    test("slice returns None out of bounds or inside a surrogate pair", () => {
+        const str = RustString.from("a😀b");
+        expect(str.slice(1, 3).unwrap().toString()).toBe("😀");
+        expect(str.slice(2).isNone()).toBe(true);
+        expect(str.slice(0, 9).isNone()).toBe(true);
+        expect(str.slice(3, 1).isNone()).toBe(true);
+        expect(str.isCharBoundary(2)).toBe(false);
+    });
+
+    test("find and rfind accept strings, regular expressions and predicates", () => {
+        const str = RustString.from("banana");
+        expect(str.find("an").unwrap()).toBe(1);
+        expect(str.rfind("an").unwrap()).toBe(3);
+        expect(str.find(/n+a$/).unwrap()).toBe(4);
+        expect(str.rfind((char) => char === "b").unwrap()).toBe(0);
+        expect(str.find("x").isNone()).toBe(true);
+    });
+
+    test("splitOnce and splitN", () => {
+        const [key, value] = RustString.from("a=b=c").splitOnce("=").unwrap();
+        expect([key.toString(), value.toString()]).toEqual(["a", "b=c"]);
+        expect(RustString.from("abc").splitOnce("=").isNone()).toBe(true);
+        expect(RustString.from("a b c d").splitN(3, " ").collect()).toEqual(["a", "b", "c d"]);
+        expect(RustString.from("a,b").splitN(5, ",").collect()).toEqual(["a", "b"]);
+    });
+
+    test("prefixes, suffixes and trimming", () => {
+        const str = RustString.from("v1.2.0");
+        expect(str.startsWith("v")).toBe(true);
+        expect(str.stripPrefix("v").unwrap().toString()).toBe("1.2.0");
+        expect(str.stripPrefix("x").isNone()).toBe(true);
+        expect(str.stripSuffix(".0").unwrap().toString()).toBe("v1.2");
+        expect(RustString.from("  x  ").trimStart().toString()).toBe("x  ");
+        expect(RustString.from("  x  ").trimEnd().toString()).toBe("  x");
+        expect(RustString.from("").isEmpty()).toBe(true);
+    });
+
+    test("replace replaces every match literally, replacen the first n", () => {
+        const str = RustString.from("a-b-c");
+        expect(str.replace("-", "$&").toString()).toBe("a$&b$&c");
+        expect(str.replacen("-", "+", 1).toString()).toBe("a+b-c");
+        expect(str.replace(/[a-c]/, "x").toString()).toBe("x-x-x");
+        expect(RustString.from("ab").replace("", "|").toString()).toBe("|a|b|");
+        expect(RustString.from("ab").repeat(3).toString()).toBe("ababab");
+    });
+
+    test("parseInt, parseFloat and parseBool return Results", () => {
+        expect(RustString.from("-42").parseInt().unwrap()).toBe(-42);
+        expect(RustString.from("ff").parseInt(16).unwrap()).toBe(255);
+        expect(RustString.from("").parseInt().unwrapErr().kind).toBe("Empty");
+        expect(RustString.from("12px").parseInt().unwrapErr().message).toBe("invalid digit found in string");
+        expect(RustString.from(" 1").parseInt().isErr()).toBe(true);
+        expect(RustString.from("9".repeat(20)).parseInt().unwrapErr().kind).toBe("PosOverflow");
+        expect(RustString.from("-1.5e3").parseFloat().unwrap()).toBe(-1500);
+        expect(RustString.from("-inf").parseFloat().unwrap()).toBe(-Infinity);
+        expect(RustString.from("0x10").parseFloat().unwrapErr()).toBeInstanceOf(ParseError);
+        expect(RustString.from("true").parseBool().unwrap()).toBe(true);
+        expect(RustString.from("yes").parseBool().unwrapErr().kind).toBe("Invalid");
+    });
+
+    test("equals, cmp and pushStr", () => {
+        expect(RustString.from("a").equals("a")).toBe(true);
+        expect(RustString.from("a").equals(RustString.from("b"))).toBe(false);
+        expect(RustString.from("😀").cmp("\uffff")).toBe(Ordering.Greater);
+        expect(RustString.from("ab").cmp("abc")).toBe(Ordering.Less);
+        const str = RustString.from("a");
+        expect(str.pushStr("b").pushStr(RustString.from("c"))).toBe(str);
+        expect(str.toString()).toBe("abc");
+    });
+});
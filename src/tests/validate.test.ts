@@ -0,0 +1,154 @@
+import "reflect-metadata";
+import { derive, Derives } from "../derive";
+import { Option } from "../types";
+import { Deserialize, serde, serdeContainer, Validate, validate, validateFields, ValidationErrors } from "../lib";
+
+const features = [Validate, Deserialize] as const;
+
+@derive(features)
+class Address extends Derives(features) {
+    @serde()
+    @validate({ pattern: /^\d{5}$/ })
+    zip!: string;
+}
+
+@derive(features)
+class Item extends Derives(features) {
+    @serde()
+    @validate({ length: { min: 1, max: 10 } })
+    name!: string;
+    @serde()
+    @validate({ min: 1 })
+    quantity!: number;
+}
+
+@derive(features)
+@serdeContainer({ validate: true })
+class Order extends Derives(features) {
+    @serde()
+    @validate({ email: true })
+    email!: string;
+    @serde()
+    @validate({ url: true })
+    website!: Option<string>;
+    @serde({ type: () => Address })
+    @validate({ nested: true })
+    address!: Address;
+    @serde({ items: () => Item })
+    @validate({ length: { min: 1 } })
+    @validate({ nested: true })
+    items!: Item[];
+    @serde()
+    @validate({ custom: (value, order) => value >= order.items.length || "must cover every item" })
+    boxes!: number;
+}
+
+const valid = {
+    email: "ada@example.com",
+    website: "https://example.com",
+    address: { zip: "12345" },
+    items: [{ name: "bolt", quantity: 2 }],
+    boxes: 1,
+};
+
+describe("Validate", () => {
+    test("validate() returns Ok(this) when every rule holds", () => {
+        const order = Order.deserialize(valid);
+        expect(order.validate().unwrap()).toBe(order);
+    });
+
+    test("validate() reports each violation with its field path", () => {
+        const item = new Item();
+        item.name = "";
+        item.quantity = 0;
+        const address = new Address();
+        address.zip = "1234";
+        const order = new Order();
+        Object.assign(order, {
+            email: "not-an-email",
+            website: Option.some("example"),
+            address,
+            items: [item],
+            boxes: 0,
+        });
+
+        const error = order.validate().unwrapErr();
+        expect(error).toBeInstanceOf(ValidationErrors);
+        expect(error.issues.map(({ path, constraint }) => [path, constraint])).toEqual([
+            ["email", "email"],
+            ["website", "url"],
+            ["address.zip", "pattern"],
+            ["items[0].name", "length"],
+            ["items[0].quantity", "min"],
+            ["boxes", "custom"],
+        ]);
+        expect(error.message).toContain("items[0].quantity: must be at least 1");
+        expect(error.message).toContain("boxes: must cover every item");
+    });
+
+    test("None and missing values only fail custom rules", () => {
+        const address = new Address();
+        expect(address.validate().isOk()).toBe(true);
+        const order = Order.deserialize({ ...valid, website: null });
+        expect(order.website.isNone()).toBe(true);
+        expect(order.validate().isOk()).toBe(true);
+    });
+
+    test("length counts characters and container elements, and can be exact", () => {
+        class Code {
+            @validate({ length: 2 })
+            value: unknown = "";
+        }
+        const check = (value: unknown) => {
+            const code = new Code();
+            code.value = value;
+            return validateFields(code).length === 0;
+        };
+        expect(check("🦀🦀")).toBe(true);
+        expect(check("abc")).toBe(false);
+        expect(check(new Set([1, 2]))).toBe(true);
+        expect(check(42)).toBe(false);
+    });
+
+    test("repeated decorators and subclasses keep their own rules", () => {
+        @derive([Validate] as const)
+        class Base extends Derives([Validate] as const) {
+            @validate({ min: 0 })
+            @validate({ max: 10 })
+            level = 11;
+        }
+        @derive([Validate] as const)
+        class Child extends Base {
+            @validate({ min: 100 })
+            extra = 0;
+        }
+        expect(new Base().validate().unwrapErr().issues.map((issue) => issue.constraint)).toEqual(["max"]);
+        expect(new Child().validate().unwrapErr().issues.map((issue) => issue.path)).toEqual(["level", "extra"]);
+    });
+});
+
+describe("Validation during deserialization", () => {
+    test("deserialize and from throw ValidationErrors for classes with validate: true", () => {
+        const invalid = { ...valid, items: [] };
+        expect(() => Order.deserialize(invalid)).toThrow(ValidationErrors);
+        expect(() => Order.deserialize(invalid)).toThrow("items: length must be at least 1");
+        expect(() => Order.from(Order.deserialize(valid))).not.toThrow();
+        expect(() => Order.from({ ...Order.deserialize(valid), email: "nobody" })).toThrow(ValidationErrors);
+    });
+
+    test("tryDeserialize reports violations as issues", () => {
+        const error = Order.tryDeserialize({ ...valid, address: { zip: "x" } }).unwrapErr();
+        expect(error.issues).toEqual([{
+            path: "address.zip",
+            expected: "pattern",
+            received: "x",
+            message: "must match /^\\d{5}$/",
+        }]);
+    });
+
+    test("classes without validate: true are not checked automatically", () => {
+        const item = Item.deserialize({ name: "", quantity: 0 });
+        expect(item.validate().isErr()).toBe(true);
+        expect(Item.tryDeserialize({ name: "", quantity: 0 }).isOk()).toBe(true);
+    });
+});
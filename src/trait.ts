@@ -0,0 +1,168 @@
+import { DerivePlugin } from "./derive";
+import { panic } from "./panic";
+import { Option } from "./types";
+
+/**
+ * The values a constructor's impls apply to: primitives for the wrappers of primitive types
+ * (`Number`, `String`, ...), otherwise the constructor's instances.
+ */
+export type SelfOf<C> =
+    C extends NumberConstructor ? number
+    : C extends StringConstructor ? string
+    : C extends BooleanConstructor ? boolean
+    : C extends BigIntConstructor ? bigint
+    : C extends SymbolConstructor ? symbol
+    : C extends abstract new (...args: any[]) => infer I ? I
+    : unknown;
+
+/**
+ * The methods an `impl` of a trait must provide: every method without a default, and optionally
+ * overrides of the defaults. `this` is the value the trait is implemented for.
+ */
+export type ImplMethods<M, D extends keyof M, Self> = Omit<M, D> & Partial<Pick<M, D>> & ThisType<Self>;
+
+// Method tables keyed by the prototype of the type they implement the trait for.
+type ImplTable = Map<object, Record<string, Function>>;
+
+// The prototype chain of a value, starting with its own prototype; primitives use their wrapper's.
+function* prototypesOf(value: unknown): Generator<object> {
+    if (value === null || value === undefined) return;
+    let prototype = Object.getPrototypeOf(Object(value));
+    while (prototype) {
+        yield prototype;
+        prototype = Object.getPrototypeOf(prototype);
+    }
+}
+
+// Records an impl; set from Trait's static block, since the impl tables are private to the class.
+let registerImpl: (trait: Trait<any, any>, target: Function, methods: object) => void;
+
+function typeName(value: unknown): string {
+    if (value === null || value === undefined) return `${value}`;
+    return Object(value).constructor?.name || typeof value;
+}
+
+/**
+ * A set of methods that types implement separately, like a Rust trait. `M` lists the methods and `D`
+ * the ones with a default. Implementations are attached with `impl` to any class (including builtins
+ * such as `Number` and classes you don't own) without touching their prototypes, and are called through
+ * trait objects from `for`.
+ *
+ * @example
+ * interface Shape { area(): number; describe(): string }
+ * const Shape = Trait.define<Shape>("Shape").withDefaults({
+ *     describe() { return `a shape of area ${this.area()}`; },
+ * });
+ * impl(Shape, Circle, { area() { return Math.PI * this.radius ** 2; } });
+ * impl(Shape, Number, { area() { return this * this; } });
+ * Shape.for(2).describe(); // "a shape of area 4"
+ */
+export class Trait<M extends object, D extends keyof M = never> {
+    static {
+        registerImpl = (trait, target, methods) => {
+            const prototype = target.prototype;
+            if (trait.impls.has(prototype)) panic(`conflicting implementations of ${trait.name} for ${target.name}`);
+            trait.impls.set(prototype, { ...methods } as Record<string, Function>);
+        };
+    }
+
+    private constructor(
+        readonly name: string,
+        readonly supertraits: readonly Trait<any, any>[],
+        private readonly defaults: Record<string, Function>,
+        private readonly impls: ImplTable = new Map()
+    ) { }
+
+    /**
+     * Defines a trait with the methods of `M`, none of which have a default yet.
+     * @param supertraits Traits a type must also implement to use this one, like `trait Ord: Eq`.
+     */
+    static define<M extends object>(name: string, ...supertraits: Trait<any, any>[]): Trait<M> {
+        return new Trait<M>(name, supertraits, {});
+    }
+
+    /**
+     * A copy of this trait with default methods, used by impls that don't provide their own. In a default
+     * method, `this` is the trait object, so it can call the other methods of the trait. The copy shares
+     * this trait's impls, so types implementing either one implement both.
+     */
+    withDefaults<K extends keyof M>(defaults: Pick<M, K> & ThisType<M>): Trait<M, D | K> {
+        return new Trait<M, D | K>(this.name, this.supertraits, { ...this.defaults, ...defaults }, this.impls);
+    }
+
+    // The method table for the closest type in the value's prototype chain that implements this trait.
+    private tableFor(value: unknown): Option<Record<string, Function>> {
+        for (const prototype of prototypesOf(value)) {
+            const table = this.impls.get(prototype);
+            if (table) return Option.some(table);
+        }
+        return Option.none();
+    }
+
+    /**
+     * Whether `value`'s type (or a type it inherits from) implements this trait and its supertraits.
+     */
+    isImplementedBy(value: unknown): boolean {
+        return this.tableFor(value).isSome() &&
+            this.supertraits.every((supertrait) => supertrait.isImplementedBy(value));
+    }
+
+    /**
+     * A trait object for `value`: the trait's methods, dispatched to the implementation for its type.
+     * @throws Panic if the type does not implement this trait or one of its supertraits.
+     */
+    for(value: unknown): M {
+        const table = this.tableFor(value);
+        if (!table.isSome()) {
+            return panic(`${typeName(value)} does not implement ${this.name}`, value, Trait.prototype.for);
+        }
+        const missing = this.supertraits.find((supertrait) => !supertrait.isImplementedBy(value));
+        if (missing) {
+            const message = `${typeName(value)} implements ${this.name} but not its supertrait ${missing.name}`;
+            return panic(message, value, Trait.prototype.for);
+        }
+
+        const object: Record<string, Function> = {};
+        for (const [name, method] of Object.entries(this.defaults)) {
+            object[name] = (...args: unknown[]) => method.apply(object, args);
+        }
+        for (const [name, method] of Object.entries(table.value)) {
+            object[name] = (...args: unknown[]) => method.apply(value, args);
+        }
+        return object as M;
+    }
+
+    /**
+     * A derive plugin implementing this trait with `methods` for every class deriving the trait's name,
+     * so `@derive(["Shape"])` works once the plugin is registered.
+     */
+    derivePlugin(methods: ImplMethods<M, D, any>): DerivePlugin {
+        return {
+            feature: this.name,
+            extendPrototype: (prototype) => impl(this, prototype.constructor, methods),
+        };
+    }
+
+    toString(): string {
+        return `Trait(${this.name})`;
+    }
+}
+
+/**
+ * Implements `trait` for the values of `target`, like Rust's `impl Trait for Type`. The methods must
+ * include every method of the trait without a default; in them `this` is the value. Subclasses of
+ * `target` share the implementation unless they have their own.
+ * @throws Panic if `target` already implements the trait.
+ */
+export function impl<M extends object, D extends keyof M, C extends Function>(
+    trait: Trait<M, D>,
+    target: C,
+    methods: ImplMethods<M, D, SelfOf<C>>
+): void {
+    registerImpl(trait, target, methods);
+}
+
+/** Whether `value`'s type implements `trait` (and its supertraits), for dynamic dispatch with `trait.for`. */
+export function implementsTrait(value: unknown, trait: Trait<any, any>): boolean {
+    return trait.isImplementedBy(value);
+}
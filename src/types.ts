@@ -1,150 +1,851 @@
+import { OptionAsync, ResultAsync } from "./async";
+import { Iter } from "./iter";
+import { defaultFor, formatPayload, structuralEquals } from "./utils";
+import { compare, Ordering, partialCompare } from "./cmp";
+import { AnyError } from "./error";
+import { panic } from "./panic";
+import { debugValue } from "./lib/fmt";
+
 /**
  * Represents an optional value, similar to Rust's `Option<T>`.
  * Provides chainable methods for handling nullable values efficiently.
+ * The variant is stored as an explicit tag, so any payload (including `null`) is a valid Some.
  */
 export class Option<T> {
-    private constructor(private value: T | null) { }
+    protected constructor(private readonly tag: "Some" | "None") { }
 
     static some<T>(value: T): Option<T> {
-        return new Option(value);
+        return new Some(value);
     }
 
     static none<T>(): Option<T> {
-        return new Option<T>(null);
+        return new None<T>();
+    }
+
+    /**
+     * Wraps a possibly-missing value, treating `null` and `undefined` as None.
+     */
+    static fromNullable<T>(value: T | null | undefined): Option<NonNullable<T>> {
+        return value === null || value === undefined
+            ? Option.none()
+            : Option.some(value as NonNullable<T>);
+    }
+
+    /**
+     * Emulates Rust's `?` operator: inside `block`, `yield* option.q()` evaluates to the Some payload,
+     * and yielding a None ends the block with None. The block's return value is wrapped in Some.
+     *
+     * @example
+     * Option.try(function* () {
+     *     const user = yield* findUser(id).q();
+     *     const email = yield* user.email.q();
+     *     return email.toLowerCase();
+     * });
+     */
+    static try<T>(block: () => Generator<None<any>, T, unknown>): Option<T> {
+        const generator = block();
+        const step = generator.next();
+        if (step.done) return Option.some(step.value);
+        generator.return(undefined as T);
+        return Option.none();
+    }
+
+    /**
+     * Async version of `Option.try`: `yield* x.q()` works on Options and OptionAsyncs, and on a
+     * promise of an Option after awaiting it (`yield* (await lookup()).q()`).
+     */
+    static tryAsync<T>(block: () => AsyncGenerator<None<any>, T, unknown>): OptionAsync<T> {
+        return OptionAsync.try(block);
     }
 
-    isSome(): boolean {
-        return this.value !== null;
+    isSome(): this is Some<T> {
+        return this.tag === "Some";
     }
 
-    isNone(): boolean {
-        return !this.isSome();
+    isNone(): this is None<T> {
+        return this.tag === "None";
     }
 
+    /**
+     * Returns the payload.
+     * @throws Panic if this is None.
+     */
     unwrap(): T {
-        if (this.isNone()) throw new Error("Called unwrap on a None value");
-        return this.value as T;
+        if (this.isSome()) return this.value;
+        return panic("Called unwrap on a None value", undefined, Option.prototype.unwrap);
+    }
+
+    /**
+     * Returns the payload.
+     * @throws Panic with `message` if this is None.
+     */
+    expect(message: string): T {
+        if (this.isSome()) return this.value;
+        return panic(message, undefined, Option.prototype.expect);
     }
 
     unwrapOr(defaultValue: T): T {
-        return this.isSome() ? this.value as T : defaultValue;
+        return this.isSome() ? this.value : defaultValue;
+    }
+
+    /** Returns the payload, or the result of `fn` for None. */
+    unwrapOrElse(fn: () => T): T {
+        return this.isSome() ? this.value : fn();
+    }
+
+    /**
+     * Returns the payload, or the default value of `type` for None, e.g. `option.unwrapOrDefault(Number)`.
+     * @throws Panic if `type` has no default value.
+     */
+    unwrapOrDefault(type: DefaultType<T>): T {
+        if (this.isSome()) return this.value;
+        return defaultOrPanic(type, Option.prototype.unwrapOrDefault);
+    }
+
+    /**
+     * Returns the payload without checking the variant; for None this is `undefined`.
+     * Only use it where the variant has been established some other way.
+     */
+    unwrapUnchecked(): T {
+        return (this as unknown as Some<T>).value;
     }
 
     map<U>(fn: (value: T) => U): Option<U> {
-        return this.isSome() ? Option.some(fn(this.value as T)) : Option.none();
+        return this.isSome() ? Option.some(fn(this.value)) : Option.none();
     }
 
     andThen<U>(fn: (value: T) => Option<U>): Option<U> {
-        return this.isSome() ? fn(this.value as T) : Option.none();
+        return this.isSome() ? fn(this.value) : Option.none();
     }
 
     orElse(fn: () => Option<T>): Option<T> {
         return this.isSome() ? this : fn();
     }
 
+    /** Converts None into an Err holding an `AnyError` with `message`, like anyhow's `Context` for Option. */
+    context(message: string): Result<T, AnyError> {
+        return this.isSome() ? Result.ok(this.value) : Result.err(new AnyError(message));
+    }
+
     filter(fn: (value: T) => boolean): Option<T> {
-        return this.isSome() && fn(this.value as T) ? this : Option.none();
+        return this.isSome() && fn(this.value) ? this : Option.none();
+    }
+
+    toNullable(): T | null {
+        return this.isSome() ? this.value : null;
+    }
+
+    /**
+     * Runs `fn` with the payload if this is Some, like Rust's `if let Some(x) = option { ... }`.
+     * `otherwise` runs for None, like an `else` branch.
+     */
+    ifSome<U>(fn: (value: T) => U): U | undefined;
+    ifSome<U, V>(fn: (value: T) => U, otherwise: () => V): U | V;
+    ifSome<U, V>(fn: (value: T) => U, otherwise?: () => V): U | V | undefined {
+        return this.isSome() ? fn(this.value) : otherwise?.();
+    }
+
+    /**
+     * The `?` operator for `Option.try` blocks: `yield* option.q()` evaluates to the Some payload,
+     * or yields this None to end the block.
+     */
+    *q(): Generator<None<never>, T, unknown> {
+        if (this.isSome()) return this.value;
+        yield this as unknown as None<never>;
+        throw new Error("Option.try block resumed after None");
+    }
+
+    /** Yields the Some payload, and nothing for None, like Rust's `IntoIterator`. */
+    *[Symbol.iterator](): Iterator<T> {
+        if (this.isSome()) yield this.value;
+    }
+
+    /** Iterates over the Some payload, yielding nothing for None. */
+    iter(): Iter<T> {
+        return new Iter(this.isSome() ? [this.value] : []);
+    }
+
+    /**
+     * Compares two Options structurally: both None, or both Some with structurally equal payloads.
+     */
+    equals(other: Option<T>): boolean {
+        if (!(other instanceof Option) || this.tag !== other.tag) return false;
+        return this.isSome() ? structuralEquals(this.value, other.unwrap()) : true;
+    }
+
+    /**
+     * Orders Options like Rust: None is less than any Some, and two Somes compare their payloads.
+     * @throws TypeError if the payloads cannot be ordered.
+     */
+    cmp(other: Option<T>): Ordering {
+        if (this.isSome() && other.isSome()) return compare(this.value, other.value);
+        return Ordering.from(Number(this.isSome()) - Number(other.isSome()));
+    }
+
+    /** Like `cmp`, but None when the payloads cannot be ordered or `other` is not an Option. */
+    partialCmp(other: Option<T>): Option<Ordering> {
+        if (!(other instanceof Option)) return Option.none();
+        if (this.isSome() && other.isSome()) return partialCompare(this.value, other.value);
+        return Option.some(this.cmp(other));
+    }
+
+    /** Formats the Option as `Some(<value>)` or `None`. */
+    toString(): string {
+        return this.isSome() ? `Some(${formatPayload(this.value)})` : "None";
+    }
+
+    /** Encodes the Option as `{ "Some": value }` or `"None"`. */
+    toJSON(): { Some: T } | "None" {
+        return this.isSome() ? { Some: this.value } : "None";
+    }
+}
+
+/** The Some variant of an Option, exposing its payload as `value`. */
+export class Some<T> extends Option<T> {
+    constructor(readonly value: T) {
+        super("Some");
+    }
+}
+
+/** The None variant of an Option. */
+export class None<T> extends Option<T> {
+    // Type-only brand so that narrowing with isNone() leaves Some<T> in the other branch.
+    private declare readonly none: true;
+
+    constructor() {
+        super("None");
     }
 }
 
+/**
+ * A type with a default value, like Rust's `Default`: the wrappers of primitives, arrays, Maps, Sets,
+ * Option, or a class with a static `default()` (such as one deriving Default).
+ */
+export type DefaultType<T> =
+    | (T extends number ? NumberConstructor : never)
+    | (T extends string ? StringConstructor : never)
+    | (T extends boolean ? BooleanConstructor : never)
+    | (T extends bigint ? BigIntConstructor : never)
+    | (T extends readonly unknown[] ? ArrayConstructor : never)
+    | (T extends Map<any, any> ? MapConstructor : never)
+    | (T extends Set<any> ? SetConstructor : never)
+    | (T extends Option<any> ? typeof Option : never)
+    | { default(): T };
+
+// The default value of `type` for `unwrapOrDefault`, panicking at the location of the call to `caller` if it has none.
+function defaultOrPanic<T>(type: DefaultType<T>, caller: Function): T {
+    return defaultFor(type).ifSome(
+        (value) => value as T,
+        () => panic(`${(type as Function).name || "The type"} has no default value`, type, caller)
+    );
+}
+
+type OkType<R> = R extends Result<infer T, any> ? T : never;
+type ErrType<R> = R extends Result<any, infer E> ? E : never;
+
 /**
  * Represents a computation result, either success (Ok) or failure (Err), like Rust's `Result<T, E>`.
  * Includes chainable methods for error handling.
+ * The variant is stored as an explicit tag, so any payload (including `null`) is a valid Ok or Err.
  */
 export class Result<T, E> {
-    private constructor(
-        private okValue: T | null,
-        private errValue: E | null
-    ) { }
+    protected constructor(private readonly tag: "Ok" | "Err") { }
 
     static ok<T, E>(value: T): Result<T, E> {
-        return new Result<T, E>(value, null);
+        return new Ok<T, E>(value);
     }
 
     static err<T, E>(error: E): Result<T, E> {
-        return new Result<T, E>(null, error);
+        return new Err<E, T>(error);
+    }
+
+    /**
+     * Converts a promise into a `ResultAsync`, mapping a rejection into an Err.
+     */
+    static fromPromise<T, E>(promise: PromiseLike<T>, mapErr: (error: unknown) => E): ResultAsync<T, E> {
+        return ResultAsync.fromPromise(promise, mapErr);
+    }
+
+    /**
+     * Runs `fn` and captures a thrown exception as an Err, optionally mapped by `mapErr`.
+     */
+    static fromThrowable<T, E = unknown>(fn: () => T, mapErr?: (error: unknown) => E): Result<T, E> {
+        try {
+            return Result.ok(fn());
+        } catch (error) {
+            return Result.err(mapErr ? mapErr(error) : error as E);
+        }
     }
 
-    isOk(): boolean {
-        return this.okValue !== null;
+    /**
+     * Emulates Rust's `?` operator: inside `block`, `yield* result.q()` evaluates to the Ok payload,
+     * and yielding an Err ends the block with that Err. The block's return value is wrapped in Ok,
+     * and its error type is the union of every yielded error.
+     *
+     * Like `?` calling `From::from`, the optional `from` converts each short-circuiting error into
+     * a single error type; a single step can also be converted with `yield* step().mapErr(...).q()`.
+     *
+     * @example
+     * Result.try(function* () {
+     *     const a = yield* parseA().q();
+     *     const b = yield* fetchB(a).q();
+     *     return a + b;
+     * });
+     */
+    static try<Y extends Err<any, any>, T>(block: () => Generator<Y, T, unknown>): Result<T, ErrType<Y>>;
+    static try<Y extends Err<any, any>, T, F>(
+        block: () => Generator<Y, T, unknown>,
+        from: (error: ErrType<Y>) => F
+    ): Result<T, F>;
+    static try<T>(
+        block: () => Generator<Err<unknown>, T, unknown>,
+        from?: (error: unknown) => unknown
+    ): Result<T, unknown> {
+        const generator = block();
+        const step = generator.next();
+        if (step.done) return Result.ok(step.value);
+        generator.return(undefined as T);
+        return Result.err(from ? from(step.value.error) : step.value.error);
     }
 
-    isErr(): boolean {
-        return !this.isOk();
+    /**
+     * Async version of `Result.try`: `yield* x.q()` works on Results and ResultAsyncs, and on a
+     * promise of a Result after awaiting it (`yield* (await load()).q()`).
+     */
+    static tryAsync<Y extends Err<any, any>, T>(
+        block: () => AsyncGenerator<Y, T, unknown>
+    ): ResultAsync<T, ErrType<Y>>;
+    static tryAsync<Y extends Err<any, any>, T, F>(
+        block: () => AsyncGenerator<Y, T, unknown>,
+        from: (error: ErrType<Y>) => F
+    ): ResultAsync<T, F>;
+    static tryAsync<T>(
+        block: () => AsyncGenerator<Err<unknown>, T, unknown>,
+        from?: (error: unknown) => unknown
+    ): ResultAsync<T, unknown> {
+        return from ? ResultAsync.try(block, from) : ResultAsync.try(block);
     }
 
+    /**
+     * Collects every Ok value in order, or returns the first Err encountered.
+     */
+    static all<const R extends readonly Result<any, any>[]>(
+        results: R
+    ): Result<{ -readonly [K in keyof R]: OkType<R[K]> }, ErrType<R[number]>> {
+        const values: unknown[] = [];
+        for (const result of results) {
+            if (result.isErr()) return Result.err(result.unwrapErr());
+            values.push(result.unwrap());
+        }
+        return Result.ok(values as any);
+    }
+
+    /**
+     * Returns the first Ok value, or every Err value in order if none succeeded.
+     */
+    static any<const R extends readonly Result<any, any>[]>(
+        results: R
+    ): Result<OkType<R[number]>, ErrType<R[number]>[]> {
+        const errors: ErrType<R[number]>[] = [];
+        for (const result of results) {
+            if (result.isOk()) return Result.ok(result.unwrap());
+            errors.push(result.unwrapErr());
+        }
+        return Result.err(errors);
+    }
+
+    isOk(): this is Ok<T, E> {
+        return this.tag === "Ok";
+    }
+
+    isErr(): this is Err<E, T> {
+        return this.tag === "Err";
+    }
+
+    /**
+     * Returns the Ok payload.
+     * @throws Panic whose message includes the Debug output of the error, which is its payload.
+     */
     unwrap(): T {
-        if (this.isErr()) throw new Error("Called unwrap on an Err value");
-        return this.okValue as T;
+        if (this.isOk()) return this.value;
+        return this.panicWith("Called unwrap on an Err value", Result.prototype.unwrap);
     }
 
+    /**
+     * Returns the Ok payload.
+     * @throws Panic with `message` followed by the Debug output of the error, which is its payload.
+     */
+    expect(message: string): T {
+        if (this.isOk()) return this.value;
+        return this.panicWith(message, Result.prototype.expect);
+    }
+
+    /**
+     * Returns the Err payload.
+     * @throws Panic whose message includes the Debug output of the Ok value, which is its payload.
+     */
     unwrapErr(): E {
-        if (this.isOk()) throw new Error("Called unwrapErr on an Ok value");
-        return this.errValue as E;
+        if (this.isErr()) return this.error;
+        return this.panicWith("Called unwrapErr on an Ok value", Result.prototype.unwrapErr);
+    }
+
+    /**
+     * Returns the Err payload.
+     * @throws Panic with `message` followed by the Debug output of the Ok value, which is its payload.
+     */
+    expectErr(message: string): E {
+        if (this.isErr()) return this.error;
+        return this.panicWith(message, Result.prototype.expectErr);
+    }
+
+    // Panics with `message: <payload:?>`, reporting the location of the code that called `caller`.
+    private panicWith(message: string, caller: Function): never {
+        const payload: unknown = this.isOk() ? this.value : this.unwrapErr();
+        return panic(`${message}: ${debugValue(payload)}`, payload, caller);
+    }
+
+    unwrapOr(defaultValue: T): T {
+        return this.isOk() ? this.value : defaultValue;
+    }
+
+    /** Returns the Ok payload, or the result of `fn` with the error. */
+    unwrapOrElse(fn: (error: E) => T): T {
+        return this.isOk() ? this.value : fn(this.unwrapErr());
+    }
+
+    /**
+     * Returns the Ok payload, or the default value of `type` for Err, e.g. `result.unwrapOrDefault(Array)`.
+     * @throws Panic if `type` has no default value.
+     */
+    unwrapOrDefault(type: DefaultType<T>): T {
+        if (this.isOk()) return this.value;
+        return defaultOrPanic(type, Result.prototype.unwrapOrDefault);
+    }
+
+    /**
+     * Returns the Ok payload without checking the variant; for Err this is `undefined`.
+     * Only use it where the variant has been established some other way.
+     */
+    unwrapUnchecked(): T {
+        return (this as unknown as Ok<T, E>).value;
     }
 
     map<U>(fn: (value: T) => U): Result<U, E> {
         return this.isOk()
-            ? Result.ok(fn(this.okValue as T))
-            : Result.err(this.errValue as E);
+            ? Result.ok(fn(this.value))
+            : Result.err(this.unwrapErr());
     }
 
     mapErr<F>(fn: (error: E) => F): Result<T, F> {
         return this.isErr()
-            ? Result.err(fn(this.errValue as E))
-            : Result.ok(this.okValue as T);
+            ? Result.err(fn(this.error))
+            : Result.ok(this.unwrap());
     }
 
     andThen<U>(fn: (value: T) => Result<U, E>): Result<U, E> {
-        return this.isOk() ? fn(this.okValue as T) : Result.err(this.errValue as E);
+        return this.isOk() ? fn(this.value) : Result.err(this.unwrapErr());
     }
 
     orElse<F>(fn: (error: E) => Result<T, F>): Result<T, F> {
-        return this.isErr() ? fn(this.errValue as E) : Result.ok(this.okValue as T);
+        return this.isErr() ? fn(this.error) : Result.ok(this.unwrap());
+    }
+
+    /**
+     * Wraps an Err in an `AnyError` with `message`, keeping the original error as its source,
+     * like anyhow's `context`.
+     */
+    context(message: string): Result<T, AnyError> {
+        return this.withContext(() => message);
+    }
+
+    /** Like `context`, but only builds the message (from the error) when this is an Err. */
+    withContext(fn: (error: E) => string): Result<T, AnyError> {
+        return this.isErr() ? Result.err(new AnyError(fn(this.error), this.error)) : Result.ok(this.unwrap());
+    }
+
+    /**
+     * Runs `fn` with the payload if this is Ok, like Rust's `if let Ok(x) = result { ... }`.
+     * `otherwise` runs with the error for Err, like an `else` branch.
+     */
+    ifOk<U>(fn: (value: T) => U): U | undefined;
+    ifOk<U, V>(fn: (value: T) => U, otherwise: (error: E) => V): U | V;
+    ifOk<U, V>(fn: (value: T) => U, otherwise?: (error: E) => V): U | V | undefined {
+        return this.isOk() ? fn(this.value) : otherwise?.(this.unwrapErr());
+    }
+
+    /**
+     * The `?` operator for `Result.try` blocks: `yield* result.q()` evaluates to the Ok payload,
+     * or yields this Err to end the block.
+     */
+    *q(): Generator<Err<E, never>, T, unknown> {
+        if (this.isOk()) return this.value;
+        yield this as unknown as Err<E, never>;
+        throw new Error("Result.try block resumed after Err");
+    }
+
+    /** Yields the Ok payload, and nothing for Err, like Rust's `IntoIterator`. */
+    *[Symbol.iterator](): Iterator<T> {
+        if (this.isOk()) yield this.value;
+    }
+
+    /** Iterates over the Ok payload, yielding nothing for Err. */
+    iter(): Iter<T> {
+        return new Iter(this.isOk() ? [this.value] : []);
+    }
+
+    /**
+     * Compares two Results structurally: same variant with structurally equal payloads.
+     */
+    equals(other: Result<T, E>): boolean {
+        if (!(other instanceof Result) || this.tag !== other.tag) return false;
+        return this.isOk()
+            ? structuralEquals(this.value, other.unwrap())
+            : structuralEquals(this.unwrapErr(), other.unwrapErr());
+    }
+
+    /**
+     * Orders Results like Rust: any Ok is less than any Err, and otherwise the payloads are compared.
+     * @throws TypeError if the payloads cannot be ordered.
+     */
+    cmp(other: Result<T, E>): Ordering {
+        if (this.tag !== other.tag) return this.isOk() ? Ordering.Less : Ordering.Greater;
+        return this.isOk() ? compare(this.value, other.unwrap()) : compare(this.unwrapErr(), other.unwrapErr());
+    }
+
+    /** Like `cmp`, but None when the payloads cannot be ordered or `other` is not a Result. */
+    partialCmp(other: Result<T, E>): Option<Ordering> {
+        if (!(other instanceof Result)) return Option.none();
+        if (this.tag !== other.tag) return Option.some(this.cmp(other));
+        return this.isOk()
+            ? partialCompare(this.value, other.unwrap())
+            : partialCompare(this.unwrapErr(), other.unwrapErr());
+    }
+
+    /** Formats the Result as `Ok(<value>)` or `Err(<error>)`. */
+    toString(): string {
+        return this.isOk()
+            ? `Ok(${formatPayload(this.value)})`
+            : `Err(${formatPayload(this.unwrapErr())})`;
+    }
+
+    /** Encodes the Result as `{ "Ok": value }` or `{ "Err": error }`. */
+    toJSON(): { Ok: T } | { Err: E } {
+        return this.isOk() ? { Ok: this.value } : { Err: this.unwrapErr() };
+    }
+}
+
+/** The Ok variant of a Result, exposing its payload as `value`. */
+export class Ok<T, E = never> extends Result<T, E> {
+    constructor(readonly value: T) {
+        super("Ok");
     }
 }
 
+/** The Err variant of a Result, exposing its payload as `error`. */
+export class Err<E, T = never> extends Result<T, E> {
+    constructor(readonly error: E) {
+        super("Err");
+    }
+}
+
+/** The kind of failure reported by a `ParseError`, named after Rust's `IntErrorKind`. */
+export type ParseErrorKind = "Empty" | "InvalidDigit" | "PosOverflow" | "NegOverflow" | "Invalid";
+
 /**
- * A wrapper around JavaScript's string with additional chainable utility methods.
- * Inspired by Rust's `String` type for consistent string handling.
+ * Error returned by `RustString`'s `parseInt`, `parseFloat` and `parseBool`.
  */
-export class String {
+export class ParseError extends Error {
+    constructor(readonly kind: ParseErrorKind, message: string) {
+        super(message);
+        this.name = "ParseError";
+    }
+}
+
+/**
+ * What `find`, `replace`, `splitOnce` and friends search for: a substring, a regular expression,
+ * or a predicate matching single characters (code points).
+ */
+export type StrPattern = string | RegExp | ((char: string) => boolean);
+
+const FLOAT_LITERAL = /^[+-]?(?:(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?|inf|infinity|nan)$/i;
+
+/**
+ * A string with Rust's `str`/`String` API, Unicode-aware and chainable.
+ * Indices are UTF-16 offsets, as with JavaScript strings; methods taking indices refuse to split
+ * a surrogate pair, and iteration works on code points (`chars`), grapheme clusters (`graphemes`)
+ * or UTF-8 bytes (`bytes`).
+ */
+export class RustString {
     constructor(private value: string) { }
 
-    static from(value: string): String {
-        return new String(value);
+    static from(value: string): RustString {
+        return new RustString(value);
     }
 
     toString(): string {
         return this.value;
     }
 
+    /** The length in UTF-16 code units, like `string.length`; use `chars().count()` for code points. */
     length(): number {
         return this.value.length;
     }
 
-    concat(other: String | string): String {
-        const otherValue = other instanceof String ? other.toString() : other;
-        return new String(this.value + otherValue);
+    isEmpty(): boolean {
+        return this.value.length === 0;
+    }
+
+    /** Whether `index` falls between two characters, i.e. not inside a surrogate pair or past the end. */
+    isCharBoundary(index: number): boolean {
+        if (!Number.isInteger(index) || index < 0 || index > this.value.length) return false;
+        if (index === 0 || index === this.value.length) return true;
+        const before = this.value.charCodeAt(index - 1);
+        const after = this.value.charCodeAt(index);
+        return !(before >= 0xd800 && before <= 0xdbff && after >= 0xdc00 && after <= 0xdfff);
+    }
+
+    concat(other: RustString | string): RustString {
+        return new RustString(this.value + other.toString());
+    }
+
+    /** Appends to this string in place, like Rust's `String::push_str`. */
+    pushStr(other: RustString | string): this {
+        this.value += other.toString();
+        return this;
+    }
+
+    /**
+     * The substring from `start` to `end` (default: the end), or None if the range is out of bounds,
+     * reversed, or splits a character.
+     */
+    slice(start: number, end: number = this.value.length): Option<RustString> {
+        if (start > end || !this.isCharBoundary(start) || !this.isCharBoundary(end)) return Option.none();
+        return Option.some(new RustString(this.value.slice(start, end)));
     }
 
-    slice(start: number, end?: number): String {
-        return new String(this.value.slice(start, end));
+    toUpperCase(): RustString {
+        return new RustString(this.value.toUpperCase());
     }
 
-    toUpperCase(): String {
-        return new String(this.value.toUpperCase());
+    toLowerCase(): RustString {
+        return new RustString(this.value.toLowerCase());
     }
 
-    toLowerCase(): String {
-        return new String(this.value.toLowerCase());
+    trim(): RustString {
+        return new RustString(this.value.trim());
     }
 
-    trim(): String {
-        return new String(this.value.trim());
+    trimStart(): RustString {
+        return new RustString(this.value.trimStart());
+    }
+
+    trimEnd(): RustString {
+        return new RustString(this.value.trimEnd());
+    }
+
+    repeat(count: number): RustString {
+        return new RustString(this.value.repeat(count));
     }
 
     includes(search: string): boolean {
         return this.value.includes(search);
     }
-}
\ No newline at end of file
+
+    startsWith(prefix: string): boolean {
+        return this.value.startsWith(prefix);
+    }
+
+    endsWith(suffix: string): boolean {
+        return this.value.endsWith(suffix);
+    }
+
+    /** The string without `prefix`, or None if it does not start with it. */
+    stripPrefix(prefix: string): Option<RustString> {
+        return this.value.startsWith(prefix)
+            ? Option.some(new RustString(this.value.slice(prefix.length)))
+            : Option.none();
+    }
+
+    /** The string without `suffix`, or None if it does not end with it. */
+    stripSuffix(suffix: string): Option<RustString> {
+        return this.value.endsWith(suffix)
+            ? Option.some(new RustString(this.value.slice(0, this.value.length - suffix.length)))
+            : Option.none();
+    }
+
+    // The [start, end) ranges of the non-overlapping matches of a pattern, from left to right.
+    private *matches(pattern: StrPattern): Generator<[number, number]> {
+        const value = this.value;
+        if (pattern instanceof RegExp) {
+            const global = new RegExp(pattern.source, pattern.flags.includes("g") ? pattern.flags : pattern.flags + "g");
+            for (const match of value.matchAll(global)) yield [match.index, match.index + match[0].length];
+        } else if (typeof pattern === "function") {
+            let index = 0;
+            for (const char of value) {
+                if (pattern(char)) yield [index, index + char.length];
+                index += char.length;
+            }
+        } else if (pattern === "") {
+            let index = 0;
+            for (const char of value) {
+                yield [index, index];
+                index += char.length;
+            }
+            yield [index, index];
+        } else {
+            for (let index = value.indexOf(pattern); index !== -1; index = value.indexOf(pattern, index + pattern.length)) {
+                yield [index, index + pattern.length];
+            }
+        }
+    }
+
+    /** The index of the first match of `pattern`, or None. */
+    find(pattern: StrPattern): Option<number> {
+        const first = this.matches(pattern).next();
+        return first.done ? Option.none() : Option.some(first.value[0]);
+    }
+
+    /** The index of the last match of `pattern`, or None. */
+    rfind(pattern: StrPattern): Option<number> {
+        if (typeof pattern === "string") {
+            const index = this.value.lastIndexOf(pattern);
+            return index === -1 ? Option.none() : Option.some(index);
+        }
+        let last: number | undefined;
+        for (const [start] of this.matches(pattern)) last = start;
+        return last === undefined ? Option.none() : Option.some(last);
+    }
+
+    /** Splits at the first match of `pattern` into the parts before and after it, or None if it does not occur. */
+    splitOnce(pattern: StrPattern): Option<[RustString, RustString]> {
+        const first = this.matches(pattern).next();
+        if (first.done) return Option.none();
+        const [start, end] = first.value;
+        return Option.some([new RustString(this.value.slice(0, start)), new RustString(this.value.slice(end))]);
+    }
+
+    /** Splits at the matches of `pattern` into at most `n` parts, the last holding the rest of the string. */
+    splitN(n: number, pattern: StrPattern): Iter<string> {
+        const parts: string[] = [];
+        if (n > 0) {
+            let rest = 0;
+            for (const [start, end] of this.matches(pattern)) {
+                if (parts.length === n - 1) break;
+                parts.push(this.value.slice(rest, start));
+                rest = end;
+            }
+            parts.push(this.value.slice(rest));
+        }
+        return new Iter(parts);
+    }
+
+    /** Replaces every match of `pattern` with `to`, taken literally. */
+    replace(pattern: StrPattern, to: string): RustString {
+        return this.replacen(pattern, to, Infinity);
+    }
+
+    /** Replaces the first `count` matches of `pattern` with `to`, taken literally. */
+    replacen(pattern: StrPattern, to: string, count: number): RustString {
+        let result = "";
+        let rest = 0;
+        let replaced = 0;
+        for (const [start, end] of this.matches(pattern)) {
+            if (replaced++ >= count) break;
+            result += this.value.slice(rest, start) + to;
+            rest = end;
+        }
+        return new RustString(result + this.value.slice(rest));
+    }
+
+    /** Iterates over the Unicode code points of the string. */
+    chars(): Iter<string> {
+        return new Iter(this.value);
+    }
+
+    /** Iterates over the user-perceived characters (extended grapheme clusters) of the string. */
+    graphemes(): Iter<string> {
+        const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" });
+        return new Iter(segmenter.segment(this.value)).map((segment) => segment.segment);
+    }
+
+    /** Iterates over the UTF-8 encoding of the string. */
+    bytes(): Iter<number> {
+        return new Iter(new TextEncoder().encode(this.value));
+    }
+
+    /** Iterates over the lines of the string, accepting `\n` and `\r\n` endings. */
+    lines(): Iter<string> {
+        const lines = this.value.split(/\r?\n/);
+        if (lines[lines.length - 1] === "") lines.pop();
+        return new Iter(lines);
+    }
+
+    split(separator: string | RegExp): Iter<string> {
+        return new Iter(this.value.split(separator));
+    }
+
+    /**
+     * Parses an integer in the given radix (2 to 36), with an optional sign and nothing else:
+     * no whitespace, prefixes or fractions. Values beyond `Number.MAX_SAFE_INTEGER` overflow.
+     */
+    parseInt(radix: number = 10): Result<number, ParseError> {
+        if (!Number.isInteger(radix) || radix < 2 || radix > 36) throw new RangeError(`Invalid radix: ${radix}`);
+        if (this.value === "") return Result.err(new ParseError("Empty", "cannot parse integer from empty string"));
+        const digits = /^[+-]/.test(this.value) ? this.value.slice(1) : this.value;
+        if (digits === "" || Array.from(digits).some((digit) => Number.isNaN(Number.parseInt(digit, radix)))) {
+            return Result.err(new ParseError("InvalidDigit", "invalid digit found in string"));
+        }
+        const parsed = Number.parseInt(this.value, radix);
+        if (!Number.isSafeInteger(parsed)) {
+            return parsed > 0
+                ? Result.err(new ParseError("PosOverflow", "number too large to fit in target type"))
+                : Result.err(new ParseError("NegOverflow", "number too small to fit in target type"));
+        }
+        return Result.ok(parsed);
+    }
+
+    /** Parses a decimal float such as `-1.5e3`, `.5`, `inf` or `NaN`; unlike `Number()`, nothing else is accepted. */
+    parseFloat(): Result<number, ParseError> {
+        if (this.value === "") return Result.err(new ParseError("Empty", "cannot parse float from empty string"));
+        if (!FLOAT_LITERAL.test(this.value)) return Result.err(new ParseError("Invalid", "invalid float literal"));
+        const negative = this.value.startsWith("-");
+        const word = this.value.replace(/^[+-]/, "").toLowerCase();
+        if (word === "nan") return Result.ok(NaN);
+        if (word === "inf" || word === "infinity") return Result.ok(negative ? -Infinity : Infinity);
+        return Result.ok(Number(this.value));
+    }
+
+    /** Parses exactly `true` or `false`. */
+    parseBool(): Result<boolean, ParseError> {
+        if (this.value === "true") return Result.ok(true);
+        if (this.value === "false") return Result.ok(false);
+        return Result.err(new ParseError("Invalid", "provided string was not `true` or `false`"));
+    }
+
+    equals(other: RustString | string): boolean {
+        return (other instanceof RustString || typeof other === "string") && this.value === other.toString();
+    }
+
+    /** Compares by code point, like Rust (which differs from `<` on strings with astral characters). */
+    cmp(other: RustString | string): Ordering {
+        const a = this.value;
+        const b = other.toString();
+        for (let i = 0; i < Math.min(a.length, b.length); i++) {
+            if (a.charCodeAt(i) !== b.charCodeAt(i)) return Ordering.from(a.codePointAt(i)! - b.codePointAt(i)!);
+        }
+        return Ordering.from(a.length - b.length);
+    }
+
+    debug(): string {
+        return JSON.stringify(this.value);
+    }
+
+    toJSON(): string {
+        return this.value;
+    }
+}
+
+/** @deprecated Renamed to `RustString`, which does not shadow the global `String`. */
+export const String = RustString;
+/** @deprecated Renamed to `RustString`, which does not shadow the global `String`. */
+export type String = RustString;
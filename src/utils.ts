@@ -0,0 +1,81 @@
+/**
+ * Internal helpers shared by the value types. Not part of the public API.
+ */
+
+import { Option } from "./types";
+
+// `using` needs Symbol.dispose, which some runtimes (and realms such as Node 20's vm contexts) lack.
+// Node's own polyfill uses this registered symbol, so guards stay disposable across realms.
+(Symbol as { dispose?: symbol }).dispose ??= Symbol.for("nodejs.dispose");
+
+/**
+ * Structural equality: values with an `equals` or `eq` method (Option, Result, enum variants,
+ * classes deriving PartialEq) delegate to it; arrays, Maps, Sets, dates and plain objects are
+ * compared member by member.
+ */
+export function structuralEquals(a: unknown, b: unknown): boolean {
+    if (a === b || Object.is(a, b)) return true;
+    if (a !== null && typeof a === "object") {
+        if (typeof (a as any).equals === "function") return (a as any).equals(b);
+        if (typeof (a as any).eq === "function") return (a as any).eq(b);
+    }
+    if (Array.isArray(a)) {
+        return Array.isArray(b) && a.length === b.length && a.every((item, i) => structuralEquals(item, b[i]));
+    }
+    if (a instanceof Date) return b instanceof Date && a.getTime() === b.getTime();
+    if (a instanceof Map) {
+        return b instanceof Map && a.size === b.size &&
+            Array.from(a).every(([key, value]) => b.has(key) && structuralEquals(value, b.get(key)));
+    }
+    if (a instanceof Set) {
+        return b instanceof Set && a.size === b.size &&
+            Array.from(a).every((item) => b.has(item) || Array.from(b).some((other) => structuralEquals(item, other)));
+    }
+    if (a !== null && b !== null && typeof a === "object" && typeof b === "object") {
+        if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+        const keys = Object.keys(a);
+        return keys.length === Object.keys(b).length &&
+            keys.every((key) => structuralEquals((a as any)[key], (b as any)[key]));
+    }
+    return false;
+}
+
+/** The default value of `type`, or None if it has none. */
+export function defaultFor(type: unknown): Option<unknown> {
+    switch (type) {
+        case Number: return Option.some(0);
+        case String: return Option.some("");
+        case Boolean: return Option.some(false);
+        case BigInt: return Option.some(0n);
+        case Array: return Option.some([]);
+        case Map: return Option.some(new Map());
+        case Set: return Option.some(new Set());
+        case Option: return Option.some(Option.none());
+    }
+    return typeof (type as any)?.default === "function" ? Option.some((type as any).default()) : Option.none();
+}
+
+/**
+ * Renders a payload for `toString`: strings are quoted, arrays are expanded,
+ * plain objects are JSON-encoded and everything else uses its own `toString`.
+ */
+export function formatPayload(value: unknown): string {
+    if (typeof value === "string") return JSON.stringify(value);
+    if (Array.isArray(value)) return `[${value.map(formatPayload).join(", ")}]`;
+    if (value !== null && typeof value === "object" && value.toString === Object.prototype.toString) {
+        return JSON.stringify(value);
+    }
+    return `${value}`;
+}
+
+/** Defines a non-enumerable method, as derive plugins do on the prototypes they extend. */
+export function defineMethod(prototype: any, name: string, value: Function): void {
+    Object.defineProperty(prototype, name, { value, writable: true, configurable: true });
+}
+
+/** Appends a field name or `[index]` segment to a dotted input path such as `items[0].name`. */
+export function joinPath(parent: string, segment: string): string {
+    if (!parent) return segment;
+    if (!segment) return parent;
+    return segment.startsWith("[") ? parent + segment : `${parent}.${segment}`;
+}